@@ -0,0 +1,455 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+  PermissionsString,
+  ApplicationCommandOptionChoiceData,
+  AutocompleteInteraction,
+  AutocompleteFocusedOption
+} from 'discord.js';
+import { AutocompleteHandler, Command, CommandHelpInfo } from '../core/Command.js';
+import { CommandContext } from '../core/CommandContext.js';
+import { CommandOptions, InferOptions } from '../core/CommandOptions.js';
+import { GuildCommandSettings, GuildSettings } from '../core/GuildSettings.js';
+import { MessageCommandHandler, messageCommandsConfig } from '../core/MessageCommandHandler.js';
+import { ParentCommand } from '../core/ParentCommand.js';
+import { Subcommand, SubcommandHelpInfo } from '../core/Subcommand.js';
+import { I18n, Translator } from '../services/I18n.js';
+
+/**
+ * A command or category chosen in a /config option
+ */
+type ConfigTarget =
+  | { type: 'command'; command: Command }
+  | { type: 'category'; category: string };
+
+const targetOptions = CommandOptions.define({
+  target: {
+    type: 'string',
+    description: 'Command or category',
+    required: true,
+    autocomplete: true
+  }
+});
+
+const restrictOptions = CommandOptions.define({
+  command: {
+    type: 'string',
+    description: 'Command to restrict',
+    required: true,
+    autocomplete: true
+  },
+  channel: {
+    type: 'channel',
+    description: 'Channel the command can be used in',
+    channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildVoice, ChannelType.GuildForum]
+  },
+  role: {
+    type: 'role',
+    description: 'Role that can use the command'
+  }
+});
+
+const prefixOptions = CommandOptions.define({
+  prefix: {
+    type: 'string',
+    description: 'New prefix, e.g. ?',
+    maxLength: 10
+  }
+});
+
+/**
+ * /config view - show the server's command settings
+ */
+class ConfigViewSubcommand extends Subcommand {
+  public readonly name = 'view';
+  public readonly description = 'Show the command settings for this server';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Show disabled commands and categories, and which channels and roles each command is limited to',
+    usage: '/config view',
+    examples: ['/config view']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const locale = I18n.getInteractionLocale(interaction);
+    const settings = await GuildSettings.get(interaction.guildId!);
+
+    const restricted = [...new Set([...Object.keys(settings.channels), ...Object.keys(settings.roles)])].sort();
+
+    const embed = new EmbedBuilder()
+      .setTitle(t('config.title'))
+      .setColor(0x5865F2)
+      .addFields(
+        {
+          name: t('config.disabledCommands'),
+          value: settings.disabledCommands.map(name => `\`${name}\``).join(', ') || t('config.none'),
+          inline: true
+        },
+        {
+          name: t('config.disabledCategories'),
+          value: settings.disabledCategories.map(category => I18n.getCategory(locale, category)).join(', ') || t('config.none'),
+          inline: true
+        },
+        {
+          name: t('config.restrictions'),
+          value: restricted.map(name => `\`${name}\`\n${ConfigCommand.formatRestrictions(settings, name, t)}`).join('\n') || t('config.none'),
+          inline: false
+        }
+      )
+      .setTimestamp();
+
+    if (messageCommandsConfig.get().enabled) {
+      embed.addFields({ name: t('config.prefix'), value: `\`${await MessageCommandHandler.getPrefix(interaction.guildId)}\``, inline: false });
+    }
+
+    if (settings.disabledCommands.length === 0 && settings.disabledCategories.length === 0 && restricted.length === 0) {
+      embed.setDescription(t('config.noSettings'));
+    }
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+  }
+}
+
+/**
+ * /config enable and /config disable - toggle a command or a whole category
+ */
+class ConfigToggleSubcommand extends Subcommand<typeof targetOptions> {
+  public readonly name: string;
+  public readonly description: string;
+  public readonly options = targetOptions;
+  public readonly helpInfo: SubcommandHelpInfo;
+
+  public readonly autocompleteHandlers: Record<string, AutocompleteHandler> = {
+    target: (interaction, focused, context) => ConfigCommand.autocompleteTargets(interaction, focused, context, true)
+  };
+
+  constructor(private readonly enable: boolean) {
+    super();
+    this.name = enable ? 'enable' : 'disable';
+    this.description = enable ? 'Enable a command or category in this server' : 'Disable a command or category in this server';
+    this.helpInfo = enable
+      ? {
+          description: 'Enable a command, or every command in a category, that was disabled in this server',
+          usage: '/config enable <target>',
+          examples: ['/config enable target:ping', '/config enable target:Utility']
+        }
+      : {
+          description: 'Disable a command, or every command in a category, in this server. Disabled commands are hidden from /help',
+          usage: '/config disable <target>',
+          examples: ['/config disable target:ping', '/config disable target:Example']
+        };
+  }
+
+  public async execute(
+    interaction: ChatInputCommandInteraction,
+    args: InferOptions<typeof targetOptions>,
+    context: CommandContext
+  ): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const locale = I18n.getInteractionLocale(interaction);
+    const target = ConfigCommand.resolveTarget(context.commandManager.getAllCommands(), args.target, locale, true);
+
+    if (!target) {
+      await interaction.reply({ content: t('config.unknownTarget', { target: args.target }), ephemeral: true });
+      return;
+    }
+
+    if (target.type === 'category') {
+      await GuildSettings.update(interaction.guildId!, settings => {
+        settings.disabledCategories = settings.disabledCategories.filter(category => category !== target.category);
+        if (!this.enable) settings.disabledCategories.push(target.category);
+      });
+
+      const category = I18n.getCategory(locale, target.category);
+      await interaction.reply({
+        content: t(this.enable ? 'config.categoryEnabled' : 'config.categoryDisabled', { category }),
+        ephemeral: true
+      });
+      return;
+    }
+
+    const command = target.command;
+    if (!command.configurable) {
+      await interaction.reply({ content: t('config.notConfigurable', { command: command.getName() }), ephemeral: true });
+      return;
+    }
+
+    const settings = await GuildSettings.update(interaction.guildId!, settings => {
+      settings.disabledCommands = settings.disabledCommands.filter(name => name !== command.getName());
+      if (!this.enable) settings.disabledCommands.push(command.getName());
+    });
+
+    // Enabling a command doesn't override a disabled category
+    if (this.enable && !GuildSettings.isEnabled(settings, command)) {
+      await interaction.reply({
+        content: t('config.categoryStillDisabled', { command: command.getName(), category: command.getHelpInfo(locale).category }),
+        ephemeral: true
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content: t(this.enable ? 'config.commandEnabled' : 'config.commandDisabled', { command: command.getName() }),
+      ephemeral: true
+    });
+  }
+}
+
+/**
+ * /config restrict and /config unrestrict - limit a command to channels and roles
+ */
+class ConfigRestrictSubcommand extends Subcommand<typeof restrictOptions> {
+  public readonly name: string;
+  public readonly description: string;
+  public readonly options = restrictOptions;
+  public readonly helpInfo: SubcommandHelpInfo;
+
+  public readonly autocompleteHandlers: Record<string, AutocompleteHandler> = {
+    command: (interaction, focused, context) => ConfigCommand.autocompleteTargets(interaction, focused, context, false)
+  };
+
+  constructor(private readonly restrict: boolean) {
+    super();
+    this.name = restrict ? 'restrict' : 'unrestrict';
+    this.description = restrict ? 'Limit a command to a channel or role' : 'Remove a channel or role limit from a command';
+    this.helpInfo = restrict
+      ? {
+          description: 'Limit a command to a channel, a role or both. Run it again to allow more channels or roles',
+          usage: '/config restrict <command> [channel] [role]',
+          examples: ['/config restrict command:example channel:#bot-commands', '/config restrict command:example role:@Members']
+        }
+      : {
+          description: 'Remove a channel or role limit from a command, or every limit when neither is given',
+          usage: '/config unrestrict <command> [channel] [role]',
+          examples: ['/config unrestrict command:example channel:#bot-commands', '/config unrestrict command:example']
+        };
+  }
+
+  public async execute(
+    interaction: ChatInputCommandInteraction,
+    args: InferOptions<typeof restrictOptions>,
+    context: CommandContext
+  ): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const locale = I18n.getInteractionLocale(interaction);
+    const target = ConfigCommand.resolveTarget(context.commandManager.getAllCommands(), args.command, locale, false);
+
+    if (target?.type !== 'command') {
+      await interaction.reply({ content: t('config.unknownCommand', { target: args.command }), ephemeral: true });
+      return;
+    }
+
+    const name = target.command.getName();
+    if (!target.command.configurable) {
+      await interaction.reply({ content: t('config.notConfigurable', { command: name }), ephemeral: true });
+      return;
+    }
+
+    if (this.restrict && !args.channel && !args.role) {
+      await interaction.reply({ content: t('config.restrictMissing'), ephemeral: true });
+      return;
+    }
+
+    const settings = await GuildSettings.update(interaction.guildId!, settings => {
+      // Unrestrict without a channel or role clears every limit
+      const clearAll = !this.restrict && !args.channel && !args.role;
+
+      const update = (lists: Record<string, string[]>, id: string | undefined) => {
+        const ids = (lists[name] ?? []).filter(existing => !clearAll && existing !== id);
+        if (this.restrict && id) ids.push(id);
+
+        if (ids.length > 0) {
+          lists[name] = ids;
+        } else {
+          delete lists[name];
+        }
+      };
+
+      update(settings.channels, args.channel?.id);
+      update(settings.roles, args.role?.id);
+    });
+
+    const list = ConfigCommand.formatRestrictions(settings, name, t);
+    await interaction.reply({
+      content: list ? t('config.restricted', { command: name, list }) : t('config.unrestricted', { command: name }),
+      ephemeral: true
+    });
+  }
+}
+
+/**
+ * /config prefix - set or reset the server's message command prefix
+ */
+class ConfigPrefixSubcommand extends Subcommand<typeof prefixOptions> {
+  public readonly name = 'prefix';
+  public readonly description = 'Set the prefix for message commands';
+  public readonly options = prefixOptions;
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Set the prefix for message commands in this server, or go back to the default prefix when none is given',
+    usage: '/config prefix [prefix]',
+    examples: ['/config prefix prefix:?', '/config prefix']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction, args: InferOptions<typeof prefixOptions>): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const prefix = args.prefix?.trim();
+
+    if (prefix !== undefined && !/^\S{1,10}$/.test(prefix)) {
+      await interaction.reply({ content: t('config.prefixInvalid'), ephemeral: true });
+      return;
+    }
+
+    const { prefix: defaultPrefix, enabled } = messageCommandsConfig.get();
+    await GuildSettings.update(interaction.guildId!, settings => {
+      if (prefix && prefix !== defaultPrefix) {
+        settings.prefix = prefix;
+      } else {
+        delete settings.prefix;
+      }
+    });
+
+    const lines = [prefix ? t('config.prefixSet', { prefix }) : t('config.prefixReset', { prefix: defaultPrefix })];
+    if (!enabled) lines.push(t('config.prefixDisabled'));
+
+    await interaction.reply({ content: lines.join('\n'), ephemeral: true });
+  }
+}
+
+/**
+ * /config reset - remove all settings for the server
+ */
+class ConfigResetSubcommand extends Subcommand {
+  public readonly name = 'reset';
+  public readonly description = 'Reset all command settings for this server';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Enable every command again and remove all channel and role limits and the custom prefix',
+    usage: '/config reset',
+    examples: ['/config reset']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await GuildSettings.reset(interaction.guildId!);
+    await interaction.reply({ content: I18n.forInteraction(interaction)('config.reset'), ephemeral: true });
+  }
+}
+
+/**
+ * Per-server command configuration for server managers
+ * Settings are stored with GuildSettings and checked in Command.validate
+ */
+export class ConfigCommand extends ParentCommand {
+  public readonly data = new SlashCommandBuilder()
+    .setName('config')
+    .setDescription('Configure which commands can be used in this server');
+
+  public readonly subcommands = [
+    new ConfigViewSubcommand(),
+    new ConfigToggleSubcommand(true),
+    new ConfigToggleSubcommand(false),
+    new ConfigRestrictSubcommand(true),
+    new ConfigRestrictSubcommand(false),
+    new ConfigPrefixSubcommand(),
+    new ConfigResetSubcommand()
+  ];
+
+  public readonly helpInfo: CommandHelpInfo = {
+    name: 'config',
+    description: 'Enable or disable commands and categories, and limit commands to channels or roles in this server',
+    usage: '/config <view|enable|disable|restrict|unrestrict|prefix|reset>',
+    examples: [
+      '/config view',
+      '/config disable target:Example',
+      '/config restrict command:example channel:#bot-commands',
+      '/config prefix prefix:?',
+      '/config reset'
+    ],
+    category: 'Admin'
+  };
+
+  // Configuration
+  public readonly memberPermissions: PermissionsString[] = ['ManageGuild'];
+  public readonly guildOnly = true;
+  public readonly configurable = false; // So managers can't lock themselves out
+
+  /**
+   * Resolve an option value to a command or category
+   * Accepts autocomplete values ("command:ping", "category:Utility") and typed names, localized or not
+   */
+  public static resolveTarget(commands: Command[], value: string, locale: string, allowCategories: boolean): ConfigTarget | undefined {
+    const [prefix, ...rest] = value.split(':');
+    const name = (rest.length > 0 && (prefix === 'command' || prefix === 'category') ? rest.join(':') : value).trim().toLowerCase();
+
+    if (prefix !== 'category') {
+      const command = commands.find(cmd => cmd.getName().toLowerCase() === name)
+        ?? commands.find(cmd => I18n.getCommandLocalization(locale, [cmd.getName()])?.name?.toLowerCase() === name);
+      if (command) return { type: 'command', command };
+    }
+
+    if (allowCategories && prefix !== 'command') {
+      const category = ConfigCommand.getCategories(commands)
+        .find(category => category.toLowerCase() === name || I18n.getCategory(locale, category).toLowerCase() === name);
+      if (category) return { type: 'category', category };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Suggest configurable commands, and optionally categories, matching the typed value
+   */
+  public static async autocompleteTargets(
+    interaction: AutocompleteInteraction,
+    focused: AutocompleteFocusedOption,
+    context: CommandContext,
+    includeCategories: boolean
+  ): Promise<ApplicationCommandOptionChoiceData[]> {
+    const t = I18n.forInteraction(interaction);
+    const locale = I18n.getInteractionLocale(interaction);
+    const query = focused.value.toLowerCase();
+    const commands = context.commandManager.getAllCommands();
+
+    const entries = [
+      ...commands
+        .filter(cmd => cmd.configurable)
+        .map(cmd => ({ label: cmd.getName(), value: `command:${cmd.getName()}`, kind: t('config.command') })),
+      ...(includeCategories
+        ? ConfigCommand.getCategories(commands).map(category => ({
+            label: I18n.getCategory(locale, category),
+            value: `category:${category}`,
+            kind: t('config.category')
+          }))
+        : [])
+    ];
+
+    return entries
+      .filter(entry => entry.label.toLowerCase().includes(query))
+      .slice(0, 25) // Discord limit
+      .map(entry => ({ name: `${entry.label} (${entry.kind})`, value: entry.value }));
+  }
+
+  /**
+   * Format a command's channel and role limits, or an empty string if it has none
+   */
+  public static formatRestrictions(settings: GuildCommandSettings, name: string, t: Translator): string {
+    const lines: string[] = [];
+    const channels = settings.channels[name] ?? [];
+    const roles = settings.roles[name] ?? [];
+
+    if (channels.length > 0) lines.push(t('config.channels', { list: channels.map(id => `<#${id}>`).join(', ') }));
+    if (roles.length > 0) lines.push(t('config.roles', { list: roles.map(id => `<@&${id}>`).join(', ') }));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Categories of configurable commands
+   */
+  private static getCategories(commands: Command[]): string[] {
+    return [...new Set(commands.filter(cmd => cmd.configurable).map(cmd => cmd.helpInfo.category))];
+  }
+}
@@ -3,98 +3,116 @@ import {
   SlashCommandBuilder, 
   EmbedBuilder 
 } from 'discord.js';
-import { Command, CommandHelpInfo } from '../core/Command.js';
-import { Environment } from '../services/Environment.js';
+import { CommandHelpInfo } from '../core/Command.js';
+import { CommandContext } from '../core/CommandContext.js';
+import { ParentCommand } from '../core/ParentCommand.js';
+import { Subcommand, SubcommandHelpInfo } from '../core/Subcommand.js';
+import { ClientStats, ShardStatistics } from '../services/ClientStats.js';
+import { I18n, Translator } from '../services/I18n.js';
 
 /**
- * Developer-only command for testing and debugging
+ * /dev info - show environment and process details
  */
-export class DevCommand extends Command {
-  public readonly data = new SlashCommandBuilder()
-    .setName('dev')
-    .setDescription('Developer-only command for testing and debugging')
-    .addSubcommand(subcommand =>
-      subcommand
-        .setName('info')
-        .setDescription('Show development information')
-    )
-    .addSubcommand(subcommand =>
-      subcommand
-        .setName('test')
-        .setDescription('Run a test command')
-    );
+class DevInfoSubcommand extends Subcommand {
+  public readonly name = 'info';
+  public readonly description = 'Show development information';
 
-  public readonly helpInfo: CommandHelpInfo = {
-    name: 'dev',
-    description: 'Developer-only command for testing, debugging, and development information',
-    usage: '/dev <info|test>',
-    examples: ['/dev info', '/dev test'],
-    category: 'Developer'
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Show the environment, configured developers, process details and every shard',
+    usage: '/dev info',
+    examples: ['/dev info']
   };
 
-  // Configuration
-  public readonly developerOnly = true;
-
-  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    const subcommand = interaction.options.getSubcommand();
-
-    switch (subcommand) {
-      case 'info':
-        await this.handleInfo(interaction);
-        break;
-      case 'test':
-        await this.handleTest(interaction);
-        break;
-    }
-  }
-
-  private async handleInfo(interaction: ChatInputCommandInteraction): Promise<void> {
-    const config = Environment.getConfig();
+  public async execute(interaction: ChatInputCommandInteraction, _args: unknown, context: CommandContext): Promise<void> {
+    const { config } = context;
+    const t = I18n.forInteraction(interaction);
+    const stats = await ClientStats.collect(interaction.client);
+    const yesNo = (value: boolean) => t(value ? 'common.yes' : 'common.no');
     
     const embed = new EmbedBuilder()
-      .setTitle('🔧 Development Information')
-      .setDescription('Internal bot information for developers')
+      .setTitle(t('dev.infoTitle'))
+      .setDescription(t('dev.infoDescription'))
       .setColor(0xFF6B35)
       .addFields(
         {
-          name: '🌍 Environment',
+          name: t('dev.environment'),
           value: [
-            `**Mode**: ${config.nodeEnv}`,
-            `**Development**: ${config.isDevelopment ? 'Yes' : 'No'}`,
-            `**Production**: ${config.isProduction ? 'Yes' : 'No'}`
+            t('dev.mode', { mode: config.nodeEnv }),
+            t('dev.development', { value: yesNo(config.isDevelopment) }),
+            t('dev.production', { value: yesNo(config.isProduction) })
           ].join('\n'),
           inline: true
         },
         {
-          name: '👥 Developers',
+          name: t('dev.developers'),
           value: [
-            `**Count**: ${config.developerIds.length}`,
-            `**IDs**: ${config.developerIds.length > 0 ? config.developerIds.join(', ') : 'None configured'}`
+            t('dev.developerCount', { count: config.developerIds.length }),
+            t('dev.developerIds', { ids: config.developerIds.length > 0 ? config.developerIds.join(', ') : t('dev.noDevelopers') })
           ].join('\n'),
           inline: true
         },
         {
-          name: '⚡ Process',
+          name: t('dev.process'),
           value: [
             `**Node.js**: ${process.version}`,
             `**PID**: ${process.pid}`,
-            `**Uptime**: ${Math.floor(process.uptime())}s`,
-            `**Memory**: ${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`
+            t('dev.uptime', { seconds: Math.floor(process.uptime()) }),
+            t('dev.memory', { memory: Math.round(process.memoryUsage().heapUsed / 1024 / 1024) })
           ].join('\n'),
           inline: false
+        },
+        {
+          name: t('dev.shards', { count: stats.shards.length }),
+          value: this.formatShards(t, stats.shards),
+          inline: false
         }
       )
       .setTimestamp()
-      .setFooter({ text: `Requested by ${interaction.user.tag}` });
+      .setFooter({ text: t('common.requestedBy', { user: interaction.user.tag }) });
 
     await interaction.reply({ embeds: [embed], ephemeral: true });
   }
 
-  private async handleTest(interaction: ChatInputCommandInteraction): Promise<void> {
+  /**
+   * One line per shard, cut short to fit an embed field
+   */
+  private formatShards(t: Translator, shards: ShardStatistics[]): string {
+    const maxLines = 15;
+    const lines = shards.slice(0, maxLines).map(shard => t('dev.shard', {
+      id: shard.id,
+      guilds: shard.guilds,
+      ping: shard.ping,
+      memory: Math.round(shard.memory / 1024 / 1024),
+      uptime: Math.floor(shard.uptime / 1000)
+    }));
+
+    if (shards.length > maxLines) {
+      lines.push(t('dev.moreShards', { count: shards.length - maxLines }));
+    }
+
+    return lines.join('\n');
+  }
+}
+
+/**
+ * /dev test - run a quick round trip and report timings
+ */
+class DevTestSubcommand extends Subcommand {
+  public readonly name = 'test';
+  public readonly description = 'Run a test command';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Reply, wait briefly and edit the reply, reporting how long it took and the API latency',
+    usage: '/dev test',
+    examples: ['/dev test']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction, _args: unknown, context: CommandContext): Promise<void> {
+    const t = I18n.forInteraction(interaction);
     const startTime = Date.now();
     
     await interaction.reply({
-      content: '🧪 Running developer test...',
+      content: t('dev.testRunning'),
       ephemeral: true
     });
 
@@ -105,11 +123,36 @@ export class DevCommand extends Command {
     const duration = endTime - startTime;
 
     await interaction.editReply({
-      content: `✅ **Developer test completed!**\n\n` +
-               `⏱️ **Duration**: ${duration}ms\n` +
-               `🤖 **Bot Status**: Operational\n` +
-               `📡 **API Latency**: ${interaction.client.ws.ping}ms\n` +
-               `🔧 **Environment**: ${Environment.getConfig().nodeEnv}`
+      content: t('dev.testCompleted', {
+        duration,
+        apiLatency: interaction.client.ws.ping,
+        environment: context.config.nodeEnv
+      })
     });
   }
 }
+
+/**
+ * Developer-only command for testing and debugging
+ */
+export class DevCommand extends ParentCommand {
+  public readonly data = new SlashCommandBuilder()
+    .setName('dev')
+    .setDescription('Developer-only command for testing and debugging');
+
+  public readonly subcommands = [
+    new DevInfoSubcommand(),
+    new DevTestSubcommand()
+  ];
+
+  public readonly helpInfo: CommandHelpInfo = {
+    name: 'dev',
+    description: 'Developer-only command for testing, debugging, and development information',
+    usage: '/dev <info|test>',
+    examples: ['/dev info', '/dev test'],
+    category: 'Developer'
+  };
+
+  // Configuration
+  public readonly developerOnly = true;
+}
@@ -2,47 +2,220 @@ import {
   ChatInputCommandInteraction, 
   SlashCommandBuilder, 
   EmbedBuilder,
-  PermissionsString
+  PermissionsString,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  User,
+  GuildMember
 } from 'discord.js';
-import { Command, CommandHelpInfo } from '../core/Command.js';
-import { Logger } from '../services/Logger.js';
+import { 
+  CommandHelpInfo, 
+  ComponentHandler, 
+  ComponentInteraction 
+} from '../core/Command.js';
+import { CommandOptions, InferOptions } from '../core/CommandOptions.js';
+import { CooldownOptions } from '../core/CooldownTracker.js';
+import { ParentCommand } from '../core/ParentCommand.js';
+import { Subcommand, SubcommandHelpInfo } from '../core/Subcommand.js';
+import { I18n, Translator } from '../services/I18n.js';
+
+const userOptions = CommandOptions.define({
+  target: {
+    type: 'user',
+    description: 'The user to get info about'
+  }
+});
+
+/**
+ * /example user - show information about a user
+ */
+class ExampleUserSubcommand extends Subcommand<typeof userOptions> {
+  public readonly name = 'user';
+  public readonly description = 'Get information about a user';
+  public readonly options = userOptions;
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Show account and membership details for a user, or for yourself',
+    usage: '/example user [target]',
+    examples: ['/example user', '/example user target:@john']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction, args: InferOptions<typeof userOptions>): Promise<void> {
+    const targetUser = args.target ?? interaction.user;
+    const member = interaction.guild?.members.cache.get(targetUser.id);
+
+    await interaction.reply({ embeds: [ExampleCommand.createUserEmbed(I18n.forInteraction(interaction), targetUser, member)] });
+  }
+}
+
+/**
+ * /example server - show information about the current server
+ */
+class ExampleServerSubcommand extends Subcommand {
+  public readonly name = 'server';
+  public readonly description = 'Get information about the server';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Show statistics and details about the current server',
+    usage: '/example server',
+    examples: ['/example server']
+  };
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const guild = interaction.guild!;
+
+    const embed = new EmbedBuilder()
+      .setTitle(t('example.serverTitle'))
+      .setDescription(t('example.serverDescription', { server: guild.name }))
+      .setColor(0x5865F2)
+      .setThumbnail(guild.iconURL())
+      .addFields(
+        {
+          name: t('example.statistics'),
+          value: [
+            t('example.members', { count: guild.memberCount }),
+            t('example.channels', { count: guild.channels.cache.size }),
+            t('example.roleCount', { count: guild.roles.cache.size }),
+            t('example.emojis', { count: guild.emojis.cache.size })
+          ].join('\n'),
+          inline: true
+        },
+        {
+          name: t('example.serverDetails'),
+          value: [
+            t('example.owner', { owner: `<@${guild.ownerId}>` }),
+            t('example.created', { date: `<t:${Math.floor(guild.createdTimestamp / 1000)}:F>` }),
+            t('example.verification', { level: guild.verificationLevel }),
+            t('example.boostLevel', { tier: guild.premiumTier })
+          ].join('\n'),
+          inline: true
+        }
+      )
+      .setTimestamp();
+
+    if (guild.description) {
+      embed.addFields({
+        name: t('example.serverDescriptionField'),
+        value: guild.description,
+        inline: false
+      });
+    }
+
+    await interaction.reply({ embeds: [embed] });
+  }
+}
+
+/**
+ * /example confirm - show buttons handled by ExampleCommand's confirm component handler
+ */
+class ExampleConfirmSubcommand extends Subcommand {
+  public readonly name = 'confirm';
+  public readonly description = 'Show a confirmation dialog';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Show Confirm and Cancel buttons that only you can answer',
+    usage: '/example confirm',
+    examples: ['/example confirm']
+  };
+
+  constructor(private readonly parent: ExampleCommand) {
+    super();
+  }
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    // The invoking user's ID travels in the custom ID so only they can answer
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(this.parent.createCustomId('confirm', interaction.user.id, 'yes'))
+        .setLabel(t('example.confirm'))
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(this.parent.createCustomId('confirm', interaction.user.id, 'no'))
+        .setLabel(t('example.cancel'))
+        .setStyle(ButtonStyle.Secondary)
+    );
+
+    await interaction.reply({
+      content: t('example.confirmQuestion'),
+      components: [row]
+    });
+  }
+}
+
+/**
+ * /example feedback - open a modal handled by ExampleCommand's feedback component handler
+ */
+class ExampleFeedbackSubcommand extends Subcommand {
+  public readonly name = 'feedback';
+  public readonly description = 'Open a feedback form';
+
+  public readonly helpInfo: SubcommandHelpInfo = {
+    description: 'Open a form to send feedback, which is echoed back privately',
+    usage: '/example feedback',
+    examples: ['/example feedback']
+  };
+
+  constructor(private readonly parent: ExampleCommand) {
+    super();
+  }
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
+    const modal = new ModalBuilder()
+      .setCustomId(this.parent.createCustomId('feedback'))
+      .setTitle(t('example.feedbackTitle'))
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId('message')
+            .setLabel(t('example.feedbackLabel'))
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(1000)
+            .setRequired(true)
+        )
+      );
+
+    await interaction.showModal(modal);
+  }
+}
 
 /**
  * Example command demonstrating advanced features:
- * - Subcommands
+ * - Subcommands, each with its own handler and help
  * - Options
  * - Permissions
  * - Error handling
  * - Guild-only restriction
+ * - Buttons and modals routed back through componentHandlers
  */
-export class ExampleCommand extends Command {
+export class ExampleCommand extends ParentCommand {
   public readonly data = new SlashCommandBuilder()
     .setName('example')
-    .setDescription('Example command with advanced features')
-    .addSubcommand(subcommand =>
-      subcommand
-        .setName('user')
-        .setDescription('Get information about a user')
-        .addUserOption(option =>
-          option.setName('target')
-            .setDescription('The user to get info about')
-            .setRequired(false)
-        )
-    )
-    .addSubcommand(subcommand =>
-      subcommand
-        .setName('server')
-        .setDescription('Get information about the server')
-    );
+    .setDescription('Example command with advanced features');
+
+  public readonly subcommands = [
+    new ExampleUserSubcommand(),
+    new ExampleServerSubcommand(),
+    new ExampleConfirmSubcommand(this),
+    new ExampleFeedbackSubcommand(this)
+  ];
 
   public readonly helpInfo: CommandHelpInfo = {
     name: 'example',
     description: 'Example command demonstrating subcommands, options, and advanced features',
-    usage: '/example <user|server> [target]',
+    usage: '/example <user|server|confirm|feedback> [target]',
     examples: [
       '/example user',
       '/example user target:@john',
-      '/example server'
+      '/example server',
+      '/example confirm',
+      '/example feedback'
     ],
     category: 'Example'
   };
@@ -50,57 +223,44 @@ export class ExampleCommand extends Command {
   // Command configuration
   public readonly requiredPermissions: PermissionsString[] = ['SendMessages'];
   public readonly guildOnly = true;
+  public readonly messageCommand = true;
+  public readonly cooldowns: CooldownOptions[] = [
+    { scope: 'user', duration: 15_000, burst: 3 },
+    { scope: 'guild', duration: 60_000, burst: 20 }
+  ];
 
-  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    const subcommand = interaction.options.getSubcommand();
-
-    try {
-      switch (subcommand) {
-        case 'user':
-          await this.handleUserSubcommand(interaction);
-          break;
-        
-        case 'server':
-          await this.handleServerSubcommand(interaction);
-          break;
-        
-        default:
-          await interaction.reply({
-            content: '❌ Unknown subcommand.',
-            ephemeral: true
-          });
-      }
-    } catch (error) {
-      Logger.error(`Error in example command subcommand ${subcommand}:`, error);
-      throw error; // Re-throw to be handled by main error handler
-    }
-  }
-
-  private async handleUserSubcommand(interaction: ChatInputCommandInteraction): Promise<void> {
-    const targetUser = interaction.options.getUser('target') || interaction.user;
-    const member = interaction.guild?.members.cache.get(targetUser.id);
+  // Component handlers, routed back here by custom ID
+  public readonly componentHandlers: Record<string, ComponentHandler> = {
+    confirm: (interaction, state) => this.handleConfirmButton(interaction, state),
+    feedback: (interaction) => this.handleFeedbackModal(interaction)
+  };
 
+  /**
+   * Build the user information embed (shared with the User Info context menu)
+   * @param t Translator for the interaction's locale
+   */
+  public static createUserEmbed(t: Translator, targetUser: User, member?: GuildMember): EmbedBuilder {
     const embed = new EmbedBuilder()
-      .setTitle(`👤 User Information`)
-      .setDescription(`Information about ${targetUser.tag}`)
+      .setTitle(t('example.userTitle'))
+      .setDescription(t('example.userDescription', { user: targetUser.tag }))
       .setColor(0x00AE86)
       .setThumbnail(targetUser.displayAvatarURL())
       .addFields(
         {
-          name: '📊 Basic Info',
+          name: t('example.basicInfo'),
           value: [
-            `**Username:** ${targetUser.username}`,
-            `**Display Name:** ${targetUser.displayName}`,
-            `**ID:** ${targetUser.id}`,
-            `**Bot:** ${targetUser.bot ? 'Yes' : 'No'}`
+            t('example.username', { username: targetUser.username }),
+            t('example.displayName', { displayName: targetUser.displayName }),
+            t('example.id', { id: targetUser.id }),
+            t('example.bot', { bot: t(targetUser.bot ? 'common.yes' : 'common.no') })
           ].join('\n'),
           inline: true
         },
         {
-          name: '📅 Dates',
+          name: t('example.dates'),
           value: [
-            `**Account Created:** <t:${Math.floor(targetUser.createdTimestamp / 1000)}:F>`,
-            `**Joined Server:** ${member ? `<t:${Math.floor(member.joinedTimestamp! / 1000)}:F>` : 'Not in server'}`
+            t('example.accountCreated', { date: `<t:${Math.floor(targetUser.createdTimestamp / 1000)}:F>` }),
+            t('example.joinedServer', { date: member ? `<t:${Math.floor(member.joinedTimestamp! / 1000)}:F>` : t('example.notInServer') })
           ].join('\n'),
           inline: true
         }
@@ -109,60 +269,46 @@ export class ExampleCommand extends Command {
 
     if (member) {
       embed.addFields({
-        name: '🎭 Roles',
+        name: t('example.roles'),
         value: member.roles.cache.size > 1 
           ? member.roles.cache
               .filter(role => role.name !== '@everyone')
               .map(role => role.toString())
               .join(', ')
-          : 'No roles',
+          : t('example.noRoles'),
         inline: false
       });
     }
 
-    await interaction.reply({ embeds: [embed] });
+    return embed;
   }
 
-  private async handleServerSubcommand(interaction: ChatInputCommandInteraction): Promise<void> {
-    const guild = interaction.guild!;
-
-    const embed = new EmbedBuilder()
-      .setTitle(`🏰 Server Information`)
-      .setDescription(`Information about ${guild.name}`)
-      .setColor(0x5865F2)
-      .setThumbnail(guild.iconURL())
-      .addFields(
-        {
-          name: '📊 Statistics',
-          value: [
-            `**Members:** ${guild.memberCount}`,
-            `**Channels:** ${guild.channels.cache.size}`,
-            `**Roles:** ${guild.roles.cache.size}`,
-            `**Emojis:** ${guild.emojis.cache.size}`
-          ].join('\n'),
-          inline: true
-        },
-        {
-          name: '👑 Server Details',
-          value: [
-            `**Owner:** <@${guild.ownerId}>`,
-            `**Created:** <t:${Math.floor(guild.createdTimestamp / 1000)}:F>`,
-            `**Verification:** ${guild.verificationLevel}`,
-            `**Boost Level:** ${guild.premiumTier}`
-          ].join('\n'),
-          inline: true
-        }
-      )
-      .setTimestamp();
+  private async handleConfirmButton(interaction: ComponentInteraction, [userId, choice]: string[]): Promise<void> {
+    if (!interaction.isButton()) return;
 
-    if (guild.description) {
-      embed.addFields({
-        name: '📝 Description',
-        value: guild.description,
-        inline: false
+    const t = I18n.forInteraction(interaction);
+    if (interaction.user.id !== userId) {
+      await interaction.reply({
+        content: t('example.notYourConfirmation'),
+        ephemeral: true
       });
+      return;
     }
 
-    await interaction.reply({ embeds: [embed] });
+    await interaction.update({
+      content: t(choice === 'yes' ? 'example.confirmed' : 'example.cancelled'),
+      components: []
+    });
+  }
+
+  private async handleFeedbackModal(interaction: ComponentInteraction): Promise<void> {
+    if (!interaction.isModalSubmit()) return;
+
+    const message = interaction.fields.getTextInputValue('message');
+
+    await interaction.reply({
+      content: I18n.forInteraction(interaction)('example.feedbackThanks', { message }),
+      ephemeral: true
+    });
   }
 }
@@ -1,128 +1,303 @@
 import { 
+  ApplicationCommandType,
   ChatInputCommandInteraction, 
+  AutocompleteInteraction,
+  AutocompleteFocusedOption,
+  ApplicationCommandOptionChoiceData,
   SlashCommandBuilder, 
   EmbedBuilder 
 } from 'discord.js';
-import { Command, CommandHelpInfo } from '../core/Command.js';
-import { ALL_COMMANDS } from './index.js';
+import { Command, CommandHelpInfo, CommandRestrictions } from '../core/Command.js';
+import { CommandContext } from '../core/CommandContext.js';
+import { CooldownOptions } from '../core/CooldownTracker.js';
+import { ParentCommand } from '../core/ParentCommand.js';
+import { Subcommand } from '../core/Subcommand.js';
+import { CommandOptions, InferOptions } from '../core/CommandOptions.js';
+import { I18n, Translator } from '../services/I18n.js';
+
+// Declarative options: generate the builder options and a typed args object for execute
+const options = CommandOptions.define({
+  command: {
+    type: 'string',
+    description: 'Get detailed help for a specific command',
+    autocomplete: true
+  }
+});
 
 /**
  * Help command that automatically uses all registered commands
  * Demonstrates how the centralized system makes help generation automatic
+ * Output is translated to the user's (or server's) locale, and commands disabled with /config are hidden
  */
-export class HelpCommand extends Command {
-  public readonly data = new SlashCommandBuilder()
-    .setName('help')
-    .setDescription('Get help with bot commands')
-    .addStringOption(option =>
-      option.setName('command')
-        .setDescription('Get detailed help for a specific command')
-        .setRequired(false)
-        .setAutocomplete(true)
-    );
+export class HelpCommand extends Command<typeof options> {
+  public readonly options = options;
+
+  public readonly data = CommandOptions.apply(
+    new SlashCommandBuilder()
+      .setName('help')
+      .setDescription('Get help with bot commands'),
+    options
+  );
 
   public readonly helpInfo: CommandHelpInfo = {
     name: 'help',
     description: 'Get help with bot commands and see detailed usage instructions',
     usage: '/help [command]',
-    examples: ['/help', '/help command:ping', '/help command:info'],
+    examples: ['/help', '/help command:ping', '/help command:dev test'],
     category: 'Utility'
   };
 
-  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-    const specificCommand = interaction.options.getString('command');
+  // Command configuration
+  public readonly messageCommand = true;
 
-    if (specificCommand) {
-      await this.showSpecificCommandHelp(interaction, specificCommand);
+  public async execute(
+    interaction: ChatInputCommandInteraction,
+    args: InferOptions<typeof options>,
+    context: CommandContext
+  ): Promise<void> {
+    const locale = I18n.getInteractionLocale(interaction);
+
+    if (args.command) {
+      await this.showSpecificCommandHelp(interaction, context, args.command, locale);
     } else {
-      await this.showAllCommandsHelp(interaction);
+      await this.showAllCommandsHelp(interaction, context, locale);
     }
   }
 
-  private async showSpecificCommandHelp(interaction: ChatInputCommandInteraction, commandName: string): Promise<void> {
-    const command = ALL_COMMANDS.find(cmd => cmd.getName() === commandName);
+  private async showSpecificCommandHelp(
+    interaction: ChatInputCommandInteraction,
+    context: CommandContext,
+    query: string,
+    locale: string
+  ): Promise<void> {
+    const t = I18n.translator(locale);
+    const commands = await context.commandManager.getEnabledCommands(interaction.guildId);
+
+    // Context menu names can contain spaces, so try the whole query before treating the rest as a subcommand path
+    const [commandName, ...path] = query.trim().split(/\s+/);
+    const command = this.findCommand(commands, query.trim(), locale)
+      ?? (path.length > 0 ? this.findCommand(commands, commandName, locale) : undefined);
     
     if (!command) {
       await interaction.reply({
-        content: `❌ Command "${commandName}" not found.`,
+        content: t('help.commandNotFound', { query }),
         ephemeral: true
       });
       return;
     }
 
-    const helpInfo = command.getHelpInfo();
+    if (path.length > 0 && !this.findCommand(commands, query.trim(), locale)) {
+      const subcommandPath = path.join(' ').toLowerCase();
+      const subcommand = command instanceof ParentCommand ? command.findSubcommand(subcommandPath) : undefined;
+      if (!(command instanceof ParentCommand) || !subcommand) {
+        await interaction.reply({
+          content: t('help.subcommandNotFound', { path: path.join(' '), command: command.getName() }),
+          ephemeral: true
+        });
+        return;
+      }
+
+      await this.showSubcommandHelp(interaction, command, subcommandPath, subcommand, locale);
+      return;
+    }
+
+    const helpInfo = command.getHelpInfo(locale);
+    const prefix = command.getType() === ApplicationCommandType.ChatInput ? '/' : '';
     
     const embed = new EmbedBuilder()
-      .setTitle(`📖 Help: /${helpInfo.name}`)
+      .setTitle(t('help.title', { name: `${prefix}${helpInfo.name}` }))
       .setDescription(helpInfo.description)
       .setColor(0x00AE86)
       .addFields(
         {
-          name: '📋 Usage',
+          name: t('help.usage'),
           value: `\`${helpInfo.usage}\``,
           inline: false
         },
         {
-          name: '🎯 Examples',
+          name: t('help.examples'),
           value: helpInfo.examples.map(ex => `\`${ex}\``).join('\n'),
           inline: false
         },
         {
-          name: '📂 Category',
+          name: t('help.category'),
           value: helpInfo.category,
           inline: true
         }
       )
       .setTimestamp();
 
+    // List subcommands, each of which has its own help
+    if (command instanceof ParentCommand) {
+      embed.addFields({
+        name: t('help.subcommands'),
+        value: command.getSubcommandEntries()
+          .map(entry => `\`/${command.getName()} ${entry.path}\` - ${this.describeSubcommand(command, entry.path, entry.subcommand, locale)}`)
+          .join('\n'),
+        inline: false
+      });
+      embed.setFooter({ text: t('help.subcommandsFooter', { command: command.getName() }) });
+    }
+
+    this.addRestrictionFields(embed, command, command.cooldowns, t);
+
+    await interaction.reply({ embeds: [embed] });
+  }
+
+  private async showSubcommandHelp(
+    interaction: ChatInputCommandInteraction,
+    command: ParentCommand,
+    path: string,
+    subcommand: Subcommand,
+    locale: string
+  ): Promise<void> {
+    const t = I18n.translator(locale);
+    const localization = I18n.getCommandLocalization(locale, [command.getName(), ...path.split(' ')]);
+    const helpInfo = { ...subcommand.helpInfo, ...localization?.help };
+
+    const embed = new EmbedBuilder()
+      .setTitle(t('help.title', { name: `/${command.getName()} ${path}` }))
+      .setDescription(helpInfo.description)
+      .setColor(0x00AE86)
+      .addFields(
+        {
+          name: t('help.usage'),
+          value: `\`${helpInfo.usage}\``,
+          inline: false
+        },
+        {
+          name: t('help.examples'),
+          value: helpInfo.examples.map(ex => `\`${ex}\``).join('\n'),
+          inline: false
+        }
+      )
+      .setTimestamp();
+
+    // Options declared by the subcommand
+    if (subcommand.options && Object.keys(subcommand.options).length > 0) {
+      embed.addFields({
+        name: t('help.options'),
+        value: Object.entries(subcommand.options)
+          .map(([name, option]) => {
+            const description = localization?.options?.[name]?.description ?? option.description;
+            return `\`${name}\`${option.required ? '' : ` ${t('help.optional')}`} - ${description}`;
+          })
+          .join('\n'),
+        inline: false
+      });
+    }
+
+    // The parent command's restrictions apply to every subcommand
+    this.addRestrictionFields(embed, {
+      requiredPermissions: [...new Set([...command.requiredPermissions, ...subcommand.requiredPermissions])],
+      memberPermissions: [...new Set([...command.memberPermissions, ...subcommand.memberPermissions])],
+      allowedRoleIds: [...command.allowedRoleIds, ...subcommand.allowedRoleIds],
+      allowedUserIds: [...command.allowedUserIds, ...subcommand.allowedUserIds],
+      deniedRoleIds: [...command.deniedRoleIds, ...subcommand.deniedRoleIds],
+      deniedUserIds: [...command.deniedUserIds, ...subcommand.deniedUserIds],
+      guildOnly: command.guildOnly || subcommand.guildOnly,
+      developerOnly: command.developerOnly || subcommand.developerOnly
+    }, command.cooldowns, t);
+
+    await interaction.reply({ embeds: [embed] });
+  }
+
+  /**
+   * Add permission, access and restriction fields for a command or subcommand
+   */
+  private addRestrictionFields(
+    embed: EmbedBuilder,
+    restrictions: CommandRestrictions,
+    cooldowns: CooldownOptions[],
+    t: Translator
+  ): void {
     // Add permission info if any
-    if (command.requiredPermissions.length > 0) {
+    if (restrictions.requiredPermissions.length > 0) {
       embed.addFields({
-        name: '🔒 Required Permissions',
-        value: command.requiredPermissions.join(', '),
+        name: t('help.requiredPermissions'),
+        value: restrictions.requiredPermissions.join(', '),
         inline: true
       });
     }
 
+    if (restrictions.memberPermissions.length > 0) {
+      embed.addFields({
+        name: t('help.requiredUserPermissions'),
+        value: restrictions.memberPermissions.join(', '),
+        inline: true
+      });
+    }
+
+    // Add role and user access lists if any
+    if (Command.hasAccessLists(restrictions)) {
+      const access: string[] = [];
+      if (restrictions.allowedRoleIds.length > 0) access.push(t('help.allowedRoles', { list: restrictions.allowedRoleIds.map(id => `<@&${id}>`).join(', ') }));
+      if (restrictions.allowedUserIds.length > 0) access.push(t('help.allowedUsers', { list: restrictions.allowedUserIds.map(id => `<@${id}>`).join(', ') }));
+      if (restrictions.deniedRoleIds.length > 0) access.push(t('help.deniedRoles', { list: restrictions.deniedRoleIds.map(id => `<@&${id}>`).join(', ') }));
+      if (restrictions.deniedUserIds.length > 0) access.push(t('help.deniedUsers', { list: restrictions.deniedUserIds.map(id => `<@${id}>`).join(', ') }));
+
+      embed.addFields({
+        name: t('help.access'),
+        value: access.join('\n'),
+        inline: false
+      });
+    }
+
     // Add restrictions if any
-    const restrictions: string[] = [];
-    if (command.guildOnly) restrictions.push('Server only');
-    if (command.developerOnly) restrictions.push('Developer only');
+    const list: string[] = [];
+    if (restrictions.guildOnly) list.push(t('help.serverOnly'));
+    if (restrictions.developerOnly) list.push(t('help.developerOnly'));
+    for (const cooldown of cooldowns) {
+      const uses = (cooldown.burst ?? 1) > 1 ? t('help.uses', { count: cooldown.burst! }) : t('help.oneUse');
+      list.push(t('help.cooldown', { uses, seconds: cooldown.duration / 1000, scope: cooldown.scope }));
+    }
     
-    if (restrictions.length > 0) {
+    if (list.length > 0) {
       embed.addFields({
-        name: '⚠️ Restrictions',
-        value: restrictions.join(', '),
+        name: t('help.restrictions'),
+        value: list.join(', '),
         inline: true
       });
     }
+  }
 
-    await interaction.reply({ embeds: [embed] });
+  /**
+   * Find a command by name or its name in the given locale (case-insensitive)
+   */
+  private findCommand(commands: Command[], name: string, locale: string): Command | undefined {
+    const query = name.toLowerCase();
+    return commands.find(cmd => cmd.getName().toLowerCase() === query)
+      ?? commands.find(cmd => I18n.getCommandLocalization(locale, [cmd.getName()])?.name?.toLowerCase() === query);
   }
 
-  private async showAllCommandsHelp(interaction: ChatInputCommandInteraction): Promise<void> {
-    // Group commands by category
-    const categories = new Map<string, Command[]>();
-    
-    for (const command of ALL_COMMANDS) {
-      const category = command.getHelpInfo().category;
-      if (!categories.has(category)) {
-        categories.set(category, []);
-      }
-      categories.get(category)!.push(command);
-    }
+  /**
+   * Get a subcommand's description in the given locale
+   */
+  private describeSubcommand(command: Command, path: string, subcommand: Subcommand, locale: string): string {
+    return I18n.getCommandLocalization(locale, [command.getName(), ...path.split(' ')])?.description ?? subcommand.description;
+  }
+
+  private async showAllCommandsHelp(interaction: ChatInputCommandInteraction, context: CommandContext, locale: string): Promise<void> {
+    const t = I18n.translator(locale);
+    const enabled = new Set(await context.commandManager.getEnabledCommands(interaction.guildId));
+    const isSlashCommand = (cmd: Command) => cmd.getType() === ApplicationCommandType.ChatInput;
+
+    const contextMenuCommands = [...enabled].filter(cmd => !isSlashCommand(cmd));
 
     const embed = new EmbedBuilder()
-      .setTitle('🤖 Bot Commands')
-      .setDescription('Here are all available commands, organized by category.\nReach out to @PineFruit for any future requests.')
+      .setTitle(t('help.allTitle'))
+      .setDescription(t('help.allDescription'))
       .setColor(0x5865F2)
       .setTimestamp()
-      .setFooter({ text: 'Use /help command:<name> for detailed help on a specific command' });
+      .setFooter({ text: t('help.allFooter') });
 
     // Add fields for each category
-    for (const [categoryName, commands] of categories) {
-      const commandList = commands
-        .map(cmd => `\`/${cmd.getName()}\` - ${cmd.getDescription()}`)
+    for (const [categoryName, commands] of context.commandManager.getCommandsByCategory(locale)) {
+      const visible = commands.filter(cmd => enabled.has(cmd) && isSlashCommand(cmd));
+      if (visible.length === 0) continue;
+
+      const commandList = visible
+        .map(cmd => `\`/${cmd.getName()}\` - ${cmd.getDescription(locale)}`)
         .join('\n');
 
       embed.addFields({
@@ -132,19 +307,61 @@ export class HelpCommand extends Command {
       });
     }
 
+    // Context menu commands get their own section
+    if (contextMenuCommands.length > 0) {
+      embed.addFields({
+        name: t('help.contextMenus'),
+        value: contextMenuCommands
+          .map(cmd => `${this.formatName(cmd, t)} - ${cmd.getDescription(locale)}`)
+          .join('\n'),
+        inline: false
+      });
+    }
+
     await interaction.reply({ embeds: [embed] });
   }
 
-  // Autocomplete for command names
-  public async autocomplete(interaction: any): Promise<any[]> {
-    const focusedValue = interaction.options.getFocused();
+  /**
+   * Format a command name the way users find it in Discord
+   */
+  private formatName(command: Command, t: Translator): string {
+    switch (command.getType()) {
+      case ApplicationCommandType.User:
+        return `\`${command.getName()}\` ${t('help.rightClickUser')}`;
+      case ApplicationCommandType.Message:
+        return `\`${command.getName()}\` ${t('help.rightClickMessage')}`;
+      default:
+        return `\`/${command.getName()}\``;
+    }
+  }
+
+  // Autocomplete for command names and subcommand paths
+  public async autocomplete(
+    interaction: AutocompleteInteraction,
+    focused: AutocompleteFocusedOption,
+    context: CommandContext
+  ): Promise<ApplicationCommandOptionChoiceData[]> {
+    const focusedValue = focused.value.toLowerCase();
+    const locale = I18n.getInteractionLocale(interaction);
+
+    const commands = await context.commandManager.getEnabledCommands(interaction.guildId);
+
+    const entries = commands.flatMap(cmd => [
+      { value: cmd.getName(), description: cmd.getDescription(locale) },
+      ...(cmd instanceof ParentCommand
+        ? cmd.getSubcommandEntries().map(entry => ({
+            value: `${cmd.getName()} ${entry.path}`,
+            description: this.describeSubcommand(cmd, entry.path, entry.subcommand, locale)
+          }))
+        : [])
+    ]);
     
-    const choices = ALL_COMMANDS
-      .filter(cmd => cmd.getName().startsWith(focusedValue.toLowerCase()))
+    const choices = entries
+      .filter(entry => entry.value.toLowerCase().startsWith(focusedValue))
       .slice(0, 25) // Discord limit
-      .map(cmd => ({
-        name: `${cmd.getName()} - ${cmd.getDescription()}`,
-        value: cmd.getName()
+      .map(entry => ({
+        name: `${entry.value} - ${entry.description}`,
+        value: entry.value
       }));
 
     return choices;
@@ -5,6 +5,9 @@ import {
   version as djsVersion 
 } from 'discord.js';
 import { Command, CommandHelpInfo } from '../core/Command.js';
+import { CooldownOptions } from '../core/CooldownTracker.js';
+import { ClientStats } from '../services/ClientStats.js';
+import { I18n } from '../services/I18n.js';
 
 /**
  * Info command - demonstrates embed usage and bot information
@@ -22,39 +25,48 @@ export class InfoCommand extends Command {
     category: 'Utility'
   };
 
+  // Command configuration
+  public readonly messageCommand = true;
+  public readonly cooldowns: CooldownOptions[] = [
+    { scope: 'user', duration: 10_000 }
+  ];
+
   public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
     const client = interaction.client;
     const uptime = this.formatUptime(client.uptime || 0);
+    const stats = await ClientStats.collect(client);
     
     const embed = new EmbedBuilder()
-      .setTitle('🤖 Bot Information')
-      .setDescription('A Discord bot built with the modular template system')
+      .setTitle(t('info.title'))
+      .setDescription(t('info.description'))
       .setColor(0x5865F2)
       .addFields(
         {
-          name: '📊 Statistics',
+          name: t('info.statistics'),
           value: [
-            `**Servers:** ${client.guilds.cache.size}`,
-            `**Users:** ${client.users.cache.size}`,
-            `**Channels:** ${client.channels.cache.size}`,
-            `**Uptime:** ${uptime}`
+            t('info.servers', { count: stats.guilds }),
+            t('info.users', { count: stats.users }),
+            t('info.channels', { count: stats.channels }),
+            t('info.uptime', { uptime }),
+            ...(client.shard ? [t('info.shard', { ids: client.shard.ids.join(', '), count: client.shard.count })] : [])
           ].join('\n'),
           inline: true
         },
         {
-          name: '⚙️ Technical',
+          name: t('info.technical'),
           value: [
             `**Discord.js:** v${djsVersion}`,
             `**Node.js:** ${process.version}`,
-            `**Memory:** ${this.formatMemory()}`,
-            `**Ping:** ${client.ws.ping}ms`
+            t('info.memory', { memory: this.formatMemory() }),
+            t('info.ping', { ping: client.ws.ping })
           ].join('\n'),
           inline: true
         }
       )
       .setTimestamp()
       .setFooter({ 
-        text: `Requested by ${interaction.user.tag}`, 
+        text: t('common.requestedBy', { user: interaction.user.tag }), 
         iconURL: interaction.user.displayAvatarURL() 
       });
 
@@ -73,8 +85,8 @@ export class InfoCommand extends Command {
     return `${seconds}s`;
   }
 
-  private formatMemory(): string {
+  private formatMemory(): number {
     const used = process.memoryUsage().heapUsed / 1024 / 1024;
-    return `${Math.round(used * 100) / 100} MB`;
+    return Math.round(used * 100) / 100;
   }
 }
@@ -1,5 +1,6 @@
 import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
 import { Command, CommandHelpInfo } from '../core/Command.js';
+import { I18n } from '../services/I18n.js';
 
 /**
  * Simple ping command - demonstrates basic command structure
@@ -17,19 +18,19 @@ export class PingCommand extends Command {
     category: 'Utility'
   };
 
+  // Command configuration
+  public readonly messageCommand = true;
+
   public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    const t = I18n.forInteraction(interaction);
     const sent = await interaction.reply({ 
-      content: 'Pinging...', 
+      content: t('ping.pinging'), 
       fetchReply: true 
     });
 
     const latency = sent.createdTimestamp - interaction.createdTimestamp;
     const apiLatency = Math.round(interaction.client.ws.ping);
 
-    await interaction.editReply(
-      `🏓 **Pong!**\n` +
-      `📡 **Latency:** ${latency}ms\n` +
-      `💓 **API Latency:** ${apiLatency}ms`
-    );
+    await interaction.editReply(t('ping.pong', { latency, apiLatency }));
   }
 }
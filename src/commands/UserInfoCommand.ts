@@ -0,0 +1,37 @@
+import { 
+  UserContextMenuCommandInteraction, 
+  ContextMenuCommandBuilder 
+} from 'discord.js';
+import { CommandHelpInfo } from '../core/Command.js';
+import { UserContextMenuCommand } from '../core/ContextMenuCommand.js';
+import { I18n } from '../services/I18n.js';
+import { ExampleCommand } from './ExampleCommand.js';
+
+/**
+ * User context menu command - right-click a user, then Apps > User Info
+ * Context menu equivalent of /example user
+ */
+export class UserInfoCommand extends UserContextMenuCommand {
+  public readonly data = new ContextMenuCommandBuilder()
+    .setName('User Info');
+
+  public readonly helpInfo: CommandHelpInfo = {
+    name: 'User Info',
+    description: 'Show information about a user from the right-click menu',
+    usage: 'Right-click a user > Apps > User Info',
+    examples: ['Right-click a member > Apps > User Info'],
+    category: 'Example'
+  };
+
+  // Command configuration
+  public readonly guildOnly = true;
+
+  public async execute(interaction: UserContextMenuCommandInteraction): Promise<void> {
+    const member = interaction.guild?.members.cache.get(interaction.targetUser.id);
+
+    await interaction.reply({ 
+      embeds: [ExampleCommand.createUserEmbed(I18n.forInteraction(interaction), interaction.targetUser, member)],
+      ephemeral: true
+    });
+  }
+}
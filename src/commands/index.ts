@@ -4,6 +4,8 @@ import { InfoCommand } from './InfoCommand.js';
 import { ExampleCommand } from './ExampleCommand.js';
 import { HelpCommand } from './HelpCommand.js';
 import { DevCommand } from './DevCommand.js';
+import { UserInfoCommand } from './UserInfoCommand.js';
+import { ConfigCommand } from './ConfigCommand.js';
 
 /**
  * Central command registry - SINGLE SOURCE OF TRUTH
@@ -15,6 +17,8 @@ export const ALL_COMMANDS: Command[] = [
   new ExampleCommand(),
   new HelpCommand(),
   new DevCommand(),
+  new UserInfoCommand(),
+  new ConfigCommand(),
   // Add new commands here - they'll automatically be registered and available
 ];
 
@@ -26,3 +30,5 @@ export { InfoCommand } from './InfoCommand.js';
 export { ExampleCommand } from './ExampleCommand.js';
 export { HelpCommand } from './HelpCommand.js';
 export { DevCommand } from './DevCommand.js';
+export { UserInfoCommand } from './UserInfoCommand.js';
+export { ConfigCommand } from './ConfigCommand.js';
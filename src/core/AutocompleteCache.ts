@@ -0,0 +1,82 @@
+import { ApplicationCommandOptionChoiceData, AutocompleteInteraction, CommandInteractionOption } from 'discord.js';
+
+interface CacheEntry {
+  choices: ApplicationCommandOptionChoiceData[];
+  expiresAt: number;
+}
+
+/**
+ * Short-lived cache for autocomplete results
+ * Users type quickly, so identical lookups within a few seconds reuse the previous answer
+ */
+export class AutocompleteCache {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private maxEntries: number = 500) {}
+
+  /**
+   * Build a cache key for a lookup
+   * Choices can depend on who is typing, on the options already filled in and on the locale
+   * they are translated to, so all of those are part of the key along with the typed value
+   * @param optionPath Path of the focused option, from Command.getFocusedOptionPath
+   */
+  public static createKey(interaction: AutocompleteInteraction, optionPath: string, locale: string): string {
+    const siblings: [string, CommandInteractionOption['value']][] = [];
+    const collect = (options: readonly CommandInteractionOption[]) => {
+      for (const option of options) {
+        if (option.options) collect(option.options);
+        else if (!option.focused) siblings.push([option.name, option.value]);
+      }
+    };
+    collect(interaction.options.data);
+
+    return JSON.stringify([
+      interaction.commandName,
+      optionPath,
+      interaction.guildId ?? 'dm',
+      interaction.user.id,
+      locale,
+      siblings,
+      interaction.options.getFocused()
+    ]);
+  }
+
+  /**
+   * Get cached choices if present and not expired
+   */
+  public get(key: string): ApplicationCommandOptionChoiceData[] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.choices;
+  }
+
+  /**
+   * Store choices for the given time-to-live in milliseconds
+   */
+  public set(key: string, choices: ApplicationCommandOptionChoiceData[], ttl: number): void {
+    if (ttl <= 0) return;
+
+    // Evict the oldest entry once the cache is full (Map keeps insertion order)
+    if (this.entries.size >= this.maxEntries && !this.entries.has(key)) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+
+    this.entries.set(key, { choices, expiresAt: Date.now() + ttl });
+  }
+
+  /**
+   * Remove all cached entries
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -1,7 +1,40 @@
-import { Client, GatewayIntentBits, Events, Interaction } from 'discord.js';
-import { Command } from './Command.js';
-import { CommandManager } from './CommandManager.js';
+import { 
+  Client, 
+  GatewayIntentBits, 
+  IntentsBitField,
+  Events, 
+  Interaction, 
+  AutocompleteInteraction,
+  ClientEvents,
+  Message,
+  Partials,
+  RepliableInteraction,
+  Status,
+  APIInteraction,
+  InteractionType
+} from 'discord.js';
+import { fileURLToPath } from 'node:url';
+import { Command, CommandInvocation, ComponentInteraction } from './Command.js';
+import { CommandContext } from './CommandContext.js';
+import { Event, EventContext } from './Event.js';
+import { CommandManager, hotReloadConfig } from './CommandManager.js';
+import { CommandRegistrar } from './CommandRegistrar.js';
+import { AutocompleteCache } from './AutocompleteCache.js';
+import { CustomId } from './CustomId.js';
+import { AutoDeferOptions, InteractionServer, InteractionServerOptions } from './InteractionServer.js';
+import { HealthServer, healthConfig } from './HealthServer.js';
+import { MessageCommandHandler, messageCommandsConfig } from './MessageCommandHandler.js';
+import { Middleware, MiddlewareContext, MiddlewarePipeline } from './Middleware.js';
+import { ValidationMiddleware } from '../middleware/ValidationMiddleware.js';
+import { ErrorReplyMiddleware } from '../middleware/ErrorReplyMiddleware.js';
+import { MetricsMiddleware } from '../middleware/MetricsMiddleware.js';
 import { Logger } from '../services/Logger.js';
+import { Environment } from '../services/Environment.js';
+import { I18n } from '../services/I18n.js';
+import { Storage } from '../services/Storage.js';
+import { DiscordApi } from '../services/DiscordApi.js';
+import { MetricsRegistry } from '../services/Metrics.js';
+import { DISCORD_API, LOGGER, METRICS, ServiceContainer, ServiceHooks, ServiceToken } from '../services/ServiceContainer.js';
 
 /**
  * Main Bot class that handles Discord client and command management
@@ -10,18 +43,47 @@ export class Bot {
   private logger = new Logger({ context: 'Bot' });
   private client: Client;
   private commandManager: CommandManager;
+  private autocompleteCache = new AutocompleteCache();
+  private interactionServer?: InteractionServer;
+  private healthServer?: HealthServer;
+  private messageCommands?: MessageCommandHandler;
+  private metrics = new MetricsRegistry();
+  private middleware = new MiddlewarePipeline();
+  private services = new ServiceContainer();
 
+  /**
+   * @param events Gateway event handlers, e.g. ALL_EVENTS
+   * @param intents Extra gateway intents; the client always gets Guilds plus what commands and events declare
+   */
   constructor(
     private token: string,
     commands: Command[] = [],
-    intents: GatewayIntentBits[] = [
-      GatewayIntentBits.Guilds,
-      GatewayIntentBits.GuildMessages,
-      GatewayIntentBits.MessageContent
-    ]
+    private events: Event[] = [],
+    intents: GatewayIntentBits[] = []
   ) {
-    this.client = new Client({ intents });
     this.commandManager = new CommandManager(commands);
+    if (messageCommandsConfig.get().enabled) {
+      this.messageCommands = new MessageCommandHandler(this.commandManager, interaction => this.handleInteraction(interaction));
+    }
+
+    // DM channels are often uncached, so message commands need them as partials
+    this.client = new Client({
+      intents: this.resolveIntents(intents),
+      partials: this.messageCommands ? [Partials.Channel] : []
+    });
+
+    // Built-in services, registered first so they are disposed last
+    this.services
+      .register(LOGGER, new Logger(), { dispose: () => Logger.close() })
+      .register(DISCORD_API, DiscordApi)
+      .register(METRICS, this.metrics);
+
+    // NaN until a heartbeat was acknowledged, and in HTTP mode
+    this.metrics.gauge('discord_bot_gateway_ping_seconds', 'Average gateway heartbeat latency', () => this.client.ws.ping >= 0 ? this.client.ws.ping / 1000 : NaN);
+    this.metrics.gauge('discord_bot_guilds', 'Guilds in the client cache', () => this.client.guilds.cache.size);
+
+    // Built-in middleware: errors are caught outermost, metrics see rejections, validation runs before anything added with use()
+    this.middleware.use(new ErrorReplyMiddleware(), new MetricsMiddleware(this.metrics), new ValidationMiddleware());
     this.setupEventListeners();
   }
 
@@ -33,67 +95,451 @@ export class Bot {
        this.logger.info(`setupEventListeners - Bot logged in as ${this.client.user?.tag}`);
     });
 
-    this.client.on(Events.InteractionCreate, async (interaction: Interaction) => {
-      if (!interaction.isChatInputCommand()) return;
+    this.client.on(Events.InteractionCreate, (interaction: Interaction) => this.handleInteraction(interaction));
+
+    if (this.messageCommands) {
+      this.client.on(Events.MessageCreate, (message: Message) => this.handleMessage(message));
+    }
+
+    this.client.on(Events.Error, (error) => {
+       this.logger.error('setupEventListeners - Discord client error:', error);
+    });
+
+    for (const event of this.events) {
+      const listener = (...args: unknown[]) => this.handleEvent(event, args);
+      if (event.once) {
+        this.client.once(event.name, listener);
+      } else {
+        this.client.on(event.name, listener);
+      }
+    }
+  }
+
+  /**
+   * Combine Guilds, which interactions rely on, with the intents declared by commands and events
+   */
+  private resolveIntents(extra: GatewayIntentBits[]): GatewayIntentBits[] {
+    const intents = new Set([
+      GatewayIntentBits.Guilds,
+      ...extra,
+      ...this.commandManager.getAllCommands().flatMap(command => command.getIntents()),
+      ...this.events.flatMap(event => event.intents),
+      ...this.messageCommands ? MessageCommandHandler.INTENTS : []
+    ]);
+
+    this.logger.debug(`resolveIntents - Using gateway intents: ${new IntentsBitField([...intents]).toArray().join(', ')}`);
+    return [...intents];
+  }
+
+  /**
+   * Run an event handler, logging its errors so they never reach the client or other handlers
+   */
+  private async handleEvent(event: Event, args: unknown[]): Promise<void> {
+    try {
+      await event.execute(this.createEventContext(event), ...args as ClientEvents[keyof ClientEvents]);
+    } catch (error) {
+      this.logger.error(`handleEvent - Error in ${event.constructor.name} (${event.name}):`, error);
+    }
+  }
+
+  /**
+   * Create the context handed to an event handler
+   */
+  private createEventContext(event: Event): EventContext {
+    return {
+      config: Environment.getConfig(),
+      logger: this.services.get(LOGGER).child(event.constructor.name).with({ event: event.name }),
+      bot: this,
+      services: this.services
+    };
+  }
+
+  /**
+   * Route an interaction to its command, autocomplete or component handler
+   * Called for every InteractionCreate event; resolves once the interaction was handled
+   */
+  public async handleInteraction(interaction: Interaction): Promise<void> {
+    if (interaction.isAutocomplete()) {
+      await this.handleAutocomplete(interaction);
+      return;
+    }
+
+    if (interaction.isButton() || interaction.isAnySelectMenu() || interaction.isModalSubmit()) {
+      await this.handleComponent(interaction);
+      return;
+    }
+
+    if (!interaction.isChatInputCommand() && !interaction.isContextMenuCommand()) return;
+
+    const command = this.commandManager.getCommand(interaction.commandName, interaction.commandType);
+    if (!command) {
+      this.logger.warn(`handleInteraction - Unknown command: ${interaction.commandName}`);
+      return;
+    }
+
+    const context = this.createContext(interaction, command);
+    await this.runPipeline(context, async () => {
+      await command.execute(interaction, context.args, context.commandContext);
+      this.logger
+        .with(MiddlewarePipeline.getLogFields(context))
+        .info(`handleInteraction - Executed command: ${interaction.commandName} by ${interaction.user.tag}`);
+    });
+  }
+
+  /**
+   * Run the message command in a message, if message commands are enabled
+   * Called for every MessageCreate event; errors in commands are handled like for slash commands
+   */
+  public async handleMessage(message: Message): Promise<void> {
+    if (!this.messageCommands) return;
+
+    try {
+      await this.messageCommands.handle(message);
+    } catch (error) {
+      this.logger.error(`handleMessage - Error handling message ${message.id}:`, error);
+    }
+  }
 
-      const command = this.commandManager.getCommand(interaction.commandName);
-      if (!command) {
-         this.logger.warn(`setupEventListeners - Unknown command: ${interaction.commandName}`);
+  /**
+   * Route an autocomplete interaction to the owning command and respond with its choices
+   */
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const command = this.commandManager.getCommand(interaction.commandName);
+    if (!command || !command.hasAutocomplete()) {
+      this.logger.warn(`handleAutocomplete - No autocomplete handler for command: ${interaction.commandName}`);
+      await interaction.respond([]).catch(() => undefined);
+      return;
+    }
+
+    const optionPath = Command.getFocusedOptionPath(interaction);
+
+    try {
+      // Don't leak suggestions for commands the user isn't allowed to run
+      const commandContext = this.createCommandContext(interaction, command);
+      const validation = await command.validate(interaction, commandContext);
+      if (!validation.valid) {
+        this.logger.debug(`handleAutocomplete - Validation failed for ${interaction.commandName}: ${validation.reason}`);
+        await interaction.respond([]);
         return;
       }
 
-      try {
-        // Validate command
-        const validation = await command.validate(interaction);
-        if (!validation.valid) {
-          this.logger.warn(`setupEventListeners - Command validation failed for ${interaction.commandName}: ${validation.reason}`);
-          await interaction.reply({
-            content: `❌ ${validation.reason}`,
-            ephemeral: true
-          });
-          return;
-        }
-
-        // Execute command
-        await command.execute(interaction, process.env);
-         this.logger.info(`setupEventListeners - Executed command: ${interaction.commandName} by ${interaction.user.tag}`);
+      const cacheKey = AutocompleteCache.createKey(interaction, optionPath, I18n.getInteractionLocale(interaction));
 
-      } catch (error) {
-         this.logger.error(`setupEventListeners - Error executing command ${interaction.commandName}:`, error);
-        
-        const errorMessage = '❌ An error occurred while executing this command.';
-        
-        if (interaction.replied || interaction.deferred) {
-          await interaction.followUp({ content: errorMessage, ephemeral: true });
-        } else {
-          await interaction.reply({ content: errorMessage, ephemeral: true });
-        }
+      let choices = this.autocompleteCache.get(cacheKey);
+      if (!choices) {
+        choices = (await command.resolveAutocomplete(interaction, commandContext))
+          .slice(0, 25) // Discord limit
+          .map(choice => ({ ...choice, name: choice.name.slice(0, 100) }));
+        this.autocompleteCache.set(cacheKey, choices, command.autocompleteCacheTtl);
+      }
+
+      await interaction.respond(choices);
+      this.logger.debug(`handleAutocomplete - Responded with ${choices.length} choices for ${interaction.commandName} (${optionPath})`);
+
+    } catch (error) {
+      this.logger.error(`handleAutocomplete - Error resolving autocomplete for ${interaction.commandName} (${optionPath}):`, error);
+
+      if (!interaction.responded) {
+        await interaction.respond([]).catch(() => undefined);
       }
+    }
+  }
+
+  /**
+   * Route a button, select menu or modal submission back to the command that created it
+   */
+  private async handleComponent(interaction: ComponentInteraction): Promise<void> {
+    // Leave custom IDs from other schemes to their own collectors
+    if (!CustomId.isRouted(interaction.customId)) return;
+
+    const parsed = CustomId.decode(interaction.customId);
+    const command = parsed ? this.commandManager.getCommand(parsed.commandName, parsed.commandType) : undefined;
+    const handler = parsed ? command?.componentHandlers[parsed.handler] : undefined;
+
+    if (!parsed || !command || !handler) {
+      this.logger.warn(`handleComponent - Unknown component: ${interaction.customId}`);
+      await this.replyEphemeral(interaction, I18n.forInteraction(interaction)('errors.componentUnavailable'));
+      return;
+    }
+
+    if (command.componentTtl > 0 && Date.now() - parsed.createdAt > command.componentTtl) {
+      this.logger.debug(`handleComponent - Expired component: ${interaction.customId}`);
+      await this.replyEphemeral(interaction, I18n.forInteraction(interaction)('errors.interactionExpired'));
+      return;
+    }
+
+    const context = this.createContext(interaction, command, parsed.handler);
+    await this.runPipeline(context, async () => {
+      await handler(interaction, parsed.state, context.commandContext);
+      this.logger
+        .with(MiddlewarePipeline.getLogFields(context))
+        .info(`handleComponent - Handled component: ${parsed.commandName}:${parsed.handler} by ${interaction.user.tag}`);
     });
+  }
 
-    this.client.on(Events.Error, (error) => {
-       this.logger.error('setupEventListeners - Discord client error:', error);
+  /**
+   * Create the middleware context for a command or component invocation
+   */
+  private createContext(
+    interaction: CommandInvocation | ComponentInteraction,
+    command: Command,
+    handler?: string
+  ): MiddlewareContext {
+    return {
+      interaction,
+      command,
+      handler,
+      commandContext: this.createCommandContext(interaction, command, handler),
+      args: {},
+      state: new Map(),
+      startedAt: Date.now(),
+      halted: false,
+      reply: (content) => this.replyEphemeral(interaction, content)
+    };
+  }
+
+  /**
+   * Create the context handed to a command's validate, execute, autocomplete and component handlers
+   */
+  public createCommandContext(interaction: Interaction, command: Command, handler?: string): CommandContext {
+    return {
+      config: Environment.getConfig(),
+      logger: this.services.get(LOGGER).child(command.constructor.name).with({
+        command: command.getName(),
+        handler,
+        interactionId: interaction.id,
+        guildId: interaction.guildId,
+        userId: interaction.user.id
+      }),
+      commandManager: this.commandManager,
+      bot: this,
+      services: this.services
+    };
+  }
+
+  /**
+   * Make a service available to commands as context.services.get(token)
+   * Registering a built-in token (e.g. DISCORD_API) replaces that service
+   * @param hooks Optional init and dispose hooks, run on start and stop
+   */
+  public provide<T>(token: ServiceToken<T>, service: T, hooks?: ServiceHooks<T>): this {
+    this.services.register(token, service, hooks);
+    return this;
+  }
+
+  /**
+   * Run an invocation through the middleware pipeline
+   * Errors are normally handled by ErrorReplyMiddleware, anything left over is only logged
+   */
+  private async runPipeline(context: MiddlewareContext, invoke: () => Promise<void>): Promise<void> {
+    try {
+      await this.middleware.run(context, invoke);
+    } catch (error) {
+      this.logger.error(`runPipeline - Unhandled error for ${context.command.getName()}:`, error);
+    }
+  }
+
+  /**
+   * Add middleware that runs around every command and component handler, after the built-in validation
+   * before() hooks run in the order added, after() and onError() hooks in reverse
+   */
+  public use(...middleware: Middleware[]): this {
+    this.middleware.use(...middleware);
+    return this;
+  }
+
+  /**
+   * Send an ephemeral message, following up if the interaction was already answered
+   */
+  private async replyEphemeral(interaction: RepliableInteraction, content: string): Promise<void> {
+    if (interaction.replied || interaction.deferred) {
+      await interaction.followUp({ content, ephemeral: true });
+    } else {
+      await interaction.reply({ content, ephemeral: true });
+    }
+  }
+
+  /**
+   * Check every command's and event handler's dependencies are registered, then initialize the services
+   * @throws Error listing each missing service and the commands that need it
+   */
+  private async initServices(): Promise<void> {
+    const missing = new Map<ServiceToken<unknown>, string[]>();
+
+    const dependents = [
+      ...this.commandManager.getAllCommands().map(command => ({ name: command.getName(), dependencies: command.getDependencies() })),
+      ...this.events.map(event => ({ name: event.constructor.name, dependencies: event.dependencies }))
+    ];
+
+    for (const { name, dependencies } of dependents) {
+      for (const token of this.services.getMissing(dependencies)) {
+        missing.set(token, [...missing.get(token) ?? [], name]);
+      }
+    }
+
+    if (missing.size > 0) {
+      const details = [...missing].map(([token, names]) => `${token.name} (needed by ${names.join(', ')})`);
+      throw new Error(`Missing services: ${details.join('; ')}`);
+    }
+
+    await this.services.init();
+  }
+
+  /**
+   * Open the configured storage (unless already opened with a custom driver) and apply command migrations
+   */
+  private async openStorage(): Promise<void> {
+    if (!Storage.isOpen()) {
+      await Storage.open();
+    }
+
+    for (const command of this.commandManager.getAllCommands()) {
+      if (command.migrations.length > 0) {
+        await command.getStore().migrate(command.migrations);
+      }
+    }
+  }
+
+  /**
+   * In development, reload changed command modules and re-register changed definitions to DEV_GUILD_IDS
+   */
+  private startHotReload(): void {
+    const config = Environment.getConfig();
+    if (!config.isDevelopment || !hotReloadConfig.get().enabled) return;
+
+    if (config.devGuildIds.length === 0) {
+      this.logger.warn('startHotReload - DEV_GUILD_IDS is not set, changed command definitions will not be re-registered');
+    }
+
+    // Compiled commands live next to this module's directory (dist/core -> dist/commands)
+    const directory = fileURLToPath(new URL('../commands/', import.meta.url));
+
+    this.commandManager.watch(directory, async (reloaded, changed) => {
+      this.autocompleteCache.clear();
+
+      // Intents are fixed when the client connects
+      const intents = new IntentsBitField(this.client.options.intents);
+      const newIntents = reloaded.flatMap(command => command.getIntents()).filter(intent => !intents.has(intent));
+      if (newIntents.length > 0) {
+        this.logger.warn(`startHotReload - Restart to request new gateway intents: ${new IntentsBitField(newIntents).toArray().join(', ')}`);
+      }
+
+      if (changed.length === 0 || config.devGuildIds.length === 0) return;
+
+      try {
+        const registrar = new CommandRegistrar(this.client.rest, config.discordClientId, this.commandManager.getAllCommands());
+        await registrar.register({ guildIds: config.devGuildIds, onlyGuildIds: config.devGuildIds });
+      } catch (error) {
+        this.logger.error('startHotReload - Failed to re-register commands:', error);
+      }
     });
   }
 
+  /**
+   * Serve /healthz, /readyz and /metrics when HEALTH_PORT is set
+   * Shard processes listen on HEALTH_PORT + shard ID so they don't collide
+   */
+  private async startHealthServer(): Promise<void> {
+    const { port, host } = healthConfig.get();
+    if (port === undefined) return;
+
+    const shardPort = port + (this.client.shard?.ids[0] ?? 0);
+    this.healthServer = new HealthServer({ port: shardPort, host, isReady: () => this.isReady(), metrics: this.metrics });
+    await this.healthServer.start();
+  }
+
+  /**
+   * Whether the bot can handle interactions: every gateway shard is connected,
+   * or in HTTP mode, the interaction server is listening
+   */
+  public isReady(): boolean {
+    if (this.interactionServer) {
+      return this.interactionServer.isListening();
+    }
+
+    const shards = [...this.client.ws.shards.values()];
+    return this.client.isReady() && shards.length > 0 && shards.every(shard => shard.status === Status.Ready);
+  }
+
   /**
    * Start the bot
    */
   public async start(): Promise<void> {
     try {
+      await this.initServices();
+      await this.startHealthServer();
+      await this.openStorage();
       await this.client.login(this.token);
+      this.startHotReload();
     } catch (error) {
        this.logger.error('start - Failed to start bot:', error);
       throw error;
     }
   }
 
+  /**
+   * Start the bot as an HTTP interactions endpoint, without a gateway connection
+   * Commands run through the same listeners as in gateway mode
+   */
+  public async startHttp(options: InteractionServerOptions): Promise<void> {
+    try {
+      await this.initServices();
+      await this.startHealthServer();
+      await this.openStorage();
+      if (this.messageCommands) {
+        this.logger.warn('startHttp - MESSAGE_COMMANDS needs a gateway connection and is ignored in HTTP mode');
+      }
+      this.client.rest.setToken(this.token);
+      this.interactionServer = new InteractionServer(this.client, {
+        ...options,
+        getAutoDefer: payload => this.getAutoDefer(payload)
+      });
+      await this.interactionServer.start();
+      this.startHotReload();
+    } catch (error) {
+       this.logger.error('startHttp - Failed to start interaction server:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the autoDefer options of the command an HTTP interaction belongs to
+   */
+  private getAutoDefer(payload: APIInteraction): AutoDeferOptions | undefined {
+    if (payload.type === InteractionType.ApplicationCommand) {
+      return this.commandManager.getCommand(payload.data.name, payload.data.type)?.autoDefer;
+    }
+
+    if (payload.type === InteractionType.MessageComponent || payload.type === InteractionType.ModalSubmit) {
+      const parsed = CustomId.decode(payload.data.custom_id);
+      return parsed ? this.commandManager.getCommand(parsed.commandName, parsed.commandType)?.autoDefer : undefined;
+    }
+
+    return undefined;
+  }
+
   /**
    * Stop the bot
+   * Every step runs even if an earlier one fails, so services (including the logger) are always disposed
    */
   public async stop(): Promise<void> {
      this.logger.info('Bot:stop - Shutting down bot...');
-    await this.client.destroy();
+    const steps: [string, () => unknown][] = [
+      ['stop watching commands', () => this.commandManager.unwatch()],
+      ['stop the interaction server', () => this.interactionServer?.stop()],
+      ['stop the health server', () => this.healthServer?.stop()],
+      ['disconnect from Discord', () => this.client.destroy()],
+      ['close storage', () => Storage.close()],
+      ['dispose services', () => this.services.dispose()]
+    ];
+
+    for (const [step, run] of steps) {
+      try {
+        await run();
+      } catch (error) {
+        this.logger.error(`stop - Failed to ${step}:`, error);
+      }
+    }
   }
 
   /**
@@ -103,6 +549,20 @@ export class Bot {
     return this.commandManager;
   }
 
+  /**
+   * Get the registered event handlers
+   */
+  public getEvents(): readonly Event[] {
+    return this.events;
+  }
+
+  /**
+   * Get the service container
+   */
+  public getServices(): ServiceContainer {
+    return this.services;
+  }
+
   /**
    * Get the Discord client instance
    */
@@ -1,10 +1,42 @@
 import { 
+  ApplicationCommandType,
   ChatInputCommandInteraction, 
+  UserContextMenuCommandInteraction,
+  MessageContextMenuCommandInteraction,
+  ContextMenuCommandBuilder,
+  AutocompleteInteraction,
+  AutocompleteFocusedOption,
+  ButtonInteraction,
+  AnySelectMenuInteraction,
+  ModalSubmitInteraction,
+  Interaction,
+  ApplicationCommandOptionChoiceData,
   SlashCommandBuilder, 
+  SlashCommandOptionsOnlyBuilder,
+  SlashCommandSubcommandsOnlyBuilder,
   PermissionsString,
-  RESTPostAPIChatInputApplicationCommandsJSONBody
+  PermissionsBitField,
+  GatewayIntentBits,
+  RESTPostAPIApplicationCommandsJSONBody
 } from 'discord.js';
-import { Environment } from '../services/Environment.js';
+import { I18n } from '../services/I18n.js';
+import { Migration, Storage, Store } from '../services/Storage.js';
+import { ServiceToken } from '../services/ServiceContainer.js';
+import { CustomId } from './CustomId.js';
+import { CommandContext } from './CommandContext.js';
+import { CooldownOptions, CooldownTracker } from './CooldownTracker.js';
+import { AutoDeferOptions } from './InteractionServer.js';
+import { CommandOptions, InferOptions, OptionSchema } from './CommandOptions.js';
+import { GuildSettings } from './GuildSettings.js';
+
+/**
+ * Builders a command can be defined with, including what SlashCommandBuilder returns after adding options or subcommands
+ */
+export type CommandBuilder =
+  | SlashCommandBuilder
+  | SlashCommandOptionsOnlyBuilder
+  | SlashCommandSubcommandsOnlyBuilder
+  | ContextMenuCommandBuilder;
 
 /**
  * Help information for commands
@@ -17,19 +49,90 @@ export interface CommandHelpInfo {
   category: string;
 }
 
+/**
+ * Handler that provides autocomplete choices for a single option
+ */
+export type AutocompleteHandler = (
+  interaction: AutocompleteInteraction,
+  focused: AutocompleteFocusedOption,
+  context: CommandContext
+) => Promise<ApplicationCommandOptionChoiceData[]>;
+
+/**
+ * Interactions that can be routed back to a command through a custom ID
+ */
+export type ComponentInteraction = ButtonInteraction | AnySelectMenuInteraction | ModalSubmitInteraction;
+
+/**
+ * Handler for buttons, select menus and modals created by a command
+ * @param state Values passed to createCustomId() when the component was built
+ */
+export type ComponentHandler = (interaction: ComponentInteraction, state: string[], context: CommandContext) => Promise<void>;
+
+/**
+ * Result of Command.validate, carrying the parsed options when the command declares a schema
+ */
+export interface ValidationResult<S extends OptionSchema = OptionSchema> {
+  valid: boolean;
+  reason?: string;
+  args?: InferOptions<S>;
+}
+
+/**
+ * Who and where a command or subcommand can be used
+ */
+export interface CommandRestrictions {
+  readonly requiredPermissions: PermissionsString[];
+  readonly memberPermissions: PermissionsString[];
+  readonly allowedRoleIds: string[];
+  readonly allowedUserIds: string[];
+  readonly deniedRoleIds: string[];
+  readonly deniedUserIds: string[];
+  readonly guildOnly: boolean;
+  readonly developerOnly: boolean;
+}
+
+/**
+ * Interactions that invoke a command
+ */
+export type CommandInvocation =
+  | ChatInputCommandInteraction
+  | UserContextMenuCommandInteraction
+  | MessageContextMenuCommandInteraction;
+
 /**
  * Abstract base class for all Discord commands
  * Each command extends this class and implements its own logic
+ * Slash commands extend it directly (or ParentCommand when made of subcommands),
+ * context menu commands extend UserContextMenuCommand or MessageContextMenuCommand
  */
-export abstract class Command {
+export abstract class Command<S extends OptionSchema = OptionSchema> implements CommandRestrictions {
   /** Command metadata for Discord registration */
-  public abstract readonly data: SlashCommandBuilder | any;
+  public abstract readonly data: CommandBuilder;
   
+  /** Optional declarative options; add them to data with CommandOptions.apply() to get typed args in execute */
+  public readonly options?: S;
+
   /** Help information for the help system */
   public abstract readonly helpInfo: CommandHelpInfo;
   
   /** Optional permissions required for the bot to execute this command */
   public readonly requiredPermissions: PermissionsString[] = [];
+
+  /** Optional permissions the invoking member must have (also hides the command in Discord's UI) */
+  public readonly memberPermissions: PermissionsString[] = [];
+
+  /** If set, only members with at least one of these roles (or listed in allowedUserIds) can use this command */
+  public readonly allowedRoleIds: string[] = [];
+
+  /** If set, only these users (or members with an allowed role) can use this command */
+  public readonly allowedUserIds: string[] = [];
+
+  /** Members with any of these roles can't use this command */
+  public readonly deniedRoleIds: string[] = [];
+
+  /** These users can't use this command */
+  public readonly deniedUserIds: string[] = [];
   
   /** Whether this command can only be used in guilds (not DMs) */
   public readonly guildOnly: boolean = false;
@@ -37,18 +140,194 @@ export abstract class Command {
   /** Whether this command can only be used by developers */
   public readonly developerOnly: boolean = false;
 
+  /** Whether server managers can disable or restrict this command with /config */
+  public readonly configurable: boolean = true;
+
+  /** If set, this command is only registered in these guilds instead of globally */
+  public readonly guildIds: string[] = [];
+
+  /**
+   * Whether this command can also be run from messages when MESSAGE_COMMANDS is on
+   * Only memberPermissions is checked there: default_member_permissions set on the builder and
+   * the server's Integrations overrides are enforced by Discord for slash commands alone
+   */
+  public readonly messageCommand: boolean = false;
+
+  /** Optional cooldowns, all of which must allow a use (developers are exempt) */
+  public readonly cooldowns: CooldownOptions[] = [];
+
+  /** Usage tracking for cooldowns, created on first use */
+  private cooldownTracker?: CooldownTracker;
+
+  /**
+   * Optional per-option autocomplete handlers
+   * Keyed by option path: 'option', 'subcommand.option' or 'group.subcommand.option'
+   */
+  public readonly autocompleteHandlers: Record<string, AutocompleteHandler> = {};
+
+  /** How long autocomplete results are cached in milliseconds (0 disables caching) */
+  public readonly autocompleteCacheTtl: number = 5000;
+
+  /** Optional handlers for buttons, select menus and modals, keyed by handler name */
+  public readonly componentHandlers: Record<string, ComponentHandler> = {};
+
+  /** How long components created by this command stay usable in milliseconds (0 never expires) */
+  public readonly componentTtl: number = 15 * 60 * 1000;
+
+  /**
+   * In HTTP interactions mode, defer this command's interactions when a handler takes longer
+   * than ~2.5s, deferring as declared here; unset, handlers must answer or defer in time
+   */
+  public readonly autoDefer?: AutoDeferOptions;
+
+  /** Optional migrations for this command's store, applied when the bot starts */
+  public readonly migrations: Migration[] = [];
+
+  /** Services this command gets from context.services; the bot refuses to start if any is missing */
+  public readonly dependencies: ServiceToken<unknown>[] = [];
+
+  /** Gateway intents beyond Guilds this command relies on, e.g. GuildMembers to read the member cache */
+  public readonly intents: GatewayIntentBits[] = [];
+
+  /** Persistent store namespaced to this command, created on first use */
+  private store?: Store<any>;
+
   /**
    * Execute the command
    * @param interaction The Discord interaction
-   * @param env Environment variables (for Cloudflare Workers compatibility)
+   * @param args Parsed and validated options (empty unless the command declares options)
+   * @param context Config, logger, command manager, bot and services for this invocation
    */
-  public abstract execute(interaction: ChatInputCommandInteraction, env?: any): Promise<void>;
+  public abstract execute(interaction: CommandInvocation, args: InferOptions<S>, context: CommandContext): Promise<void>;
 
   /**
-   * Get the command data for Discord registration
+   * Optional autocomplete hook, used for focused options without a dedicated handler
+   * @param interaction The Discord autocomplete interaction
+   * @param focused The option currently being typed
+   * @param context Config, logger, command manager, bot and services for this invocation
    */
-  public getRegistrationData(): RESTPostAPIChatInputApplicationCommandsJSONBody {
-    return this.data.toJSON();
+  public autocomplete?(
+    interaction: AutocompleteInteraction,
+    focused: AutocompleteFocusedOption,
+    context: CommandContext
+  ): Promise<ApplicationCommandOptionChoiceData[]>;
+
+  /**
+   * Whether this command provides autocomplete choices
+   */
+  public hasAutocomplete(): boolean {
+    return Object.keys(this.autocompleteHandlers).length > 0 || typeof this.autocomplete === 'function';
+  }
+
+  /**
+   * Get the path of the focused option, including subcommand group and subcommand
+   */
+  public static getFocusedOptionPath(interaction: AutocompleteInteraction): string {
+    const group = interaction.options.getSubcommandGroup(false);
+    const subcommand = interaction.options.getSubcommand(false);
+    const focused = interaction.options.getFocused(true);
+    return [group, subcommand, focused.name].filter(Boolean).join('.');
+  }
+
+  /**
+   * Route an autocomplete interaction to the handler for the focused option
+   * Falls back to a handler keyed by the bare option name, then to autocomplete()
+   */
+  public async resolveAutocomplete(interaction: AutocompleteInteraction, context: CommandContext): Promise<ApplicationCommandOptionChoiceData[]> {
+    const focused = interaction.options.getFocused(true);
+    const handler = this.autocompleteHandlers[Command.getFocusedOptionPath(interaction)]
+      ?? this.autocompleteHandlers[focused.name];
+
+    if (handler) {
+      return handler(interaction, focused, context);
+    }
+
+    if (this.autocomplete) {
+      return this.autocomplete(interaction, focused, context);
+    }
+
+    return [];
+  }
+
+  /**
+   * Build a custom ID that routes a component or modal back to one of this command's handlers
+   * @param handler Name of the handler in componentHandlers
+   * @param state Small values to hand back to the handler (the whole ID is limited to 100 characters)
+   */
+  public createCustomId(handler: string, ...state: string[]): string {
+    if (!this.componentHandlers[handler]) {
+      throw new Error(`Command ${this.getName()} has no component handler named "${handler}"`);
+    }
+
+    return CustomId.encode(this.getType(), this.getName(), handler, state);
+  }
+
+  /**
+   * Get the services this command depends on
+   */
+  public getDependencies(): ServiceToken<unknown>[] {
+    return this.dependencies;
+  }
+
+  /**
+   * Get the gateway intents this command needs
+   */
+  public getIntents(): GatewayIntentBits[] {
+    return this.intents;
+  }
+
+  /**
+   * Get this command's persistent store (namespace "command:<name>")
+   * Usable in execute() and handlers once the bot has started and opened Storage
+   */
+  public getStore<T = any>(): Store<T> {
+    this.store ??= Storage.namespace(`command:${this.getName()}`);
+    return this.store;
+  }
+
+  /**
+   * Get the command data for Discord registration, with name and description localizations from the locale catalogs
+   */
+  public getRegistrationData(): RESTPostAPIApplicationCommandsJSONBody {
+    const data: RESTPostAPIApplicationCommandsJSONBody = this.data.toJSON();
+
+    // Let Discord hide the command from members who lack the permissions, unless the builder already set it
+    if (this.memberPermissions.length > 0 && data.default_member_permissions == null) {
+      data.default_member_permissions = PermissionsBitField.resolve(this.memberPermissions).toString();
+    }
+
+    return I18n.localizeCommand(data);
+  }
+
+  /**
+   * Whether this command restricts who can use it by role or user
+   */
+  public hasAccessLists(): boolean {
+    return Command.hasAccessLists(this);
+  }
+
+  /**
+   * Whether a command or subcommand restricts who can use it by role or user
+   */
+  public static hasAccessLists(restrictions: CommandRestrictions): boolean {
+    return [restrictions.allowedRoleIds, restrictions.allowedUserIds, restrictions.deniedRoleIds, restrictions.deniedUserIds]
+      .some(list => list.length > 0);
+  }
+
+  /**
+   * Get the role IDs of the invoking member, whether or not the member is cached
+   */
+  private static getMemberRoleIds(interaction: Interaction): string[] {
+    const member = interaction.member;
+    if (!member) return [];
+    return Array.isArray(member.roles) ? member.roles : [...member.roles.cache.keys()];
+  }
+
+  /**
+   * Get the application command type (slash command unless overridden by a context menu base)
+   */
+  public getType(): ApplicationCommandType {
+    return ApplicationCommandType.ChatInput;
   }
 
   /**
@@ -60,43 +339,176 @@ export abstract class Command {
 
   /**
    * Get the command description
+   * @param locale Translate it using the locale catalogs
    */
-  public getDescription(): string {
-    return this.helpInfo.description;
+  public getDescription(locale?: string): string {
+    return this.getHelpInfo(locale).description;
   }
 
   /**
    * Get the help information
+   * @param locale Translate the description, usage, examples and category using the locale catalogs
    */
-  public getHelpInfo(): CommandHelpInfo {
-    return this.helpInfo;
+  public getHelpInfo(locale?: string): CommandHelpInfo {
+    if (!locale) {
+      return this.helpInfo;
+    }
+
+    return {
+      ...this.helpInfo,
+      ...I18n.getCommandLocalization(locale, [this.getName()])?.help,
+      category: I18n.getCategory(locale, this.helpInfo.category)
+    };
   }
 
   /**
    * Validate if the command can be executed in the current context
    */
-  public async validate(interaction: ChatInputCommandInteraction): Promise<{ valid: boolean; reason?: string }> {
+  public async validate(interaction: Interaction, context: CommandContext): Promise<ValidationResult<S>> {
+    const restrictions = Command.checkRestrictions(interaction, this, context);
+    if (!restrictions.valid) {
+      return restrictions;
+    }
+
+    const guildSettings = await this.checkGuildSettings(interaction);
+    if (!guildSettings.valid) {
+      return guildSettings;
+    }
+
+    // Parse declared options, reporting constraint errors like any other validation failure
+    const options = this.validateOptions(interaction, context);
+    if (!options.valid) {
+      return options;
+    }
+
+    // Check cooldowns last, so only otherwise valid invocations count as a use
+    if (this.cooldowns.length > 0 && interaction.isCommand()) {
+      if (!context.config.developerIds.includes(interaction.user.id)) {
+        this.cooldownTracker ??= new CooldownTracker(this.cooldowns);
+        const retryAfter = this.cooldownTracker.consume({
+          userId: interaction.user.id,
+          guildId: interaction.guildId,
+          channelId: interaction.channelId
+        });
+
+        if (retryAfter > 0) {
+          const t = I18n.forInteraction(interaction);
+          return { valid: false, reason: t('validation.cooldown', { seconds: Math.ceil(retryAfter / 1000) }) };
+        }
+      }
+    }
+
+    return { valid: true, args: options.args };
+  }
+
+  /**
+   * Validate the invoked options, parsing them into args when the command declares a schema
+   */
+  protected validateOptions(interaction: Interaction, context: CommandContext): ValidationResult<S> {
+    if (!this.options || !interaction.isChatInputCommand()) {
+      return { valid: true };
+    }
+
+    const result = CommandOptions.parse(interaction, this.options);
+    return result.valid ? { valid: true, args: result.args } : { valid: false, reason: result.reason };
+  }
+
+  /**
+   * Check the per-guild settings managed with /config: disabled commands and categories, channel and role limits
+   */
+  private async checkGuildSettings(interaction: Interaction): Promise<ValidationResult<never>> {
+    if (!interaction.guildId || !this.configurable) {
+      return { valid: true };
+    }
+
+    const settings = await GuildSettings.get(interaction.guildId);
+    const t = I18n.forInteraction(interaction);
+
+    if (!GuildSettings.isEnabled(settings, this)) {
+      return { valid: false, reason: t('validation.disabledInGuild') };
+    }
+
+    // Threads count as their parent channel
+    const channelIds = settings.channels[this.getName()] ?? [];
+    const parentId = interaction.channel?.isThread() ? interaction.channel.parentId : null;
+    if (channelIds.length > 0 && !channelIds.some(id => id === interaction.channelId || id === parentId)) {
+      return { valid: false, reason: t('validation.wrongChannel', { channels: channelIds.map(id => `<#${id}>`).join(', ') }) };
+    }
+
+    const roleIds = settings.roles[this.getName()] ?? [];
+    if (roleIds.length > 0 && !Command.getMemberRoleIds(interaction).some(id => roleIds.includes(id))) {
+      return { valid: false, reason: t('validation.roleRequired') };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check guild, permission, access list and developer restrictions
+   * Shared by commands and subcommands
+   */
+  public static checkRestrictions(
+    interaction: Interaction,
+    restrictions: CommandRestrictions,
+    context: CommandContext
+  ): ValidationResult<never> {
+    const t = I18n.forInteraction(interaction);
+
     // Check if command is guild-only but used in DM
-    if (this.guildOnly && !interaction.guild) {
-      return { valid: false, reason: 'This command can only be used in servers.' };
+    if (restrictions.guildOnly && !interaction.guildId) {
+      return { valid: false, reason: t('validation.guildOnly') };
     }
 
-    // Check bot permissions
-    if (this.requiredPermissions.length > 0 && interaction.guild) {
-      const botMember = interaction.guild.members.cache.get(interaction.client.user.id);
-      if (!botMember?.permissions.has(this.requiredPermissions)) {
+    // Check bot permissions (sent with the interaction, so this also works without a gateway cache)
+    if (restrictions.requiredPermissions.length > 0 && interaction.guildId) {
+      const botPermissions = interaction.appPermissions ?? interaction.guild?.members.me?.permissions;
+      if (!botPermissions?.has(restrictions.requiredPermissions)) {
         return { 
           valid: false, 
-          reason: `Bot missing required permissions: ${this.requiredPermissions.join(', ')}` 
+          reason: t('validation.botMissingPermissions', { permissions: restrictions.requiredPermissions.join(', ') })
         };
       }
     }
 
+    // Check invoking member permissions
+    if (restrictions.memberPermissions.length > 0) {
+      if (!interaction.guildId) {
+        return { valid: false, reason: t('validation.guildOnly') };
+      }
+
+      if (!interaction.memberPermissions?.has(restrictions.memberPermissions)) {
+        return {
+          valid: false,
+          reason: t('validation.memberMissingPermissions', { permissions: restrictions.memberPermissions.join(', ') })
+        };
+      }
+    }
+
+    // Check role and user access lists (deny lists take precedence)
+    if (Command.hasAccessLists(restrictions)) {
+      const roleIds = Command.getMemberRoleIds(interaction);
+
+      if (
+        restrictions.deniedUserIds.includes(interaction.user.id) ||
+        roleIds.some(roleId => restrictions.deniedRoleIds.includes(roleId))
+      ) {
+        return { valid: false, reason: t('validation.denied') };
+      }
+
+      const hasAllowList = restrictions.allowedRoleIds.length > 0 || restrictions.allowedUserIds.length > 0;
+      if (
+        hasAllowList &&
+        !restrictions.allowedUserIds.includes(interaction.user.id) &&
+        !roleIds.some(roleId => restrictions.allowedRoleIds.includes(roleId))
+      ) {
+        return { valid: false, reason: t('validation.roleRequired') };
+      }
+    }
+
     // Add developer-only check if needed
-    if (this.developerOnly) {
-      const config = Environment.getConfig();
-      if (!config.developerIds.includes(interaction.user.id)) {
-        return { valid: false, reason: 'This command is for developers only.' };
+    if (restrictions.developerOnly) {
+      if (!context.config.developerIds.includes(interaction.user.id)) {
+        return { valid: false, reason: t('validation.developerOnly') };
       }
     }
 
@@ -0,0 +1,26 @@
+import type { Bot } from './Bot.js';
+import type { CommandManager } from './CommandManager.js';
+import type { EnvironmentConfig } from '../services/Environment.js';
+import type { Logger } from '../services/Logger.js';
+import type { ServiceContainer } from '../services/ServiceContainer.js';
+
+/**
+ * Everything a command needs for one invocation
+ * Passed to execute, validate, autocomplete and component handlers instead of reaching for globals
+ */
+export interface CommandContext {
+  /** Validated configuration */
+  readonly config: EnvironmentConfig;
+
+  /** Logger scoped to the command, with the invocation's IDs as fields */
+  readonly logger: Logger;
+
+  /** All loaded commands */
+  readonly commandManager: CommandManager;
+
+  /** The running bot */
+  readonly bot: Bot;
+
+  /** Services registered with bot.provide(), looked up by token */
+  readonly services: ServiceContainer;
+}
@@ -1,6 +1,27 @@
+import { FSWatcher, readdirSync, readFileSync, watch } from 'node:fs';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ApplicationCommandType } from 'discord.js';
 import { Command } from './Command.js';
+import { GuildSettings } from './GuildSettings.js';
+import { Config } from '../services/Config.js';
+import { Environment } from '../services/Environment.js';
 import { Logger } from '../services/Logger.js';
 
+export const hotReloadConfig = Environment.defineSection('hotReload', {
+  enabled: Config.bool({
+    env: 'HOT_RELOAD',
+    description: 'Reload changed command modules without restarting (development only)',
+    default: 'true'
+  })
+});
+
+/**
+ * Called after commands were reloaded from a changed module
+ * @param changed Reloaded commands whose registration data differs from the previous version
+ */
+export type CommandReloadHandler = (reloaded: Command[], changed: Command[]) => Promise<void>;
+
 /**
  * CommandManager handles all command operations from a single source of truth
  */
@@ -8,6 +29,9 @@ export class CommandManager {
   private logger = new Logger({ context: 'CommandManager' });
   private commands: Command[] = [];
   private commandMap: Map<string, Command> = new Map();
+  private watcher?: FSWatcher;
+  private reloadTimers = new Map<string, NodeJS.Timeout>();
+  private moduleSources = new Map<string, string>();
 
   constructor(commands: Command[]) {
     this.commands = commands;
@@ -21,8 +45,8 @@ export class CommandManager {
     this.logger.info('loadCommands - Loading commands...');
     
     for (const command of this.commands) {
-      this.commandMap.set(command.getName(), command);
-      this.logger.info(`loadCommands - Loaded: ${command.getName()}`);
+      this.commandMap.set(CommandManager.createKey(command.getName(), command.getType()), command);
+      this.logger.info(`loadCommands - Loaded: ${command.getName()}${command.getType() !== ApplicationCommandType.ChatInput ? ' (context menu)' : ''}`);
     }
     
     this.logger.info(`loadCommands - Loaded ${this.commands.length} commands total`);
@@ -35,11 +59,45 @@ export class CommandManager {
     return this.commands;
   }
 
+  /**
+   * Get the commands enabled in a guild with /config (all commands outside guilds)
+   */
+  public async getEnabledCommands(guildId: string | null): Promise<Command[]> {
+    if (!guildId) {
+      return this.commands;
+    }
+
+    const settings = await GuildSettings.get(guildId);
+    return this.commands.filter(command => GuildSettings.isEnabled(settings, command));
+  }
+
+  /**
+   * Slash and context menu commands can share a name, so commands are keyed by type too
+   */
+  private static createKey(name: string, type: ApplicationCommandType): string {
+    return `${type}:${name}`;
+  }
+
   /**
    * Get command by name
+   * @param type Application command type (defaults to slash commands)
+   */
+  public getCommand(name: string, type: ApplicationCommandType = ApplicationCommandType.ChatInput): Command | undefined {
+    return this.commandMap.get(CommandManager.createKey(name, type));
+  }
+
+  /**
+   * Get all slash commands
+   */
+  public getSlashCommands(): Command[] {
+    return this.commands.filter(command => command.getType() === ApplicationCommandType.ChatInput);
+  }
+
+  /**
+   * Get all user and message context menu commands
    */
-  public getCommand(name: string): Command | undefined {
-    return this.commandMap.get(name);
+  public getContextMenuCommands(): Command[] {
+    return this.commands.filter(command => command.getType() !== ApplicationCommandType.ChatInput);
   }
 
   /**
@@ -55,12 +113,13 @@ export class CommandManager {
 
   /**
    * Get commands grouped by category for help system
+   * @param locale Group by the category names translated to this locale
    */
-  public getCommandsByCategory(): Map<string, Command[]> {
+  public getCommandsByCategory(locale?: string): Map<string, Command[]> {
     const categories = new Map<string, Command[]>();
     
     for (const command of this.commands) {
-      const category = command.getHelpInfo().category;
+      const category = command.getHelpInfo(locale).category;
       if (!categories.has(category)) {
         categories.set(category, []);
       }
@@ -94,6 +153,106 @@ export class CommandManager {
     return helpData;
   }
 
+  /**
+   * Add a command, or replace the loaded command with the same name and type
+   */
+  public setCommand(command: Command): void {
+    const key = CommandManager.createKey(command.getName(), command.getType());
+    const existing = this.commandMap.get(key);
+
+    if (existing) {
+      this.commands[this.commands.indexOf(existing)] = command;
+    } else {
+      this.commands.push(command);
+    }
+    this.commandMap.set(key, command);
+  }
+
+  /**
+   * Watch a directory of compiled command modules and swap in commands from modules that change
+   * Only call this in development: every reload imports a new copy of the module
+   * @param directory Directory containing the compiled command modules, e.g. dist/commands
+   * @param onReload Called after each reload, e.g. to re-register changed definitions
+   */
+  public watch(directory: string, onReload?: CommandReloadHandler): void {
+    if (this.watcher) {
+      throw new Error('CommandManager is already watching for changes');
+    }
+
+    // Remember the loaded sources, so rewrites with the same output (e.g. tsc --watch starting up) are ignored
+    for (const filename of readdirSync(directory).filter(name => name.endsWith('.js'))) {
+      this.moduleSources.set(filename, readFileSync(join(directory, filename), 'utf8'));
+    }
+
+    this.watcher = watch(directory, (_event, filename) => {
+      // The registry itself is only read at startup, and index.js re-exports every module
+      if (!filename?.endsWith('.js') || filename === 'index.js') return;
+
+      // Compilers emit several events per write, so wait for the file to settle
+      clearTimeout(this.reloadTimers.get(filename));
+      this.reloadTimers.set(filename, setTimeout(() => {
+        this.reloadTimers.delete(filename);
+        this.reloadModule(directory, filename, onReload)
+          .catch(error => this.logger.error(`watch - Failed to reload ${filename}:`, error));
+      }, 200));
+    });
+
+    this.logger.info(`watch - Watching ${directory} for command changes`);
+  }
+
+  /**
+   * Stop watching for command changes
+   */
+  public unwatch(): void {
+    this.reloadTimers.forEach(timer => clearTimeout(timer));
+    this.reloadTimers.clear();
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.moduleSources.clear();
+  }
+
+  /**
+   * Import a fresh copy of a module and swap in every command class it exports
+   * Shared modules like core/ are not re-imported, so instanceof checks keep working
+   */
+  private async reloadModule(directory: string, filename: string, onReload?: CommandReloadHandler): Promise<void> {
+    const file = join(directory, filename);
+    let source: string;
+    try {
+      source = readFileSync(file, 'utf8');
+    } catch {
+      return; // Deleted or renamed; removing commands needs a restart
+    }
+
+    if (source === this.moduleSources.get(filename)) return;
+    this.moduleSources.set(filename, source);
+
+    const module: Record<string, unknown> = await import(`${pathToFileURL(file).href}?reload=${Date.now()}`);
+
+    const reloaded: Command[] = [];
+    const changed: Command[] = [];
+
+    for (const exported of Object.values(module)) {
+      if (typeof exported !== 'function' || !(exported.prototype instanceof Command)) continue;
+
+      const CommandClass = exported as new () => Command;
+      const command = new CommandClass();
+      const previous = this.getCommand(command.getName(), command.getType());
+
+      this.setCommand(command);
+      reloaded.push(command);
+
+      if (!previous || JSON.stringify(previous.getRegistrationData()) !== JSON.stringify(command.getRegistrationData())) {
+        changed.push(command);
+      }
+      this.logger.info(`reloadModule - ${previous ? 'Reloaded' : 'Added'}: ${command.getName()}${changed.includes(command) ? ' (definition changed)' : ''}`);
+    }
+
+    if (reloaded.length > 0) {
+      await onReload?.(reloaded, changed);
+    }
+  }
+
   /**
    * Get total command count
    */
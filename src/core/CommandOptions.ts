@@ -0,0 +1,305 @@
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandOptionAllowedChannelTypes,
+  Attachment,
+  ChannelType,
+  ChatInputCommandInteraction,
+  CommandInteractionOption,
+  SharedSlashCommandOptions,
+  SlashCommandIntegerOption,
+  SlashCommandNumberOption,
+  User
+} from 'discord.js';
+import { I18n, Translator } from '../services/I18n.js';
+
+/**
+ * Fields shared by every option definition
+ */
+interface BaseOptionDefinition {
+  description: string;
+  required?: boolean;
+}
+
+export interface StringOptionDefinition extends BaseOptionDefinition {
+  type: 'string';
+  choices?: readonly { name: string; value: string }[];
+  minLength?: number;
+  maxLength?: number;
+  autocomplete?: boolean;
+  /** Extra check, returning an error message if the value is invalid */
+  validate?: (value: string) => string | undefined;
+}
+
+export interface NumericOptionDefinition extends BaseOptionDefinition {
+  type: 'integer' | 'number';
+  choices?: readonly { name: string; value: number }[];
+  min?: number;
+  max?: number;
+  autocomplete?: boolean;
+  /** Extra check, returning an error message if the value is invalid */
+  validate?: (value: number) => string | undefined;
+}
+
+export interface ChannelOptionDefinition extends BaseOptionDefinition {
+  type: 'channel';
+  channelTypes?: readonly ApplicationCommandOptionAllowedChannelTypes[];
+}
+
+export interface SimpleOptionDefinition extends BaseOptionDefinition {
+  type: 'boolean' | 'user' | 'role' | 'mentionable' | 'attachment';
+}
+
+/**
+ * Declarative definition of a single slash command option
+ */
+export type OptionDefinition =
+  | StringOptionDefinition
+  | NumericOptionDefinition
+  | ChannelOptionDefinition
+  | SimpleOptionDefinition;
+
+/**
+ * Option definitions keyed by option name
+ */
+export type OptionSchema = Record<string, OptionDefinition>;
+
+/**
+ * Parsed value types for each option type
+ */
+interface OptionValueTypes {
+  string: string;
+  integer: number;
+  number: number;
+  boolean: boolean;
+  user: User;
+  channel: NonNullable<CommandInteractionOption['channel']>;
+  role: NonNullable<CommandInteractionOption['role']>;
+  mentionable: NonNullable<CommandInteractionOption['user'] | CommandInteractionOption['member'] | CommandInteractionOption['role']>;
+  attachment: Attachment;
+}
+
+/**
+ * Value type of one option, narrowed to its choices when they are declared
+ */
+type OptionValue<D extends OptionDefinition> = D extends { choices: readonly { value: infer V }[] }
+  ? V
+  : OptionValueTypes[D['type']];
+
+/**
+ * Typed args object for a schema: required options are always present, others may be undefined
+ */
+export type InferOptions<S extends OptionSchema> = {
+  [K in keyof S]: S[K] extends { required: true } ? OptionValue<S[K]> : OptionValue<S[K]> | undefined;
+};
+
+/**
+ * Result of parsing an interaction against a schema
+ */
+export type ParseResult<S extends OptionSchema> =
+  | { valid: true; args: InferOptions<S> }
+  | { valid: false; reason: string };
+
+const OPTION_TYPES: Record<OptionDefinition['type'], ApplicationCommandOptionType> = {
+  string: ApplicationCommandOptionType.String,
+  integer: ApplicationCommandOptionType.Integer,
+  number: ApplicationCommandOptionType.Number,
+  boolean: ApplicationCommandOptionType.Boolean,
+  user: ApplicationCommandOptionType.User,
+  channel: ApplicationCommandOptionType.Channel,
+  role: ApplicationCommandOptionType.Role,
+  mentionable: ApplicationCommandOptionType.Mentionable,
+  attachment: ApplicationCommandOptionType.Attachment
+};
+
+/**
+ * Declarative option schemas: one definition produces the builder options and a typed, validated args object
+ */
+export class CommandOptions {
+  /**
+   * Define a schema, keeping literal types so choices narrow the parsed values
+   */
+  public static define<const S extends OptionSchema>(schema: S): S {
+    return schema;
+  }
+
+  /**
+   * Add a schema's options to a command or subcommand builder
+   * Required options are added first, as Discord requires
+   */
+  public static apply<B extends SharedSlashCommandOptions<any>>(builder: B, schema: OptionSchema): B {
+    const entries = Object.entries(schema).sort(([, a], [, b]) => Number(b.required ?? false) - Number(a.required ?? false));
+
+    for (const [name, definition] of entries) {
+      const required = definition.required ?? false;
+
+      switch (definition.type) {
+        case 'string':
+          builder.addStringOption(option => {
+            option.setName(name).setDescription(definition.description).setRequired(required);
+            if (definition.choices) option.addChoices(...definition.choices);
+            if (definition.minLength !== undefined) option.setMinLength(definition.minLength);
+            if (definition.maxLength !== undefined) option.setMaxLength(definition.maxLength);
+            if (definition.autocomplete) option.setAutocomplete(true);
+            return option;
+          });
+          break;
+
+        case 'integer':
+          builder.addIntegerOption(option => this.configureNumeric(option, name, definition));
+          break;
+
+        case 'number':
+          builder.addNumberOption(option => this.configureNumeric(option, name, definition));
+          break;
+
+        case 'channel':
+          builder.addChannelOption(option => {
+            option.setName(name).setDescription(definition.description).setRequired(required);
+            if (definition.channelTypes) option.addChannelTypes(...definition.channelTypes);
+            return option;
+          });
+          break;
+
+        case 'boolean':
+          builder.addBooleanOption(option => option.setName(name).setDescription(definition.description).setRequired(required));
+          break;
+
+        case 'user':
+          builder.addUserOption(option => option.setName(name).setDescription(definition.description).setRequired(required));
+          break;
+
+        case 'role':
+          builder.addRoleOption(option => option.setName(name).setDescription(definition.description).setRequired(required));
+          break;
+
+        case 'mentionable':
+          builder.addMentionableOption(option => option.setName(name).setDescription(definition.description).setRequired(required));
+          break;
+
+        case 'attachment':
+          builder.addAttachmentOption(option => option.setName(name).setDescription(definition.description).setRequired(required));
+          break;
+      }
+    }
+
+    return builder;
+  }
+
+  private static configureNumeric<O extends SlashCommandIntegerOption | SlashCommandNumberOption>(
+    option: O,
+    name: string,
+    definition: NumericOptionDefinition
+  ): O {
+    option.setName(name).setDescription(definition.description).setRequired(definition.required ?? false);
+    if (definition.choices) option.addChoices(...definition.choices);
+    if (definition.min !== undefined) option.setMinValue(definition.min);
+    if (definition.max !== undefined) option.setMaxValue(definition.max);
+    if (definition.autocomplete) option.setAutocomplete(true);
+    return option;
+  }
+
+  /**
+   * Read and validate an interaction's options against a schema
+   */
+  public static parse<S extends OptionSchema>(interaction: ChatInputCommandInteraction, schema: S): ParseResult<S> {
+    const args: Record<string, unknown> = {};
+    const t = I18n.forInteraction(interaction);
+
+    for (const [name, definition] of Object.entries(schema)) {
+      const option = interaction.options.get(name);
+
+      if (!option) {
+        if (definition.required) {
+          return { valid: false, reason: t('options.missing', { name }) };
+        }
+        args[name] = undefined;
+        continue;
+      }
+
+      if (option.type !== OPTION_TYPES[definition.type]) {
+        return { valid: false, reason: t('options.wrongType', { name }) };
+      }
+
+      const value = this.getValue(option, definition);
+      const error = value === undefined
+        ? t('options.unresolved', { name })
+        : this.checkConstraints(name, value, definition, t);
+
+      if (error) {
+        return { valid: false, reason: error };
+      }
+
+      args[name] = value;
+    }
+
+    return { valid: true, args: args as InferOptions<S> };
+  }
+
+  private static getValue(option: CommandInteractionOption, definition: OptionDefinition): unknown {
+    switch (definition.type) {
+      case 'user':
+        return option.user;
+      case 'channel':
+        return option.channel;
+      case 'role':
+        return option.role;
+      case 'mentionable':
+        return option.member ?? option.user ?? option.role;
+      case 'attachment':
+        return option.attachment;
+      default:
+        return option.value;
+    }
+  }
+
+  /**
+   * Check choices, ranges, lengths and channel types
+   * Discord enforces most of these in its UI, but payloads from other transports are not guaranteed to
+   */
+  private static checkConstraints(name: string, value: unknown, definition: OptionDefinition, t: Translator): string | undefined {
+    switch (definition.type) {
+      case 'string': {
+        const text = value as string;
+        if (definition.choices && !definition.choices.some(choice => choice.value === text)) {
+          return t('options.notAChoice', { name, choices: definition.choices.map(choice => choice.name).join(', ') });
+        }
+        if (definition.minLength !== undefined && text.length < definition.minLength) {
+          return t('options.tooShort', { name, min: definition.minLength });
+        }
+        if (definition.maxLength !== undefined && text.length > definition.maxLength) {
+          return t('options.tooLong', { name, max: definition.maxLength });
+        }
+        return definition.validate?.(text);
+      }
+
+      case 'integer':
+      case 'number': {
+        const number = value as number;
+        if (definition.type === 'integer' && !Number.isInteger(number)) {
+          return t('options.notInteger', { name });
+        }
+        if (definition.choices && !definition.choices.some(choice => choice.value === number)) {
+          return t('options.notAChoice', { name, choices: definition.choices.map(choice => choice.name).join(', ') });
+        }
+        if (
+          (definition.min !== undefined && number < definition.min) ||
+          (definition.max !== undefined && number > definition.max)
+        ) {
+          return t('options.outOfRange', { name, min: definition.min ?? '-∞', max: definition.max ?? '∞' });
+        }
+        return definition.validate?.(number);
+      }
+
+      case 'channel': {
+        const channel = value as { type: ChannelType };
+        if (definition.channelTypes && !(definition.channelTypes as readonly ChannelType[]).includes(channel.type)) {
+          return t('options.wrongChannelType', { name });
+        }
+        return undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  REST,
+  Routes,
+  ApplicationCommandType,
+  ApplicationIntegrationType,
+  APIApplicationCommand,
+  InteractionContextType,
+  RESTPostAPIApplicationCommandsJSONBody
+} from 'discord.js';
+import { Command } from './Command.js';
+import { Logger } from '../services/Logger.js';
+
+/**
+ * Options for a registration run
+ */
+export interface RegistrationOptions {
+  /** Compute and log the diff without writing anything */
+  dryRun?: boolean;
+  /** Register unscoped commands to these guilds instead of globally (changes show up instantly) */
+  guildIds?: string[];
+  /** Extra guilds to sync even if no command targets them, removing stale commands */
+  pruneGuildIds?: string[];
+  /** Only sync these guilds, leaving global commands and every other guild untouched */
+  onlyGuildIds?: string[];
+}
+
+/**
+ * A single command-level difference between Discord and the local definitions
+ */
+export interface CommandChange {
+  type: 'added' | 'removed' | 'changed';
+  name: string;
+  details: string[];
+}
+
+type CommandData = RESTPostAPIApplicationCommandsJSONBody | APIApplicationCommand;
+type Normalized = Record<string, unknown>;
+
+/**
+ * Syncs command definitions with Discord, only writing targets that actually changed
+ */
+export class CommandRegistrar {
+  private logger = new Logger({ context: 'CommandRegistrar' });
+
+  constructor(
+    private rest: REST,
+    private clientId: string,
+    private commands: Command[]
+  ) {}
+
+  /**
+   * Sync every registration target (global and/or guilds)
+   * @returns Changes per target, keyed by guild ID or 'global'
+   */
+  public async register(options: RegistrationOptions = {}): Promise<Map<string, CommandChange[]>> {
+    const results = new Map<string, CommandChange[]>();
+
+    for (const [target, commands] of this.getTargets(options)) {
+      results.set(target ?? 'global', await this.syncTarget(target, commands, options.dryRun ?? false));
+    }
+
+    return results;
+  }
+
+  /**
+   * Group commands by where they should be registered (null is global)
+   */
+  private getTargets(options: RegistrationOptions): Map<string | null, Command[]> {
+    const targets = new Map<string | null, Command[]>();
+    const addTo = (target: string | null, command?: Command) => {
+      if (!targets.has(target)) targets.set(target, []);
+      if (command) targets.get(target)!.push(command);
+    };
+
+    // Global is synced even without unscoped commands, so stale global commands are removed
+    if (!options.guildIds?.length) {
+      addTo(null);
+    }
+
+    for (const command of this.commands) {
+      if (command.guildIds.length > 0) {
+        command.guildIds.forEach(guildId => addTo(guildId, command));
+      } else if (options.guildIds?.length) {
+        options.guildIds.forEach(guildId => addTo(guildId, command));
+      } else {
+        addTo(null, command);
+      }
+    }
+
+    options.pruneGuildIds?.forEach(guildId => addTo(guildId));
+
+    if (options.onlyGuildIds) {
+      for (const target of targets.keys()) {
+        if (!target || !options.onlyGuildIds.includes(target)) targets.delete(target);
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Compare one target with Discord and overwrite it if anything changed
+   */
+  private async syncTarget(guildId: string | null, commands: Command[], dryRun: boolean): Promise<CommandChange[]> {
+    const label = guildId ? `Guild ${guildId}` : 'Global';
+    const route = guildId
+      ? Routes.applicationGuildCommands(this.clientId, guildId)
+      : Routes.applicationCommands(this.clientId);
+
+    const desired = commands.map(command => command.getRegistrationData());
+    const existing = await this.rest.get(route) as APIApplicationCommand[];
+    const changes = CommandRegistrar.diff(existing, desired);
+
+    this.logChanges(label, changes, desired.length);
+
+    if (changes.length === 0) {
+      this.logger.info(`syncTarget - ${label}: Up to date, skipping write`);
+      return changes;
+    }
+
+    if (dryRun) {
+      this.logger.info(`syncTarget - ${label}: Dry run, not writing ${changes.length} change(s)`);
+      return changes;
+    }
+
+    // Bulk overwrite also deletes stale commands that are no longer defined
+    const data = await this.rest.put(route, { body: desired }) as APIApplicationCommand[];
+    this.logger.info(`syncTarget - ${label}: Registered ${data.length} commands`);
+
+    return changes;
+  }
+
+  private logChanges(label: string, changes: CommandChange[], total: number): void {
+    const count = (type: CommandChange['type']) => changes.filter(change => change.type === type).length;
+    const unchanged = total - count('added') - count('changed');
+
+    this.logger.info(
+      `logChanges - ${label}: ${count('added')} added, ${count('changed')} changed, ` +
+      `${count('removed')} removed, ${unchanged} unchanged`
+    );
+
+    const symbols = { added: '+', removed: '-', changed: '~' };
+    for (const change of changes) {
+      const details = change.details.length > 0 ? `: ${change.details.join('; ')}` : '';
+      this.logger.info(`logChanges -   ${symbols[change.type]} ${change.name}${details}`);
+    }
+  }
+
+  /**
+   * Compute the differences between registered commands and local definitions
+   */
+  public static diff(existing: CommandData[], desired: CommandData[]): CommandChange[] {
+    const changes: CommandChange[] = [];
+    const key = (command: CommandData) => `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+    const existingByKey = new Map(existing.map(command => [key(command), command]));
+    const desiredKeys = new Set(desired.map(key));
+
+    for (const command of desired) {
+      const current = existingByKey.get(key(command));
+      const name = this.displayName(command);
+
+      if (!current) {
+        changes.push({ type: 'added', name, details: [] });
+        continue;
+      }
+
+      const details = this.diffObjects(this.normalize(current), this.normalize(command), '');
+      if (details.length > 0) {
+        changes.push({ type: 'changed', name, details });
+      }
+    }
+
+    for (const command of existing) {
+      if (!desiredKeys.has(key(command))) {
+        changes.push({ type: 'removed', name: this.displayName(command), details: [] });
+      }
+    }
+
+    return changes;
+  }
+
+  private static displayName(command: CommandData): string {
+    const type = command.type ?? ApplicationCommandType.ChatInput;
+    return type === ApplicationCommandType.ChatInput ? `/${command.name}` : `${command.name} (context menu)`;
+  }
+
+  /**
+   * Describe field and option differences between two normalized commands or options
+   */
+  private static diffObjects(current: Normalized, desired: Normalized, path: string): string[] {
+    const details: string[] = [];
+
+    for (const field of Object.keys(desired)) {
+      if (field === 'options') continue;
+      if (JSON.stringify(current[field]) !== JSON.stringify(desired[field])) {
+        details.push(path ? `option "${path}" ${field} changed` : `${field} changed`);
+      }
+    }
+
+    const currentOptions = new Map((current.options as Normalized[]).map(option => [option.name as string, option]));
+    const desiredOptions = desired.options as Normalized[];
+
+    for (const option of desiredOptions) {
+      const optionPath = path ? `${path}.${option.name}` : option.name as string;
+      const existing = currentOptions.get(option.name as string);
+
+      if (!existing) {
+        details.push(`option "${optionPath}" added`);
+      } else {
+        details.push(...this.diffObjects(existing, option, optionPath));
+      }
+    }
+
+    for (const name of currentOptions.keys()) {
+      if (!desiredOptions.some(option => option.name === name)) {
+        details.push(`option "${path ? `${path}.${name}` : name}" removed`);
+      }
+    }
+
+    // Discord shows options in the order they are defined
+    const order = (options: Normalized[]) => options.map(option => option.name).join(',');
+    if (details.length === 0 && order(current.options as Normalized[]) !== order(desiredOptions)) {
+      details.push(path ? `option "${path}" order changed` : 'option order changed');
+    }
+
+    return details;
+  }
+
+  /**
+   * Fill in the defaults Discord applies, so definitions compare equal to what the API returns
+   */
+  private static normalize(command: CommandData): Normalized {
+    const data = command as Record<string, any>;
+
+    return {
+      type: data.type ?? ApplicationCommandType.ChatInput,
+      name: data.name,
+      description: data.description ?? '',
+      name_localizations: this.normalizeLocalizations(data.name_localizations),
+      description_localizations: this.normalizeLocalizations(data.description_localizations),
+      default_member_permissions: data.default_member_permissions ?? null,
+      dm_permission: data.dm_permission ?? true,
+      nsfw: data.nsfw ?? false,
+      // New commands can be used everywhere and are installed to guilds unless they say otherwise
+      contexts: [...(data.contexts ?? [InteractionContextType.Guild, InteractionContextType.BotDM, InteractionContextType.PrivateChannel])].sort(),
+      integration_types: [...(data.integration_types ?? [ApplicationIntegrationType.GuildInstall])].sort(),
+      options: (data.options ?? []).map((option: Record<string, any>) => this.normalizeOption(option))
+    };
+  }
+
+  private static normalizeOption(option: Record<string, any>): Normalized {
+    return {
+      type: option.type,
+      name: option.name,
+      description: option.description,
+      name_localizations: this.normalizeLocalizations(option.name_localizations),
+      description_localizations: this.normalizeLocalizations(option.description_localizations),
+      required: option.required ?? false,
+      autocomplete: option.autocomplete ?? false,
+      choices: (option.choices ?? []).map((choice: Record<string, any>) => ({
+        name: choice.name,
+        value: choice.value,
+        name_localizations: this.normalizeLocalizations(choice.name_localizations)
+      })),
+      channel_types: [...(option.channel_types ?? [])].sort(),
+      min_value: option.min_value ?? null,
+      max_value: option.max_value ?? null,
+      min_length: option.min_length ?? null,
+      max_length: option.max_length ?? null,
+      options: (option.options ?? []).map((child: Record<string, any>) => this.normalizeOption(child))
+    };
+  }
+
+  /**
+   * Treat missing and empty localization maps the same, with a stable key order
+   */
+  private static normalizeLocalizations(localizations?: Record<string, string> | null): Record<string, string> | null {
+    if (!localizations || Object.keys(localizations).length === 0) return null;
+    return Object.fromEntries(Object.entries(localizations).sort(([a], [b]) => a.localeCompare(b)));
+  }
+}
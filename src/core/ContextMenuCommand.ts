@@ -0,0 +1,61 @@
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  MessageContextMenuCommandInteraction,
+  UserContextMenuCommandInteraction,
+  RESTPostAPIApplicationCommandsJSONBody
+} from 'discord.js';
+import { Command } from './Command.js';
+import { CommandContext } from './CommandContext.js';
+
+/**
+ * Base class for commands in the "Apps" menu when right-clicking a user
+ * Shares validation, help and registration with slash commands
+ */
+export abstract class UserContextMenuCommand extends Command {
+  /** Command metadata for Discord registration (the type is set automatically) */
+  public abstract readonly data: ContextMenuCommandBuilder;
+
+  /**
+   * Execute the command
+   * @param interaction The Discord interaction, with the targeted user
+   * @param args Always empty, context menu commands have no options
+   * @param context Config, logger, command manager, bot and services for this invocation
+   */
+  public abstract execute(interaction: UserContextMenuCommandInteraction, args: Record<string, never>, context: CommandContext): Promise<void>;
+
+  public getType(): ApplicationCommandType {
+    return ApplicationCommandType.User;
+  }
+
+  public getRegistrationData(): RESTPostAPIApplicationCommandsJSONBody {
+    this.data.setType(ApplicationCommandType.User);
+    return super.getRegistrationData();
+  }
+}
+
+/**
+ * Base class for commands in the "Apps" menu when right-clicking a message
+ * Shares validation, help and registration with slash commands
+ */
+export abstract class MessageContextMenuCommand extends Command {
+  /** Command metadata for Discord registration (the type is set automatically) */
+  public abstract readonly data: ContextMenuCommandBuilder;
+
+  /**
+   * Execute the command
+   * @param interaction The Discord interaction, with the targeted message
+   * @param args Always empty, context menu commands have no options
+   * @param context Config, logger, command manager, bot and services for this invocation
+   */
+  public abstract execute(interaction: MessageContextMenuCommandInteraction, args: Record<string, never>, context: CommandContext): Promise<void>;
+
+  public getType(): ApplicationCommandType {
+    return ApplicationCommandType.Message;
+  }
+
+  public getRegistrationData(): RESTPostAPIApplicationCommandsJSONBody {
+    this.data.setType(ApplicationCommandType.Message);
+    return super.getRegistrationData();
+  }
+}
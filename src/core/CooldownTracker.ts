@@ -0,0 +1,109 @@
+/**
+ * Scope a cooldown is counted in
+ */
+export type CooldownScope = 'user' | 'guild' | 'channel' | 'global';
+
+/**
+ * Cooldown declaration for a command
+ */
+export interface CooldownOptions {
+  /** Who shares the cooldown */
+  scope: CooldownScope;
+  /** Length of the window in milliseconds */
+  duration: number;
+  /** Number of uses allowed within the window (defaults to 1) */
+  burst?: number;
+}
+
+/**
+ * Who is invoking a command, used to build cooldown keys
+ */
+export interface CooldownTarget {
+  userId: string;
+  guildId: string | null;
+  channelId: string | null;
+}
+
+/**
+ * Sliding-window usage tracker for command cooldowns
+ */
+export class CooldownTracker {
+  private usage: Map<string, number[]> = new Map();
+  private checksSinceSweep = 0;
+
+  constructor(private cooldowns: CooldownOptions[]) {}
+
+  /**
+   * Record a use if every cooldown allows it
+   * @returns 0 if the use was recorded, otherwise milliseconds until it would be allowed
+   */
+  public consume(target: CooldownTarget, now: number = Date.now()): number {
+    this.maybeSweep(now);
+
+    // Check every cooldown before recording, so a rejected use doesn't count against the others
+    let retryAfter = 0;
+    for (const [index, cooldown] of this.cooldowns.entries()) {
+      const timestamps = this.getActive(this.createKey(index, target), cooldown.duration, now);
+      if (timestamps.length >= (cooldown.burst ?? 1)) {
+        retryAfter = Math.max(retryAfter, timestamps[0] + cooldown.duration - now);
+      }
+    }
+
+    if (retryAfter > 0) {
+      return retryAfter;
+    }
+
+    for (const [index, cooldown] of this.cooldowns.entries()) {
+      const key = this.createKey(index, target);
+      this.usage.set(key, [...this.getActive(key, cooldown.duration, now), now]);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Forget all recorded usage
+   */
+  public reset(): void {
+    this.usage.clear();
+  }
+
+  /**
+   * Build the usage key for a cooldown, prefixed by its index so cooldowns never share windows
+   */
+  private createKey(index: number, target: CooldownTarget): string {
+    switch (this.cooldowns[index].scope) {
+      case 'user':
+        return `${index}:user:${target.userId}`;
+      case 'guild':
+        // Outside servers each DM counts as its own guild
+        return target.guildId ? `${index}:guild:${target.guildId}` : `${index}:dm:${target.userId}`;
+      case 'channel':
+        return `${index}:channel:${target.channelId ?? target.userId}`;
+      case 'global':
+        return `${index}:global`;
+    }
+  }
+
+  /**
+   * Get timestamps still inside the window, oldest first
+   */
+  private getActive(key: string, duration: number, now: number): number[] {
+    return (this.usage.get(key) ?? []).filter(timestamp => timestamp > now - duration);
+  }
+
+  /**
+   * Periodically drop keys whose windows have fully expired
+   */
+  private maybeSweep(now: number): void {
+    if (++this.checksSinceSweep < 100) return;
+    this.checksSinceSweep = 0;
+
+    for (const [key, timestamps] of this.usage) {
+      const duration = this.cooldowns[parseInt(key, 10)].duration;
+      if (timestamps[timestamps.length - 1] <= now - duration) {
+        this.usage.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { ApplicationCommandType } from 'discord.js';
+
+/**
+ * Parsed component custom ID
+ */
+export interface ParsedCustomId {
+  commandType: ApplicationCommandType;
+  commandName: string;
+  handler: string;
+  createdAt: number;
+  state: string[];
+}
+
+/**
+ * Namespaced custom ID scheme for components and modals
+ * Format: cmd:<command type>:<command>:<handler>:<created at, base36>:<state...>
+ * IDs without the prefix are left alone so hand-rolled collectors keep working
+ */
+export class CustomId {
+  private static readonly PREFIX = 'cmd';
+  private static readonly SEPARATOR = ':';
+
+  /** Discord limit for custom IDs */
+  public static readonly MAX_LENGTH = 100;
+
+  /**
+   * Build a custom ID routed to a command's component handler
+   * @throws Error if the encoded ID exceeds Discord's length limit
+   */
+  public static encode(
+    commandType: ApplicationCommandType,
+    commandName: string,
+    handler: string,
+    state: string[] = []
+  ): string {
+    const parts = [
+      this.PREFIX,
+      commandType,
+      encodeURIComponent(commandName),
+      encodeURIComponent(handler),
+      Date.now().toString(36),
+      ...state.map(value => encodeURIComponent(value))
+    ];
+    const customId = parts.join(this.SEPARATOR);
+
+    if (customId.length > this.MAX_LENGTH) {
+      throw new Error(`Custom ID for ${commandName}:${handler} exceeds ${this.MAX_LENGTH} characters (${customId.length})`);
+    }
+
+    return customId;
+  }
+
+  /**
+   * Parse a custom ID created by encode()
+   * Returns null for IDs that don't belong to this scheme or are malformed
+   */
+  public static decode(customId: string): ParsedCustomId | null {
+    const [prefix, commandType, commandName, handler, createdAt, ...state] = customId.split(this.SEPARATOR);
+
+    if (prefix !== this.PREFIX || !commandType || !commandName || !handler || !createdAt) {
+      return null;
+    }
+
+    const type = parseInt(commandType, 10);
+    const timestamp = parseInt(createdAt, 36);
+    if (Number.isNaN(type) || Number.isNaN(timestamp)) {
+      return null;
+    }
+
+    try {
+      return {
+        commandType: type,
+        commandName: decodeURIComponent(commandName),
+        handler: decodeURIComponent(handler),
+        createdAt: timestamp,
+        state: state.map(value => decodeURIComponent(value))
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a custom ID belongs to this scheme
+   */
+  public static isRouted(customId: string): boolean {
+    return customId.startsWith(`${this.PREFIX}${this.SEPARATOR}`);
+  }
+}
@@ -0,0 +1,50 @@
+import { ClientEvents, GatewayIntentBits } from 'discord.js';
+import type { Bot } from './Bot.js';
+import type { EnvironmentConfig } from '../services/Environment.js';
+import type { Logger } from '../services/Logger.js';
+import type { ServiceContainer, ServiceToken } from '../services/ServiceContainer.js';
+
+/**
+ * Everything an event handler needs for one event
+ */
+export interface EventContext {
+  /** Validated configuration */
+  readonly config: EnvironmentConfig;
+
+  /** Logger scoped to the handler, with the event name as a field */
+  readonly logger: Logger;
+
+  /** The running bot */
+  readonly bot: Bot;
+
+  /** Services registered with bot.provide(), looked up by token */
+  readonly services: ServiceContainer;
+}
+
+/**
+ * Abstract base class for gateway event handlers
+ * Each handler runs in isolation: an error is logged and never reaches other handlers or the client
+ */
+export abstract class Event<K extends keyof ClientEvents = keyof ClientEvents> {
+  /** Client event to handle, e.g. Events.GuildMemberAdd */
+  public abstract readonly name: K;
+
+  /** Handle only the first time the event is emitted */
+  public readonly once: boolean = false;
+
+  /**
+   * Gateway intents Discord needs to send this event, e.g. GuildMembers for guildMemberAdd
+   * The client is created with the intents of every registered event and command
+   */
+  public readonly intents: GatewayIntentBits[] = [];
+
+  /** Services this handler gets from context.services; the bot refuses to start if any is missing */
+  public readonly dependencies: ServiceToken<unknown>[] = [];
+
+  /**
+   * Handle the event
+   * @param context Config, logger, bot and services for this event
+   * @param args The client event's arguments
+   */
+  public abstract execute(context: EventContext, ...args: ClientEvents[K]): Promise<void>;
+}
@@ -0,0 +1,106 @@
+import type { Command } from './Command.js';
+import { Storage } from '../services/Storage.js';
+
+/**
+ * Per-guild command settings, managed by server managers with /config
+ */
+export interface GuildCommandSettings {
+  /** Disabled command names */
+  disabledCommands: string[];
+  /** Disabled help categories (as declared in helpInfo) */
+  disabledCategories: string[];
+  /** Channels a command is limited to, by command name */
+  channels: Record<string, string[]>;
+  /** Roles a command is limited to, by command name */
+  roles: Record<string, string[]>;
+  /** Prefix for message commands, when it differs from COMMAND_PREFIX */
+  prefix?: string;
+}
+
+/**
+ * Persisted per-guild command settings
+ * Checked by Command.validate and used by CommandManager and /help to hide disabled commands
+ */
+export class GuildSettings {
+  private static store = Storage.namespace<GuildCommandSettings>('guild-settings');
+
+  /** Message command prefixes by guild, cleared when the guild's settings change */
+  private static prefixes = new Map<string, string | undefined>();
+
+  /** The last queued change per guild, so concurrent changes don't overwrite each other */
+  private static pendingChanges = new Map<string, Promise<void>>();
+
+  /**
+   * Get a guild's settings (empty settings if none were saved)
+   */
+  public static async get(guildId: string): Promise<GuildCommandSettings> {
+    return { ...GuildSettings.createEmpty(), ...await this.store.get(guildId) };
+  }
+
+  /**
+   * Get a guild's message command prefix, if it set one
+   * Cached, since it's needed for every message the bot sees
+   */
+  public static async getPrefix(guildId: string): Promise<string | undefined> {
+    if (!this.prefixes.has(guildId)) {
+      this.prefixes.set(guildId, (await this.get(guildId)).prefix);
+    }
+    return this.prefixes.get(guildId);
+  }
+
+  /**
+   * Change a guild's settings and save them
+   * Changes to the same guild run one at a time, each reading what the previous one saved
+   * @param change Mutates the settings in place
+   */
+  public static update(guildId: string, change: (settings: GuildCommandSettings) => void): Promise<GuildCommandSettings> {
+    return this.enqueue(guildId, async () => {
+      const settings = await this.get(guildId);
+      change(settings);
+      await this.store.set(guildId, settings);
+      this.prefixes.delete(guildId);
+      return settings;
+    });
+  }
+
+  /**
+   * Remove all settings for a guild
+   */
+  public static reset(guildId: string): Promise<void> {
+    return this.enqueue(guildId, async () => {
+      await this.store.delete(guildId);
+      this.prefixes.delete(guildId);
+    });
+  }
+
+  /**
+   * Whether a command is enabled, by name and by category
+   * Commands that aren't configurable are always enabled
+   */
+  public static isEnabled(settings: GuildCommandSettings, command: Command): boolean {
+    if (!command.configurable) return true;
+
+    const category = command.helpInfo.category.toLowerCase();
+    return !settings.disabledCommands.includes(command.getName())
+      && !settings.disabledCategories.some(disabled => disabled.toLowerCase() === category);
+  }
+
+  /**
+   * Run a change after the guild's previous changes, whether they succeeded or not
+   */
+  private static enqueue<T>(guildId: string, change: () => Promise<T>): Promise<T> {
+    const previous = this.pendingChanges.get(guildId) ?? Promise.resolve();
+    const result = previous.then(change);
+    const pending = result.then(() => undefined, () => undefined);
+
+    this.pendingChanges.set(guildId, pending);
+    pending.then(() => {
+      if (this.pendingChanges.get(guildId) === pending) this.pendingChanges.delete(guildId);
+    });
+    return result;
+  }
+
+  private static createEmpty(): GuildCommandSettings {
+    return { disabledCommands: [], disabledCategories: [], channels: {}, roles: {} };
+  }
+}
@@ -0,0 +1,109 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { Environment } from '../services/Environment.js';
+import { Config } from '../services/Config.js';
+import { Logger } from '../services/Logger.js';
+import { MetricsRegistry } from '../services/Metrics.js';
+
+/**
+ * Settings for the health and metrics endpoints
+ */
+export const healthConfig = Environment.defineSection('health', {
+  port: Config.int({
+    env: 'HEALTH_PORT',
+    description: 'Port for the /healthz, /readyz and /metrics endpoints (disabled when unset)',
+    min: 1,
+    max: 65535
+  }),
+  host: Config.string({
+    env: 'HEALTH_HOST',
+    description: 'Address the health server listens on',
+    default: '0.0.0.0'
+  })
+});
+
+/**
+ * Options for the health server
+ */
+export interface HealthServerOptions {
+  port: number;
+  host?: string;
+  /** Whether the bot can handle interactions, answered by /readyz */
+  isReady: () => boolean;
+  /** Rendered by /metrics */
+  metrics: MetricsRegistry;
+}
+
+/**
+ * HTTP server for container orchestrators and monitoring
+ * - /healthz: the process is alive
+ * - /readyz: the bot is connected and can handle interactions
+ * - /metrics: Prometheus metrics
+ */
+export class HealthServer {
+  private logger = new Logger({ context: 'HealthServer' });
+  private server?: Server;
+
+  constructor(private options: HealthServerOptions) {}
+
+  /**
+   * Start listening
+   */
+  public async start(): Promise<void> {
+    this.server = createServer((request, response) => this.handleRequest(request, response));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    this.logger.info(`start - Serving /healthz, /readyz and /metrics on ${this.options.host ?? '0.0.0.0'}:${this.options.port}`);
+  }
+
+  /**
+   * Stop the server
+   */
+  public async stop(): Promise<void> {
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+    this.logger.info('stop - Health server stopped');
+  }
+
+  private handleRequest(request: IncomingMessage, response: ServerResponse): void {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      this.send(response, 405, 'method not allowed\n');
+      return;
+    }
+
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    switch (path) {
+      case '/healthz':
+        this.send(response, 200, 'ok\n');
+        return;
+      case '/readyz':
+        if (this.options.isReady()) {
+          this.send(response, 200, 'ready\n');
+        } else {
+          this.send(response, 503, 'not ready\n');
+        }
+        return;
+      case '/metrics':
+        try {
+          this.send(response, 200, this.options.metrics.render(), MetricsRegistry.CONTENT_TYPE);
+        } catch (error) {
+          this.logger.error('handleRequest - Failed to render metrics:', error);
+          this.send(response, 500, 'internal error\n');
+        }
+        return;
+      default:
+        this.send(response, 404, 'not found\n');
+    }
+  }
+
+  private send(response: ServerResponse, status: number, body: string, contentType = 'text/plain; charset=utf-8'): void {
+    response.writeHead(status, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(body) });
+    response.end(body);
+  }
+}
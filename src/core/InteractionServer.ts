@@ -0,0 +1,450 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import {
+  Client,
+  ClientUser,
+  InteractionType,
+  InteractionResponseType,
+  MessageFlags,
+  Routes,
+  APIInteraction,
+  APIUser
+} from 'discord.js';
+import { InteractionVerifier } from '../services/InteractionVerifier.js';
+import { Environment } from '../services/Environment.js';
+import { Config } from '../services/Config.js';
+import { Logger } from '../services/Logger.js';
+
+/**
+ * Settings for receiving interactions over HTTP instead of the gateway
+ */
+export const interactionsConfig = Environment.defineSection('interactions', {
+  mode: Config.enum(['gateway', 'http'], {
+    env: 'INTERACTIONS_MODE',
+    description: 'Receive interactions over the gateway or as an HTTP endpoint (gateway or http)',
+    default: 'gateway'
+  }),
+  publicKey: Config.string({
+    env: 'DISCORD_PUBLIC_KEY',
+    description: 'Application public key (hex), required in http mode',
+    pattern: /^[0-9a-f]{64}$/i
+  }),
+  port: Config.int({
+    env: 'INTERACTIONS_PORT',
+    description: 'Port for the HTTP interactions endpoint',
+    default: '3000',
+    min: 1,
+    max: 65535
+  }),
+  signingKey: Config.string({
+    env: 'INTERACTIONS_SIGNING_KEY',
+    description: 'Local private key used by npm run post-interaction',
+    secret: true
+  })
+}, values => values.mode === 'http' && !values.publicKey
+  ? ['DISCORD_PUBLIC_KEY is required when INTERACTIONS_MODE=http']
+  : []);
+
+/**
+ * How the HTTP interactions endpoint may answer for a slow handler, set with Command.autoDefer
+ * The deferral decides whether the reply is visible to everyone, so commands declare it
+ */
+export interface AutoDeferOptions {
+  /** Defer as a reply only the user sees, for handlers whose replies are ephemeral */
+  ephemeral?: boolean;
+  /** Defer components as a new reply instead of an update of their message */
+  componentReply?: boolean;
+}
+
+/**
+ * Options for the HTTP interactions endpoint
+ */
+export interface InteractionServerOptions {
+  /** Application public key used to verify request signatures (hex) */
+  publicKey: string;
+  /** Port to listen on */
+  port: number;
+  /** Path Discord posts interactions to */
+  path?: string;
+  /** Send a deferred response if a command hasn't answered within this many milliseconds */
+  deferAfterMs?: number;
+  /** How to defer an interaction, or undefined to never defer it on the handler's behalf */
+  getAutoDefer?: (payload: APIInteraction) => AutoDeferOptions | undefined;
+}
+
+type MakeRequest = Client['rest']['options']['makeRequest'];
+type RequestInit = Parameters<MakeRequest>[1];
+type ResponseLike = Awaited<ReturnType<MakeRequest>>;
+type ResponseBody = ConstructorParameters<typeof Response>[0];
+
+/**
+ * An interaction that arrived over HTTP and is waiting for, or was deferred in, its HTTP response
+ */
+interface PendingInteraction {
+  applicationId: string;
+  token: string;
+  type: InteractionType;
+  response: ServerResponse;
+  state: 'pending' | 'deferred';
+  /** The response sent by autoDefer */
+  deferral?: { type: InteractionResponseType; ephemeral: boolean };
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * HTTP interactions endpoint that runs commands without a gateway connection
+ *
+ * Verified payloads are handed to the discord.js client as if they came from the gateway,
+ * so the same Bot listeners and Command classes handle them. The client's REST layer is
+ * intercepted: the first interaction callback becomes the HTTP response, and callbacks made
+ * after an automatic deferral are turned into an edit of the original response, or a
+ * follow-up when the reply doesn't fit the deferral.
+ */
+export class InteractionServer {
+  private static readonly MAX_BODY_SIZE = 1024 * 1024;
+  /** Interaction tokens stay valid for 15 minutes */
+  private static readonly TOKEN_LIFETIME = 15 * 60 * 1000;
+  /** Discord stops waiting for the initial response after 3 seconds */
+  private static readonly RESPONSE_TIMEOUT = 3000;
+
+  private logger = new Logger({ context: 'InteractionServer' });
+  private server?: Server;
+  private pending: Map<string, PendingInteraction> = new Map();
+
+  constructor(
+    private client: Client,
+    private options: InteractionServerOptions
+  ) {}
+
+  /**
+   * Start listening for interactions
+   */
+  public async start(): Promise<void> {
+    const rest = this.client.rest;
+    rest.options.makeRequest = this.createRequestInterceptor(rest.options.makeRequest);
+    await this.identify();
+
+    this.server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        this.logger.error('handleRequest - Unhandled error:', error);
+        if (!response.headersSent) {
+          this.sendJson(response, 500, { error: 'internal error' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, () => resolve());
+    });
+
+    this.logger.info(`start - Listening for interactions on port ${this.options.port} at ${this.getPath()}`);
+  }
+
+  /**
+   * Whether the server is accepting interactions
+   */
+  public isListening(): boolean {
+    return this.server?.listening ?? false;
+  }
+
+  /**
+   * Stop the server and drop pending interactions
+   */
+  public async stop(): Promise<void> {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+    }
+    this.pending.clear();
+
+    if (!this.server) return;
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+    this.logger.info('stop - Interaction server stopped');
+  }
+
+  /**
+   * Fill in client.user, which the gateway would set from the READY event
+   */
+  private async identify(): Promise<void> {
+    try {
+      this.setClientUser(await this.client.rest.get(Routes.user()) as APIUser);
+      this.logger.info(`identify - Running as ${this.client.user?.tag}`);
+    } catch (error) {
+      this.logger.warn(`identify - Could not fetch the bot user, falling back to the application ID: ${(error as Error).message}`);
+    }
+  }
+
+  private setClientUser(data: APIUser): void {
+    // ClientUser's constructor is internal to discord.js
+    const user = Reflect.construct(ClientUser, [this.client, data]) as ClientUser;
+    (this.client as { user: ClientUser | null }).user = user;
+  }
+
+  private getPath(): string {
+    return this.options.path ?? '/interactions';
+  }
+
+  /**
+   * Verify and dispatch an incoming request
+   */
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.url?.split('?')[0] !== this.getPath()) {
+      this.sendJson(response, 404, { error: 'not found' });
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      this.sendJson(response, 405, { error: 'method not allowed' });
+      return;
+    }
+
+    const body = await this.readBody(request);
+    if (body === null) {
+      this.sendJson(response, 413, { error: 'payload too large' });
+      return;
+    }
+
+    const signature = request.headers['x-signature-ed25519'];
+    const timestamp = request.headers['x-signature-timestamp'];
+
+    if (
+      typeof signature !== 'string' ||
+      typeof timestamp !== 'string' ||
+      !InteractionVerifier.verify(body, signature, timestamp, this.options.publicKey)
+    ) {
+      this.logger.warn('handleRequest - Rejected request with invalid signature');
+      this.sendJson(response, 401, { error: 'invalid request signature' });
+      return;
+    }
+
+    let payload: APIInteraction;
+    try {
+      payload = JSON.parse(body.toString('utf8'));
+    } catch {
+      this.sendJson(response, 400, { error: 'invalid JSON' });
+      return;
+    }
+
+    if (payload.type === InteractionType.Ping) {
+      this.logger.debug('handleRequest - Answered PING');
+      this.sendJson(response, 200, { type: InteractionResponseType.Pong });
+      return;
+    }
+
+    await this.dispatch(payload, response);
+  }
+
+  /**
+   * Hand a verified interaction to the discord.js client
+   */
+  private async dispatch(payload: APIInteraction, response: ServerResponse): Promise<void> {
+    if (!this.client.user) {
+      this.setClientUser({ id: payload.application_id, username: 'unknown', discriminator: '0', global_name: null, avatar: null, bot: true });
+    }
+
+    // Commands expect interaction.guild, which only exists once the guild is cached
+    if (payload.guild_id && !this.client.guilds.cache.has(payload.guild_id)) {
+      await this.client.guilds.fetch({ guild: payload.guild_id, withCounts: true }).catch(error => {
+        this.logger.warn(`dispatch - Could not fetch guild ${payload.guild_id}: ${error.message}`);
+      });
+    }
+
+    // Autocomplete can't be deferred, and other interactions only when their command says how
+    const autoDefer = payload.type === InteractionType.ApplicationCommandAutocomplete ? undefined : this.options.getAutoDefer?.(payload);
+    const timer = autoDefer
+      ? setTimeout(() => this.autoDefer(payload.id, autoDefer), this.options.deferAfterMs ?? 2500)
+      : setTimeout(() => this.expire(payload.id), InteractionServer.RESPONSE_TIMEOUT);
+
+    this.pending.set(payload.id, {
+      applicationId: payload.application_id,
+      token: payload.token,
+      type: payload.type,
+      response,
+      state: 'pending',
+      timer
+    });
+
+    // The same action the gateway uses to build interactions and emit InteractionCreate
+    const actions = (this.client as unknown as { actions: { InteractionCreate: { handle(data: unknown): void } } }).actions;
+    actions.InteractionCreate.handle(payload);
+  }
+
+  /**
+   * Answer with a deferred response when a handler is taking too long
+   */
+  private autoDefer(interactionId: string, options: AutoDeferOptions): void {
+    const pending = this.pending.get(interactionId);
+    if (!pending || pending.state !== 'pending') return;
+
+    const type = pending.type === InteractionType.MessageComponent && !options.componentReply
+      ? InteractionResponseType.DeferredMessageUpdate
+      : InteractionResponseType.DeferredChannelMessageWithSource;
+    const ephemeral = type === InteractionResponseType.DeferredChannelMessageWithSource && !!options.ephemeral;
+
+    this.logger.debug(`autoDefer - Deferring interaction ${interactionId}${ephemeral ? ' (ephemeral)' : ''}`);
+    this.sendJson(pending.response, 200, ephemeral ? { type, data: { flags: MessageFlags.Ephemeral } } : { type });
+
+    pending.state = 'deferred';
+    pending.deferral = { type, ephemeral };
+    pending.timer = setTimeout(() => this.pending.delete(interactionId), InteractionServer.TOKEN_LIFETIME);
+  }
+
+  /**
+   * Give up on an interaction nobody answered in time; Discord has already shown an error
+   */
+  private expire(interactionId: string): void {
+    const pending = this.pending.get(interactionId);
+    if (!pending) return;
+
+    this.pending.delete(interactionId);
+    if (!pending.response.headersSent) {
+      this.logger.warn(`expire - Interaction ${interactionId} wasn't answered within ${InteractionServer.RESPONSE_TIMEOUT}ms`);
+      this.sendJson(pending.response, 503, { error: 'no response' });
+    }
+  }
+
+  /**
+   * Wrap the REST request function so interaction callbacks for HTTP interactions are answered locally
+   */
+  private createRequestInterceptor(makeRequest: MakeRequest): MakeRequest {
+    return async (url, init) => {
+      const match = /\/interactions\/(\d+)\/[^/]+\/callback/.exec(url);
+      const pending = match ? this.pending.get(match[1]) : undefined;
+
+      if (!match || !pending) {
+        return makeRequest(url, init);
+      }
+
+      clearTimeout(pending.timer);
+      this.pending.delete(match[1]);
+
+      if (pending.state === 'pending') {
+        await this.sendCallback(pending.response, init.body);
+        return new Response(null, { status: 204 });
+      }
+
+      return this.forwardDeferredCallback(url, init, pending, makeRequest);
+    };
+  }
+
+  /**
+   * Send an interaction callback body as the HTTP response
+   */
+  private async sendCallback(response: ServerResponse, body: RequestInit['body']): Promise<void> {
+    // Multipart bodies (attachments) are encoded the same way fetch would send them
+    const encoded = new Response(body as ResponseBody);
+    const contentType = encoded.headers.get('content-type') ?? 'application/json';
+    const buffer = Buffer.from(await encoded.arrayBuffer());
+
+    await new Promise<void>(resolve => {
+      response.once('finish', resolve);
+      response.writeHead(200, { 'Content-Type': contentType, 'Content-Length': buffer.length });
+      response.end(buffer);
+    });
+  }
+
+  /**
+   * Send a callback made after an automatic deferral as an edit of the deferred response,
+   * or as a follow-up when it doesn't fit the deferral (an ephemeral reply to a public
+   * deferral, or a new reply to a component deferred as an update), since an edit can't
+   * change the visibility and would replace the component's message
+   */
+  private async forwardDeferredCallback(
+    url: string,
+    init: RequestInit,
+    pending: PendingInteraction,
+    makeRequest: MakeRequest
+  ): Promise<ResponseLike> {
+    const { type, data, files } = await this.parseCallbackBody(init.body);
+    const deferral = pending.deferral!;
+    const ephemeral = InteractionServer.isEphemeral(data);
+
+    switch (type) {
+      case InteractionResponseType.DeferredChannelMessageWithSource:
+      case InteractionResponseType.DeferredMessageUpdate:
+        // Already deferred on the handler's behalf
+        if (type !== deferral.type || (type === InteractionResponseType.DeferredChannelMessageWithSource && ephemeral !== deferral.ephemeral)) {
+          this.logger.warn(`forwardDeferredCallback - The handler deferred differently than autoDefer; check the command's autoDefer options`);
+        }
+        return new Response(null, { status: 204 });
+
+      case InteractionResponseType.ChannelMessageWithSource:
+      case InteractionResponseType.UpdateMessage: {
+        const webhook = `${url.slice(0, url.indexOf('/interactions/'))}/webhooks/${pending.applicationId}/${pending.token}`;
+        let body: RequestInit['body'] = JSON.stringify(data ?? {});
+
+        if (files) {
+          files.set('payload_json', body);
+          body = files as unknown as RequestInit['body'];
+        }
+
+        const fits = type === InteractionResponseType.UpdateMessage
+          ? deferral.type === InteractionResponseType.DeferredMessageUpdate
+          : deferral.type === InteractionResponseType.DeferredChannelMessageWithSource && ephemeral === deferral.ephemeral;
+
+        if (fits) {
+          return makeRequest(`${webhook}/messages/@original`, { ...init, method: 'PATCH', body });
+        }
+
+        this.logger.debug(`forwardDeferredCallback - Sending the reply as a follow-up, it doesn't fit the deferral`);
+        if (deferral.type === InteractionResponseType.DeferredChannelMessageWithSource) {
+          // The first follow-up would otherwise replace the "thinking" message and keep its visibility
+          await makeRequest(`${webhook}/messages/@original`, { method: 'DELETE', headers: init.headers }).catch(error => {
+            this.logger.warn(`forwardDeferredCallback - Could not delete the deferred response: ${error.message}`);
+          });
+        }
+        return makeRequest(webhook, { ...init, method: 'POST', body });
+      }
+
+      default:
+        this.logger.warn(`forwardDeferredCallback - Response type ${type} can't be sent after an automatic deferral`);
+        return new Response(
+          JSON.stringify({ message: 'Interaction has already been acknowledged.', code: 40060 }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+    }
+  }
+
+  private static isEphemeral(data: unknown): boolean {
+    const flags = (data as { flags?: number } | undefined)?.flags ?? 0;
+    return (flags & MessageFlags.Ephemeral) !== 0;
+  }
+
+  /**
+   * Read the response type, data and any attachments from a callback body
+   */
+  private async parseCallbackBody(body: RequestInit['body']): Promise<{ type: InteractionResponseType; data?: unknown; files?: FormData }> {
+    if (body instanceof FormData) {
+      const payload = JSON.parse(String(body.get('payload_json')));
+      body.delete('payload_json');
+      return { type: payload.type, data: payload.data, files: body };
+    }
+
+    const payload = JSON.parse(typeof body === 'string' ? body : await new Response(body as ResponseBody).text());
+    return { type: payload.type, data: payload.data };
+  }
+
+  /**
+   * Read a request body, returning null if it exceeds the size limit
+   */
+  private async readBody(request: IncomingMessage): Promise<Buffer | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+      size += chunk.length;
+      if (size > InteractionServer.MAX_BODY_SIZE) {
+        return null;
+      }
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,367 @@
+import {
+  APIApplicationCommandOption,
+  ApplicationCommandOptionType,
+  ChannelType,
+  CommandInteractionOption,
+  Message
+} from 'discord.js';
+import { Translator } from '../services/I18n.js';
+
+/**
+ * A word or quoted phrase in a message command, with its position in the text
+ */
+export interface MessageToken {
+  value: string;
+  /** Index of the first character, including an opening quote */
+  start: number;
+  /** Index after the last character, including a closing quote */
+  end: number;
+  /** Whether the whole token was quoted, so it is never read as option:value */
+  quoted: boolean;
+}
+
+/**
+ * Result of mapping a message's text onto a command's options
+ * path is the subcommand path that was matched, also on failure, for showing usage
+ */
+export type MessageArgumentsResult =
+  | { valid: true; path: string[]; options: CommandInteractionOption[] }
+  | { valid: false; path: string[]; reason: string };
+
+/**
+ * A token that can't be used for an option; the message is shown to the user
+ */
+class ArgumentError extends Error {}
+
+const QUOTES: Record<string, string> = { '"': '"', '“': '”', '„': '“' };
+
+const USER_MENTION = /^<@!?(\d{17,20})>$/;
+const ROLE_MENTION = /^<@&(\d{17,20})>$/;
+const CHANNEL_MENTION = /^<#(\d{17,20})>$/;
+const SNOWFLAKE = /^\d{17,20}$/;
+const NAMED_ARGUMENT = /^([\w-]+):([\s\S]*)$/;
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_WORDS = ['false', 'no', 'n', 'off', '0'];
+
+/**
+ * Parses the text after a message command's name into slash command options
+ *
+ * Tokens fill the declared options in order, or by name with option:value. Users, roles
+ * and channels can be given as mentions, IDs or names, attachment options take the
+ * message's attachments, and a final string option takes the rest of the text, so it
+ * doesn't need quotes
+ */
+export class MessageArguments {
+  /**
+   * Split text into words, keeping "quoted phrases" (with \" escapes) together, also after an option name as in note:"some text"
+   */
+  public static tokenize(input: string): MessageToken[] {
+    const tokens: MessageToken[] = [];
+    let index = 0;
+
+    while (index < input.length) {
+      if (/\s/.test(input[index])) {
+        index++;
+        continue;
+      }
+
+      const start = index;
+      const name = /^[\w-]+:/.exec(input.slice(index))?.[0] ?? '';
+      const closing = QUOTES[input[index + name.length]];
+
+      if (closing) {
+        let value = name;
+        index += name.length + 1;
+        while (index < input.length && input[index] !== closing) {
+          if (input[index] === '\\' && (input[index + 1] === closing || input[index + 1] === '\\')) {
+            index++;
+          }
+          value += input[index];
+          index++;
+        }
+        index++; // Closing quote, if there is one
+        tokens.push({ value, start, end: Math.min(index, input.length), quoted: !name });
+        continue;
+      }
+
+      while (index < input.length && !/\s/.test(input[index])) {
+        index++;
+      }
+      tokens.push({ value: input.slice(start, index), start, end: index, quoted: false });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Match the subcommand path, then resolve the remaining tokens against its options
+   * @param declared The command's options from its registration data
+   * @param tokens Tokens after the command name
+   * @param input The text the tokens came from
+   */
+  public static async parse(
+    message: Message,
+    declared: APIApplicationCommandOption[],
+    tokens: MessageToken[],
+    input: string,
+    t: Translator
+  ): Promise<MessageArgumentsResult> {
+    const path: { name: string; type: ApplicationCommandOptionType }[] = [];
+    let options = declared;
+    let index = 0;
+
+    while (options[0]?.type === ApplicationCommandOptionType.Subcommand || options[0]?.type === ApplicationCommandOptionType.SubcommandGroup) {
+      const name = tokens[index]?.value.toLowerCase();
+      const match = options.find(option => option.name === name);
+
+      if (!match || (match.type !== ApplicationCommandOptionType.Subcommand && match.type !== ApplicationCommandOptionType.SubcommandGroup)) {
+        const choices = options.map(option => option.name).join(', ');
+        const reason = name ? t('messageCommands.unknownSubcommand', { name, choices }) : t('messageCommands.missingSubcommand', { choices });
+        return { valid: false, path: path.map(entry => entry.name), reason };
+      }
+
+      path.push({ name: match.name, type: match.type });
+      options = (match.options ?? []) as APIApplicationCommandOption[];
+      index++;
+    }
+
+    const names = path.map(entry => entry.name);
+
+    try {
+      let resolved = await this.resolveOptions(message, options, tokens.slice(index), input, t);
+
+      for (const entry of [...path].reverse()) {
+        resolved = [{ name: entry.name, type: entry.type, options: resolved }];
+      }
+
+      return { valid: true, path: names, options: resolved };
+    } catch (error) {
+      if (error instanceof ArgumentError) {
+        return { valid: false, path: names, reason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Describe how to use a command or subcommand, e.g. "!example user [target]"
+   * Lists the subcommands when path doesn't reach one
+   */
+  public static formatUsage(prefix: string, commandName: string, declared: APIApplicationCommandOption[], path: string[]): string {
+    let options = declared;
+    for (const name of path) {
+      const match = options.find(option => option.name === name);
+      options = (match && 'options' in match ? match.options ?? [] : []) as APIApplicationCommandOption[];
+    }
+
+    const isSubcommand = (option: APIApplicationCommandOption) =>
+      option.type === ApplicationCommandOptionType.Subcommand || option.type === ApplicationCommandOptionType.SubcommandGroup;
+
+    const parts = options.some(isSubcommand)
+      ? [`<${options.map(option => option.name).join('|')}>`]
+      : options.map(option => 'required' in option && option.required ? `<${option.name}>` : `[${option.name}]`);
+
+    return [`${prefix}${commandName}`, ...path, ...parts].join(' ');
+  }
+
+  /**
+   * Assign named and positional tokens and the message's attachments to options
+   */
+  private static async resolveOptions(
+    message: Message,
+    declared: APIApplicationCommandOption[],
+    tokens: MessageToken[],
+    input: string,
+    t: Translator
+  ): Promise<CommandInteractionOption[]> {
+    const values = new Map<string, string>();
+    const positional: MessageToken[] = [];
+
+    for (const token of tokens) {
+      const named = token.quoted ? null : NAMED_ARGUMENT.exec(token.value);
+      const option = named ? declared.find(candidate => candidate.name === named[1].toLowerCase()) : undefined;
+
+      if (named && option) {
+        values.set(option.name, named[2]);
+      } else {
+        positional.push(token);
+      }
+    }
+
+    const open = declared.filter(option => option.type !== ApplicationCommandOptionType.Attachment && !values.has(option.name));
+
+    for (let i = 0; i < positional.length; i++) {
+      const option = open[i];
+      if (!option) {
+        throw new ArgumentError(t('messageCommands.tooManyArguments'));
+      }
+
+      // The last string option takes the rest of the text, quotes and all
+      const rest = positional.slice(i);
+      if (option.type === ApplicationCommandOptionType.String && i === open.length - 1 && rest.length > 1) {
+        values.set(option.name, input.slice(rest[0].start, rest[rest.length - 1].end));
+        break;
+      }
+
+      values.set(option.name, positional[i].value);
+    }
+
+    const attachments = [...message.attachments.values()];
+    const resolved: CommandInteractionOption[] = [];
+
+    for (const option of declared) {
+      if (option.type === ApplicationCommandOptionType.Attachment) {
+        const attachment = attachments.shift();
+        if (attachment) {
+          resolved.push({ name: option.name, type: option.type, value: attachment.id, attachment });
+        } else if (option.required) {
+          throw new ArgumentError(t('options.missing', { name: option.name }));
+        }
+        continue;
+      }
+
+      const value = values.get(option.name);
+      if (value === undefined || value === '') {
+        if (option.required) {
+          throw new ArgumentError(t('options.missing', { name: option.name }));
+        }
+        continue;
+      }
+
+      resolved.push(await this.resolveOption(message, option, value, t));
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Convert one token to the value Discord would have sent for the option, checking its constraints
+   */
+  private static async resolveOption(
+    message: Message,
+    option: APIApplicationCommandOption,
+    value: string,
+    t: Translator
+  ): Promise<CommandInteractionOption> {
+    const { name, type } = option;
+
+    switch (option.type) {
+      case ApplicationCommandOptionType.String: {
+        const text = option.choices?.find(choice => choice.value === value || choice.name.toLowerCase() === value.toLowerCase())?.value ?? value;
+        if (option.choices && !option.choices.some(choice => choice.value === text)) {
+          throw new ArgumentError(t('options.notAChoice', { name, choices: option.choices.map(choice => choice.name).join(', ') }));
+        }
+        if (option.min_length !== undefined && text.length < option.min_length) {
+          throw new ArgumentError(t('options.tooShort', { name, min: option.min_length }));
+        }
+        if (option.max_length !== undefined && text.length > option.max_length) {
+          throw new ArgumentError(t('options.tooLong', { name, max: option.max_length }));
+        }
+        return { name, type, value: text };
+      }
+
+      case ApplicationCommandOptionType.Integer:
+      case ApplicationCommandOptionType.Number: {
+        const choice = option.choices?.find(candidate => candidate.name.toLowerCase() === value.toLowerCase());
+        const number = choice ? choice.value : Number(value);
+        if (!Number.isFinite(number)) {
+          throw new ArgumentError(t('messageCommands.notANumber', { name }));
+        }
+        if (option.type === ApplicationCommandOptionType.Integer && !Number.isInteger(number)) {
+          throw new ArgumentError(t('options.notInteger', { name }));
+        }
+        if (option.choices && !option.choices.some(candidate => candidate.value === number)) {
+          throw new ArgumentError(t('options.notAChoice', { name, choices: option.choices.map(candidate => candidate.name).join(', ') }));
+        }
+        if ((option.min_value !== undefined && number < option.min_value) || (option.max_value !== undefined && number > option.max_value)) {
+          throw new ArgumentError(t('options.outOfRange', { name, min: option.min_value ?? '-∞', max: option.max_value ?? '∞' }));
+        }
+        return { name, type, value: number };
+      }
+
+      case ApplicationCommandOptionType.Boolean: {
+        const word = value.toLowerCase();
+        if (!TRUE_WORDS.includes(word) && !FALSE_WORDS.includes(word)) {
+          throw new ArgumentError(t('messageCommands.notABoolean', { name }));
+        }
+        return { name, type, value: TRUE_WORDS.includes(word) };
+      }
+
+      case ApplicationCommandOptionType.User: {
+        const id = USER_MENTION.exec(value)?.[1] ?? (SNOWFLAKE.test(value) ? value : this.findMemberId(message, value));
+        const user = id ? await message.client.users.fetch(id).catch(() => null) : null;
+        if (!id || !user) {
+          throw new ArgumentError(t('messageCommands.userNotFound', { name, value }));
+        }
+        return { name, type, value: id, user, member: await this.fetchMember(message, id) ?? undefined };
+      }
+
+      case ApplicationCommandOptionType.Channel: {
+        const id = CHANNEL_MENTION.exec(value)?.[1] ?? value;
+        const channelName = value.replace(/^#/, '').toLowerCase();
+        const channel = message.client.channels.cache.get(id)
+          ?? message.guild?.channels.cache.find(candidate => candidate.name.toLowerCase() === channelName);
+        if (!channel || ('guildId' in channel && channel.guildId !== message.guildId)) {
+          throw new ArgumentError(t('messageCommands.channelNotFound', { name, value }));
+        }
+        if (option.channel_types && !(option.channel_types as readonly ChannelType[]).includes(channel.type)) {
+          throw new ArgumentError(t('options.wrongChannelType', { name }));
+        }
+        return { name, type, value: channel.id, channel: channel as CommandInteractionOption['channel'] };
+      }
+
+      case ApplicationCommandOptionType.Role: {
+        const role = this.findRole(message, value);
+        if (!role) {
+          throw new ArgumentError(t('messageCommands.roleNotFound', { name, value }));
+        }
+        return { name, type, value: role.id, role };
+      }
+
+      case ApplicationCommandOptionType.Mentionable: {
+        const role = USER_MENTION.test(value) ? undefined : this.findRole(message, value);
+        if (role) {
+          return { name, type, value: role.id, role };
+        }
+
+        const id = USER_MENTION.exec(value)?.[1] ?? (SNOWFLAKE.test(value) ? value : this.findMemberId(message, value));
+        const user = id ? await message.client.users.fetch(id).catch(() => null) : null;
+        if (!id || !user) {
+          throw new ArgumentError(t('messageCommands.mentionableNotFound', { name, value }));
+        }
+        return { name, type, value: id, user, member: await this.fetchMember(message, id) ?? undefined };
+      }
+
+      default:
+        throw new ArgumentError(t('options.wrongType', { name }));
+    }
+  }
+
+  /**
+   * Find a cached member by username, global name or nickname
+   */
+  private static findMemberId(message: Message, value: string): string | undefined {
+    const search = value.replace(/^@/, '').toLowerCase();
+    return message.guild?.members.cache.find(member =>
+      [member.user.username, member.user.globalName, member.nickname].some(candidate => candidate?.toLowerCase() === search)
+    )?.id;
+  }
+
+  /**
+   * Get a member of the message's guild, fetching it if it isn't cached
+   */
+  private static async fetchMember(message: Message, id: string) {
+    return message.guild?.members.cache.get(id) ?? await message.guild?.members.fetch(id).catch(() => null);
+  }
+
+  /**
+   * Find a role of the message's guild by mention, ID or name
+   */
+  private static findRole(message: Message, value: string) {
+    const roles = message.guild?.roles.cache;
+    const id = ROLE_MENTION.exec(value)?.[1] ?? value;
+    const roleName = value.replace(/^@/, '').toLowerCase();
+    return roles?.get(id) ?? roles?.find(role => role.name.toLowerCase() === roleName);
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  GatewayIntentBits,
+  Interaction,
+  Message,
+  RESTPostAPIChatInputApplicationCommandsJSONBody
+} from 'discord.js';
+import { CommandManager } from './CommandManager.js';
+import { GuildSettings } from './GuildSettings.js';
+import { MessageArguments } from './MessageArguments.js';
+import { MessageCommandInteraction } from './MessageCommandInteraction.js';
+import { Environment } from '../services/Environment.js';
+import { Config } from '../services/Config.js';
+import { I18n } from '../services/I18n.js';
+import { Logger } from '../services/Logger.js';
+
+/**
+ * Settings for running commands from messages
+ */
+export const messageCommandsConfig = Environment.defineSection('messageCommands', {
+  enabled: Config.bool({
+    env: 'MESSAGE_COMMANDS',
+    description: 'Also run commands from messages starting with a prefix (needs the privileged Message Content intent, gateway mode only)',
+    default: 'false'
+  }),
+  prefix: Config.string({
+    env: 'COMMAND_PREFIX',
+    description: 'Prefix for message commands, unless a server sets its own with /config prefix',
+    default: '!',
+    pattern: /^\S{1,10}$/
+  }),
+  mention: Config.bool({
+    env: 'MENTION_PREFIX',
+    description: 'Also accept a mention of the bot as the prefix for message commands',
+    default: 'true'
+  })
+});
+
+/**
+ * Runs chat input commands from messages like "!example user @someone"
+ *
+ * The text after the prefix is parsed into the command's slash options by MessageArguments
+ * and handed to the bot as a MessageCommandInteraction, so commands, middleware and
+ * validation run exactly as they do for slash commands
+ */
+export class MessageCommandHandler {
+  /** Intents needed to receive messages and their content in servers and DMs */
+  public static readonly INTENTS = [GatewayIntentBits.GuildMessages, GatewayIntentBits.DirectMessages, GatewayIntentBits.MessageContent];
+
+  private logger = new Logger({ context: 'MessageCommandHandler' });
+
+  /**
+   * @param run Handles the interaction created for a command, e.g. Bot.handleInteraction
+   */
+  constructor(
+    private commandManager: CommandManager,
+    private run: (interaction: Interaction) => Promise<void>
+  ) {}
+
+  /**
+   * Get the prefix for a guild, or the default prefix in DMs
+   */
+  public static async getPrefix(guildId: string | null): Promise<string> {
+    const prefix = guildId ? await GuildSettings.getPrefix(guildId) : undefined;
+    return prefix ?? messageCommandsConfig.get().prefix;
+  }
+
+  /**
+   * Run the command in a message, if it starts with the prefix and names a command
+   * Messages from bots and webhooks, unknown commands, commands that don't opt in to messages
+   * and commands registered only in other guilds are ignored
+   */
+  public async handle(message: Message): Promise<void> {
+    if (message.author.bot || message.webhookId || message.system) return;
+
+    const prefixed = await this.stripPrefix(message);
+    if (!prefixed) return;
+
+    const tokens = MessageArguments.tokenize(prefixed.input);
+    const name = tokens[0]?.value.toLowerCase();
+    const command = name ? this.commandManager.getCommand(name) : undefined;
+    if (!name || !command) {
+      this.logger.debug(`handle - Ignoring unknown message command: ${name}`);
+      return;
+    }
+
+    if (!command.messageCommand) {
+      this.logger.debug(`handle - Ignoring ${command.getName()}, which can't be run from messages`);
+      return;
+    }
+
+    if (command.guildIds.length > 0 && !command.guildIds.includes(message.guildId ?? '')) {
+      this.logger.debug(`handle - Ignoring ${command.getName()}, which isn't registered in this guild`);
+      return;
+    }
+
+    const declared = (command.getRegistrationData() as RESTPostAPIChatInputApplicationCommandsJSONBody).options ?? [];
+    const t = I18n.translator(I18n.resolveLocale(message.guild?.preferredLocale));
+    const result = await MessageArguments.parse(message, declared, tokens.slice(1), prefixed.input, t);
+
+    if (!result.valid) {
+      const usage = MessageArguments.formatUsage(prefixed.prefix, command.getName(), declared, result.path);
+      this.logger.debug(`handle - Invalid arguments for ${command.getName()}: ${result.reason}`);
+      await message.reply({
+        content: `❌ ${result.reason}\n${t('messageCommands.usage', { usage })}`,
+        allowedMentions: { repliedUser: false }
+      });
+      return;
+    }
+
+    await this.run(new MessageCommandInteraction(message, command.getName(), result.options));
+  }
+
+  /**
+   * Remove the guild's prefix or a mention of the bot from the start of a message
+   * @returns The prefix as shown in usage hints and the rest of the message, or undefined if it has no prefix
+   */
+  private async stripPrefix(message: Message): Promise<{ prefix: string; input: string } | undefined> {
+    const prefix = await MessageCommandHandler.getPrefix(message.guildId);
+    if (message.content.startsWith(prefix)) {
+      return { prefix, input: message.content.slice(prefix.length) };
+    }
+
+    const botId = message.client.user.id;
+    const mention = new RegExp(`^<@!?${botId}>\\s*`).exec(message.content);
+    if (mention && messageCommandsConfig.get().mention) {
+      return { prefix: `@${message.client.user.username} `, input: message.content.slice(mention[0].length) };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,324 @@
+import {
+  APIChatInputApplicationCommandInteraction,
+  APIModalInteractionResponseCallbackData,
+  ApplicationCommandType,
+  Attachment,
+  ChatInputCommandInteraction,
+  Collection,
+  CommandInteractionOption,
+  CommandInteractionOptionResolver,
+  CommandInteractionResolvedData,
+  DiscordAPIError,
+  DiscordjsError,
+  DiscordjsErrorCodes,
+  InteractionCallbackResponse,
+  InteractionContextType,
+  InteractionDeferReplyOptions,
+  InteractionEditReplyOptions,
+  InteractionReplyOptions,
+  InteractionResponse,
+  InteractionResponseType,
+  InteractionType,
+  JSONEncodable,
+  Locale,
+  Message,
+  MessageEditOptions,
+  MessageFlags,
+  MessageFlagsBitField,
+  MessageFlagsResolvable,
+  MessagePayload,
+  MessageReplyOptions,
+  MessageResolvable,
+  ModalComponentData,
+  RESTJSONErrorCodes,
+  Snowflake,
+  User
+} from 'discord.js';
+import { I18n } from '../services/I18n.js';
+
+type ModalData = JSONEncodable<APIModalInteractionResponseCallbackData> | ModalComponentData | APIModalInteractionResponseCallbackData;
+
+/**
+ * A chat input command run from a prefixed message, so Command classes work unchanged
+ *
+ * Options come from MessageArguments instead of Discord, and replies are sent as replies
+ * to the message. Ephemeral replies can't be hidden in a channel, so in servers they are sent
+ * to the user by DM with a short notice in the channel, and modals can't be shown, so showModal
+ * explains that the command needs to be used as a slash command
+ */
+export class MessageCommandInteraction extends ChatInputCommandInteraction {
+  /** The message the command was run from */
+  public readonly sourceMessage: Message;
+  private replyMessage: Message | null = null;
+  /** Replies sent by DM, which can't be fetched from the channel */
+  private directMessages = new Map<Snowflake, Message>();
+  private notifiedOfDirectMessage = false;
+
+  constructor(message: Message, commandName: string, options: CommandInteractionOption[]) {
+    const { client, channel, guild } = message;
+
+    super(client, {
+      id: message.id,
+      application_id: client.application?.id ?? client.user.id,
+      type: InteractionType.ApplicationCommand,
+      token: '',
+      version: 1,
+      channel: { id: channel.id, type: channel.type },
+      guild_id: guild?.id,
+      user: { id: message.author.id },
+      app_permissions: (guild?.members.me?.permissionsIn(channel.id).bitfield ?? 0n).toString(),
+      locale: guild?.preferredLocale ?? I18n.getDefaultLocale() as Locale,
+      guild_locale: guild?.preferredLocale,
+      entitlements: [],
+      authorizing_integration_owners: {},
+      context: guild ? InteractionContextType.Guild : InteractionContextType.BotDM,
+      data: { id: message.id, name: commandName, type: ApplicationCommandType.ChatInput }
+    } as unknown as APIChatInputApplicationCommandInteraction);
+
+    this.sourceMessage = message;
+    this.user = message.author;
+    this.member = message.member;
+    this.memberPermissions = message.member?.permissionsIn(channel.id) ?? null;
+    // discord.js' option resolver has an internal constructor
+    this.options = Reflect.construct(CommandInteractionOptionResolver, [client, options, MessageCommandInteraction.collectResolved(options)]);
+  }
+
+  public override reply(options: InteractionReplyOptions & { withResponse: true }): Promise<InteractionCallbackResponse>;
+  /** @deprecated `fetchReply` is deprecated. Use `withResponse` instead or fetch the response after using the method. */
+  public override reply(options: InteractionReplyOptions & { fetchReply: true }): Promise<Message>;
+  public override reply(options: string | MessagePayload | InteractionReplyOptions): Promise<InteractionResponse>;
+  public override async reply(
+    options: string | MessagePayload | InteractionReplyOptions
+  ): Promise<InteractionCallbackResponse | Message | InteractionResponse> {
+    if (this.deferred || this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionAlreadyReplied);
+
+    this.ephemeral = MessageCommandInteraction.isEphemeral(options);
+    this.replyMessage = await this.send(options, this.ephemeral);
+    this.replied = true;
+
+    return this.respond(options, this.replyMessage);
+  }
+
+  /**
+   * Show the typing indicator; the reply is sent by editReply
+   */
+  public override deferReply(options: InteractionDeferReplyOptions & { withResponse: true }): Promise<InteractionCallbackResponse>;
+  /** @deprecated `fetchReply` is deprecated. Use `withResponse` instead or fetch the response after using the method. */
+  public override deferReply(options: InteractionDeferReplyOptions & { fetchReply: true }): Promise<Message>;
+  public override deferReply(options?: InteractionDeferReplyOptions): Promise<InteractionResponse>;
+  public override async deferReply(
+    options: InteractionDeferReplyOptions = {}
+  ): Promise<InteractionCallbackResponse | Message | InteractionResponse> {
+    if (this.deferred || this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionAlreadyReplied);
+
+    this.ephemeral = MessageCommandInteraction.isEphemeral(options);
+    if (this.sourceMessage.channel.isSendable()) {
+      await this.sourceMessage.channel.sendTyping();
+    }
+    this.deferred = true;
+
+    if (options.withResponse || ('fetchReply' in options && options.fetchReply)) {
+      // There's no message until editReply, so send a placeholder like Discord's "thinking" message
+      this.replyMessage = await this.send({ content: '…' }, this.ephemeral);
+      return this.respond(options, this.replyMessage);
+    }
+    return MessageCommandInteraction.createResponse(this);
+  }
+
+  /**
+   * Edit the reply, or send it if the command was deferred
+   */
+  public override async editReply(options: string | MessagePayload | InteractionEditReplyOptions): Promise<Message> {
+    if (!this.deferred && !this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionNotReplied);
+
+    const target = typeof options === 'object' && 'message' in options && options.message ? options.message : '@original';
+    const message = this.isOriginal(target) ? this.replyMessage : await this.fetchReply(typeof target === 'string' ? target : target.id);
+
+    this.replied = true;
+    if (!message) {
+      this.replyMessage = await this.send(options, this.ephemeral ?? false);
+      return this.replyMessage;
+    }
+    return message.edit(MessageCommandInteraction.toMessageOptions(options) as MessageEditOptions | MessagePayload);
+  }
+
+  public override async followUp(options: string | MessagePayload | InteractionReplyOptions): Promise<Message> {
+    if (!this.deferred && !this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionNotReplied);
+    return this.send(options, MessageCommandInteraction.isEphemeral(options));
+  }
+
+  public override async fetchReply(message: Snowflake | '@original' = '@original'): Promise<Message> {
+    if (this.isOriginal(message)) {
+      if (!this.replyMessage) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionNotReplied);
+      return this.replyMessage;
+    }
+    return this.directMessages.get(message) ?? this.sourceMessage.channel.messages.fetch(message);
+  }
+
+  public override async deleteReply(message: MessageResolvable | '@original' = '@original'): Promise<void> {
+    if (!this.deferred && !this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionNotReplied);
+
+    if (this.isOriginal(message)) {
+      await this.replyMessage?.delete();
+      this.replyMessage = null;
+      return;
+    }
+
+    const directMessage = this.directMessages.get(typeof message === 'string' ? message : message.id);
+    if (directMessage) {
+      await directMessage.delete();
+      return;
+    }
+    await this.sourceMessage.channel.messages.delete(message);
+  }
+
+  /**
+   * Reply that the command needs to be used as a slash command, since messages can't open modals
+   */
+  public override showModal(modal: ModalData, options: { withResponse: true }): Promise<InteractionCallbackResponse>;
+  public override showModal(modal: ModalData, options?: { withResponse: true }): Promise<InteractionCallbackResponse>;
+  public override showModal(modal: ModalData, options?: { withResponse?: boolean }): Promise<undefined>;
+  public override async showModal(
+    _modal: ModalData,
+    options: { withResponse?: boolean } = {}
+  ): Promise<InteractionCallbackResponse | undefined> {
+    if (this.deferred || this.replied) throw MessageCommandInteraction.createError(DiscordjsErrorCodes.InteractionAlreadyReplied);
+
+    const t = I18n.forInteraction(this);
+    this.replyMessage = await this.send({ content: t('messageCommands.slashOnly', { command: this.commandName }) }, false);
+    this.replied = true;
+
+    return options.withResponse ? this.respond({ withResponse: true }, this.replyMessage) as InteractionCallbackResponse : undefined;
+  }
+
+  /**
+   * Convert interaction reply options to message options
+   */
+  private static toMessageOptions(options: string | MessagePayload | InteractionReplyOptions | InteractionEditReplyOptions): MessageReplyOptions | MessagePayload {
+    if (options instanceof MessagePayload) return options;
+    if (typeof options === 'string') return { content: options, allowedMentions: { repliedUser: false } };
+
+    const { flags, ...rest } = options;
+    const messageOptions: Record<string, unknown> = { ...rest, allowedMentions: { ...options.allowedMentions, repliedUser: false } };
+    for (const key of ['ephemeral', 'fetchReply', 'withResponse', 'message']) {
+      delete messageOptions[key];
+    }
+    if (flags !== undefined) {
+      messageOptions.flags = new MessageFlagsBitField(flags as MessageFlagsResolvable).remove(MessageFlags.Ephemeral).bitfield;
+    }
+
+    return messageOptions as MessageReplyOptions;
+  }
+
+  private static isEphemeral(options: string | MessagePayload | InteractionReplyOptions | InteractionDeferReplyOptions): boolean {
+    if (typeof options === 'string' || options instanceof MessagePayload) return false;
+    return ('ephemeral' in options && options.ephemeral) || new MessageFlagsBitField(options.flags as MessageFlagsResolvable | undefined).has(MessageFlags.Ephemeral);
+  }
+
+  /**
+   * Create the error discord.js throws for responses in the wrong state (its constructor is internal)
+   */
+  private static createError(code: DiscordjsErrorCodes): Error {
+    return Reflect.construct(DiscordjsError, [code]);
+  }
+
+  private static createResponse(interaction: MessageCommandInteraction, id?: Snowflake): InteractionResponse {
+    return Reflect.construct(InteractionResponse, [interaction, id]);
+  }
+
+  /**
+   * Resolved users, members, channels, roles and attachments of the options, as Discord sends them with interactions
+   */
+  private static collectResolved(options: readonly CommandInteractionOption[]): CommandInteractionResolvedData {
+    const users = new Collection<Snowflake, User>();
+    const members = new Collection<Snowflake, NonNullable<CommandInteractionOption['member']>>();
+    const channels = new Collection<Snowflake, NonNullable<CommandInteractionOption['channel']>>();
+    const roles = new Collection<Snowflake, NonNullable<CommandInteractionOption['role']>>();
+    const attachments = new Collection<Snowflake, Attachment>();
+
+    const collect = (option: CommandInteractionOption) => {
+      if (option.user) users.set(option.user.id, option.user);
+      if (option.user && option.member) members.set(option.user.id, option.member);
+      if (option.channel) channels.set(option.channel.id, option.channel);
+      if (option.role) roles.set(option.role.id, option.role);
+      if (option.attachment) attachments.set(option.attachment.id, option.attachment);
+      option.options?.forEach(collect);
+    };
+    options.forEach(collect);
+
+    return { users, members, channels, roles, attachments };
+  }
+
+  /**
+   * Whether a message refers to the reply; InteractionResponse uses the interaction's ID for it
+   */
+  private isOriginal(message: MessageResolvable | '@original'): boolean {
+    const id = typeof message === 'string' ? message : message.id;
+    return id === '@original' || id === this.id || id === this.replyMessage?.id;
+  }
+
+  /**
+   * Reply to the message, or send an ephemeral reply to the user by DM so the channel doesn't see it
+   * DMs are already private, so ephemeral replies there are sent as normal replies
+   */
+  private async send(options: string | MessagePayload | InteractionReplyOptions | InteractionEditReplyOptions, ephemeral: boolean): Promise<Message> {
+    const messageOptions = MessageCommandInteraction.toMessageOptions(options);
+    if (ephemeral && this.sourceMessage.inGuild()) {
+      return this.sendDirectMessage(messageOptions);
+    }
+
+    return this.replyToSource(messageOptions);
+  }
+
+  private async sendDirectMessage(messageOptions: MessageReplyOptions | MessagePayload): Promise<Message> {
+    const t = I18n.forInteraction(this);
+
+    let message: Message;
+    try {
+      message = await this.user.send(messageOptions);
+    } catch (error) {
+      if (!(error instanceof DiscordAPIError) || error.code !== RESTJSONErrorCodes.CannotSendMessagesToThisUser) throw error;
+      // Never fall back to posting the private reply in the channel
+      return this.replyToSource({ content: t('messageCommands.directMessageFailed') });
+    }
+
+    this.directMessages.set(message.id, message);
+    if (!this.notifiedOfDirectMessage) {
+      this.notifiedOfDirectMessage = true;
+      await this.replyToSource({ content: t('messageCommands.sentByDirectMessage') });
+    }
+    return message;
+  }
+
+  private async replyToSource(options: MessageReplyOptions | MessagePayload): Promise<Message> {
+    if (options instanceof MessagePayload) return this.sourceMessage.reply(options);
+    // The command's message may be deleted while it runs
+    return this.sourceMessage.reply({ allowedMentions: { repliedUser: false }, ...options, failIfNotExists: false });
+  }
+
+  /**
+   * Return what discord.js would have for the reply options: the callback response, the message or an InteractionResponse
+   */
+  private respond(options: string | MessagePayload | InteractionReplyOptions | InteractionDeferReplyOptions, message: Message) {
+    if (typeof options === 'object' && 'withResponse' in options && options.withResponse) {
+      const response: InteractionCallbackResponse = Reflect.construct(InteractionCallbackResponse, [this.client, {
+        interaction: {
+          id: this.id,
+          type: this.type,
+          response_message_id: message.id,
+          response_message_loading: this.deferred,
+          response_message_ephemeral: false
+        },
+        resource: { type: InteractionResponseType.ChannelMessageWithSource }
+      }]);
+      response.resource!.message = message;
+      return response;
+    }
+
+    if (typeof options === 'object' && 'fetchReply' in options && options.fetchReply) {
+      return message;
+    }
+
+    return MessageCommandInteraction.createResponse(this, message.id);
+  }
+}
@@ -0,0 +1,152 @@
+import { Command, CommandInvocation, ComponentInteraction } from './Command.js';
+import { CommandContext } from './CommandContext.js';
+import { InferOptions, OptionSchema } from './CommandOptions.js';
+import { LogFields, Logger } from '../services/Logger.js';
+
+/**
+ * State for one command or component invocation as it passes through the middleware pipeline
+ */
+export interface MiddlewareContext {
+  /** The interaction being handled */
+  readonly interaction: CommandInvocation | ComponentInteraction;
+
+  /** The command that owns the interaction */
+  readonly command: Command;
+
+  /** Component handler name, when a button, select menu or modal is being handled */
+  readonly handler?: string;
+
+  /** Context handed to validate, execute and component handlers */
+  readonly commandContext: CommandContext;
+
+  /** Parsed options passed to execute, filled in by validation */
+  args: InferOptions<OptionSchema>;
+
+  /** Values shared between middleware, e.g. a detected locale */
+  readonly state: Map<string, unknown>;
+
+  /** When handling started (ms since epoch) */
+  readonly startedAt: number;
+
+  /** Whether a middleware stopped the invocation before it ran */
+  halted: boolean;
+
+  /**
+   * Send an ephemeral message, following up if the interaction was already answered
+   */
+  reply(content: string): Promise<void>;
+}
+
+/**
+ * Returned from before() to stop the invocation, optionally replying to the user
+ */
+export interface MiddlewareHalt {
+  halt: true;
+  reply?: string;
+}
+
+/**
+ * Hooks that run around every command and component handler
+ * before() hooks run in registration order, after() and onError() hooks in reverse
+ */
+export interface Middleware {
+  /** Name used in logs */
+  readonly name: string;
+
+  /**
+   * Runs before the command; return a MiddlewareHalt to stop here
+   */
+  before?(context: MiddlewareContext): Promise<MiddlewareHalt | void>;
+
+  /**
+   * Runs after the command finished or a later middleware halted it (see context.halted)
+   * Errors thrown here are logged and don't reach onError hooks or other after() hooks
+   */
+  after?(context: MiddlewareContext): Promise<void>;
+
+  /**
+   * Runs when the command or a before() hook throws; return true once the error is handled to skip earlier middleware
+   */
+  onError?(context: MiddlewareContext, error: unknown): Promise<boolean | void>;
+}
+
+/**
+ * Ordered list of middleware wrapped around an invocation
+ */
+export class MiddlewarePipeline {
+  private logger = new Logger({ context: 'MiddlewarePipeline' });
+  private middleware: Middleware[] = [];
+
+  /**
+   * Add middleware to the end of the pipeline (closest to the command)
+   */
+  public use(...middleware: Middleware[]): void {
+    this.middleware.push(...middleware);
+  }
+
+  /**
+   * Get the middleware in order
+   */
+  public getMiddleware(): readonly Middleware[] {
+    return this.middleware;
+  }
+
+  /**
+   * Structured log fields describing an invocation
+   */
+  public static getLogFields(context: MiddlewareContext): LogFields {
+    return {
+      command: context.command.getName(),
+      handler: context.handler,
+      guildId: context.interaction.guildId,
+      userId: context.interaction.user.id,
+      durationMs: Date.now() - context.startedAt
+    };
+  }
+
+  /**
+   * Run the invocation through every middleware
+   * @throws The original error if no onError hook handles it
+   */
+  public async run(context: MiddlewareContext, invoke: () => Promise<void>): Promise<void> {
+    const entered: Middleware[] = [];
+
+    try {
+      for (const middleware of this.middleware) {
+        entered.push(middleware);
+
+        const result = await middleware.before?.(context);
+        if (result?.halt) {
+          context.halted = true;
+          if (result.reply) {
+            await context.reply(result.reply);
+          }
+          break;
+        }
+      }
+
+      if (!context.halted) {
+        await invoke();
+      }
+    } catch (error) {
+      for (const middleware of [...entered].reverse()) {
+        if (await middleware.onError?.(context, error)) {
+          return;
+        }
+      }
+
+      throw error;
+    }
+
+    // The invocation already succeeded, so a failing after() hook is only logged
+    for (const middleware of [...entered].reverse()) {
+      try {
+        await middleware.after?.(context);
+      } catch (error) {
+        this.logger
+          .with(MiddlewarePipeline.getLogFields(context))
+          .error(`run - after() hook of ${middleware.name} middleware failed:`, error);
+      }
+    }
+  }
+}
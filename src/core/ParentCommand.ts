@@ -0,0 +1,157 @@
+import {
+  ApplicationCommandOptionChoiceData,
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  GatewayIntentBits,
+  Interaction,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder
+} from 'discord.js';
+import { Command, ValidationResult } from './Command.js';
+import { CommandContext } from './CommandContext.js';
+import { CommandOptions, InferOptions, OptionSchema } from './CommandOptions.js';
+import { Subcommand, SubcommandGroup } from './Subcommand.js';
+import { I18n } from '../services/I18n.js';
+import { ServiceToken } from '../services/ServiceContainer.js';
+
+/**
+ * A subcommand together with the path used to invoke it, e.g. 'test' or 'group test'
+ */
+export interface SubcommandEntry {
+  path: string;
+  subcommand: Subcommand;
+}
+
+/**
+ * Base class for slash commands made of subcommands
+ * The subcommands are added to data at registration and each invocation is dispatched to the matching one,
+ * after checking the subcommand's own restrictions and parsing its options
+ */
+export abstract class ParentCommand extends Command {
+  /** Command metadata for Discord registration (name and description only, subcommands are added automatically) */
+  public abstract readonly data: SlashCommandBuilder;
+
+  /** Subcommands and subcommand groups, in the order Discord should show them */
+  public abstract readonly subcommands: (Subcommand | SubcommandGroup)[];
+
+  /**
+   * Dispatch to the invoked subcommand
+   */
+  public async execute(interaction: ChatInputCommandInteraction, args: InferOptions<OptionSchema>, context: CommandContext): Promise<void> {
+    const subcommand = this.resolveSubcommand(interaction);
+    if (!subcommand) {
+      throw new Error(`Command ${this.getName()} has no subcommand ${ParentCommand.getInvokedPath(interaction)}`);
+    }
+
+    await subcommand.execute(interaction, args, context);
+  }
+
+  /**
+   * Find the subcommand an interaction invokes
+   */
+  public resolveSubcommand(interaction: ChatInputCommandInteraction | AutocompleteInteraction): Subcommand | undefined {
+    return this.findSubcommand(ParentCommand.getInvokedPath(interaction));
+  }
+
+  /**
+   * Find a subcommand by path, e.g. 'test' or 'group test' (case-insensitive)
+   */
+  public findSubcommand(path: string): Subcommand | undefined {
+    const normalized = path.trim().toLowerCase().split(/\s+/).join(' ');
+    return this.getSubcommandEntries().find(entry => entry.path === normalized)?.subcommand;
+  }
+
+  /**
+   * List every subcommand with its path, flattening groups
+   */
+  public getSubcommandEntries(): SubcommandEntry[] {
+    return this.subcommands.flatMap(entry =>
+      entry instanceof SubcommandGroup
+        ? entry.subcommands.map(subcommand => ({ path: `${entry.name} ${subcommand.name}`, subcommand }))
+        : [{ path: entry.name, subcommand: entry }]
+    );
+  }
+
+  /**
+   * Include the dependencies of every subcommand
+   */
+  public getDependencies(): ServiceToken<unknown>[] {
+    return [
+      ...super.getDependencies(),
+      ...this.getSubcommandEntries().flatMap(entry => entry.subcommand.dependencies)
+    ];
+  }
+
+  /**
+   * Include the intents of every subcommand
+   */
+  public getIntents(): GatewayIntentBits[] {
+    return [
+      ...super.getIntents(),
+      ...this.getSubcommandEntries().flatMap(entry => entry.subcommand.intents)
+    ];
+  }
+
+  public hasAutocomplete(): boolean {
+    return super.hasAutocomplete() ||
+      this.getSubcommandEntries().some(entry => Object.keys(entry.subcommand.autocompleteHandlers).length > 0);
+  }
+
+  /**
+   * Route autocomplete to the invoked subcommand's handler first, then to the command's own handlers
+   */
+  public async resolveAutocomplete(interaction: AutocompleteInteraction, context: CommandContext): Promise<ApplicationCommandOptionChoiceData[]> {
+    const focused = interaction.options.getFocused(true);
+    const handler = this.resolveSubcommand(interaction)?.autocompleteHandlers[focused.name];
+
+    if (handler) {
+      return handler(interaction, focused, context);
+    }
+
+    return super.resolveAutocomplete(interaction, context);
+  }
+
+  public getRegistrationData(): RESTPostAPIChatInputApplicationCommandsJSONBody {
+    const data = super.getRegistrationData() as RESTPostAPIChatInputApplicationCommandsJSONBody;
+    data.options = [
+      ...(data.options ?? []),
+      ...this.subcommands.map(entry => entry.toBuilder().toJSON())
+    ];
+    return I18n.localizeCommand(data);
+  }
+
+  /**
+   * Check the invoked subcommand's restrictions and parse its options
+   */
+  protected validateOptions(interaction: Interaction, context: CommandContext): ValidationResult {
+    if (!interaction.isChatInputCommand() && !interaction.isAutocomplete()) {
+      return { valid: true };
+    }
+
+    const subcommand = this.resolveSubcommand(interaction);
+    if (!subcommand) {
+      return { valid: false, reason: I18n.forInteraction(interaction)('validation.unknownSubcommand') };
+    }
+
+    const restrictions = Command.checkRestrictions(interaction, subcommand, context);
+    if (!restrictions.valid) {
+      return restrictions;
+    }
+
+    if (!subcommand.options || !interaction.isChatInputCommand()) {
+      return { valid: true };
+    }
+
+    const result = CommandOptions.parse(interaction, subcommand.options);
+    return result.valid ? { valid: true, args: result.args } : { valid: false, reason: result.reason };
+  }
+
+  /**
+   * Get the invoked subcommand path, including the group if there is one
+   */
+  private static getInvokedPath(interaction: ChatInputCommandInteraction | AutocompleteInteraction): string {
+    const group = interaction.options.getSubcommandGroup(false);
+    const subcommand = interaction.options.getSubcommand(false);
+    return [group, subcommand].filter(Boolean).join(' ');
+  }
+}
@@ -0,0 +1,120 @@
+import { Shard, ShardingManager } from 'discord.js';
+import { Environment } from '../services/Environment.js';
+import { Config } from '../services/Config.js';
+import { Logger } from '../services/Logger.js';
+
+/**
+ * Settings for running the bot as several shard processes
+ */
+export const shardingConfig = Environment.defineSection('sharding', {
+  enabled: Config.bool({
+    env: 'SHARDING',
+    description: 'Run each gateway shard in its own process (gateway mode only, needs STORAGE_DRIVER=sqlite or memory)',
+    default: 'false'
+  }),
+  // Not SHARD_COUNT: discord.js reads that (and SHARDS) to configure the client in shard processes
+  count: Config.string({
+    env: 'TOTAL_SHARDS',
+    description: 'Number of shards, or auto to use the count recommended by Discord',
+    default: 'auto',
+    pattern: /^(auto|[1-9]\d*)$/
+  }),
+  respawn: Config.bool({
+    env: 'SHARD_RESPAWN',
+    description: 'Restart shard processes that exit unexpectedly',
+    default: 'true'
+  })
+});
+
+/**
+ * Options for the shard launcher
+ */
+export interface ShardLauncherOptions {
+  /** Compiled entry script each shard process runs */
+  file: string;
+  token: string;
+  /** Number of shards, or 'auto' for Discord's recommendation */
+  totalShards: number | 'auto';
+  /** Restart shard processes that exit unexpectedly */
+  respawn: boolean;
+}
+
+/**
+ * Spawns one process per shard with discord.js' ShardingManager and logs their lifecycle
+ * Each process runs the normal entry point; discord.js passes the shard ID through the environment
+ */
+export class ShardLauncher {
+  private logger = new Logger({ context: 'ShardLauncher' });
+  private manager: ShardingManager;
+
+  constructor(options: ShardLauncherOptions) {
+    this.manager = new ShardingManager(options.file, {
+      token: options.token,
+      totalShards: options.totalShards,
+      respawn: options.respawn
+    });
+
+    this.manager.on('shardCreate', shard => this.watchShard(shard));
+  }
+
+  /**
+   * Whether this process was spawned by a ShardLauncher
+   */
+  public static isShardProcess(): boolean {
+    return process.env.SHARDING_MANAGER === 'true';
+  }
+
+  /**
+   * Parse TOTAL_SHARDS
+   */
+  public static parseShardCount(count: string): number | 'auto' {
+    return count === 'auto' ? 'auto' : Number(count);
+  }
+
+  /**
+   * Spawn every shard, resolving once all of them are ready
+   */
+  public async start(): Promise<void> {
+    const shards = await this.manager.spawn();
+    this.logger.info(`start - All ${shards.size} shards are ready`);
+  }
+
+  /**
+   * Stop every shard process without respawning them
+   */
+  public async stop(): Promise<void> {
+    this.manager.respawn = false;
+
+    for (const shard of this.manager.shards.values()) {
+      // Shards that already exited have no process left to kill
+      if (shard.process || shard.worker) {
+        shard.kill();
+      }
+    }
+
+    this.logger.info('stop - Stopped all shards');
+  }
+
+  /**
+   * Log a shard's lifecycle events with its ID
+   */
+  private watchShard(shard: Shard): void {
+    const logger = this.logger.with({ shardId: String(shard.id) });
+    logger.info(`watchShard - Launched shard ${shard.id + 1}/${this.manager.totalShards}`);
+
+    shard.on('spawn', () => logger.debug(`watchShard - Shard ${shard.id} process spawned`));
+    shard.on('ready', () => logger.info(`watchShard - Shard ${shard.id} is ready`));
+    shard.on('disconnect', () => logger.warn(`watchShard - Shard ${shard.id} disconnected`));
+    shard.on('reconnecting', () => logger.warn(`watchShard - Shard ${shard.id} is reconnecting`));
+    shard.on('resume', () => logger.info(`watchShard - Shard ${shard.id} resumed`));
+    shard.on('error', error => logger.error(`watchShard - Shard ${shard.id} error:`, error));
+    shard.on('death', child => {
+      const exitCode = 'exitCode' in child ? child.exitCode : null;
+      if (this.manager.respawn) {
+        logger.warn(`watchShard - Shard ${shard.id} exited with code ${exitCode}, respawning`);
+      } else {
+        logger.info(`watchShard - Shard ${shard.id} exited with code ${exitCode}`);
+      }
+    });
+  }
+}
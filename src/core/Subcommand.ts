@@ -0,0 +1,106 @@
+import {
+  ChatInputCommandInteraction,
+  GatewayIntentBits,
+  PermissionsString,
+  SlashCommandSubcommandBuilder,
+  SlashCommandSubcommandGroupBuilder
+} from 'discord.js';
+import { AutocompleteHandler, CommandRestrictions } from './Command.js';
+import { CommandContext } from './CommandContext.js';
+import { CommandOptions, InferOptions, OptionSchema } from './CommandOptions.js';
+import { ServiceToken } from '../services/ServiceContainer.js';
+
+/**
+ * Help information for subcommands
+ */
+export interface SubcommandHelpInfo {
+  description: string;
+  usage: string;
+  examples: string[];
+}
+
+/**
+ * A single subcommand with its own options, restrictions and handler
+ * Added to a ParentCommand, which builds it into the command data and dispatches to it
+ */
+export abstract class Subcommand<S extends OptionSchema = OptionSchema> implements CommandRestrictions {
+  /** Subcommand name as typed after the command */
+  public abstract readonly name: string;
+
+  /** Short description shown in Discord */
+  public abstract readonly description: string;
+
+  /** Optional declarative options, added to the builder and parsed into typed args automatically */
+  public readonly options?: S;
+
+  /** Help information for the help system */
+  public abstract readonly helpInfo: SubcommandHelpInfo;
+
+  // Restrictions, checked in addition to the parent command's
+  public readonly requiredPermissions: PermissionsString[] = [];
+  public readonly memberPermissions: PermissionsString[] = [];
+  public readonly allowedRoleIds: string[] = [];
+  public readonly allowedUserIds: string[] = [];
+  public readonly deniedRoleIds: string[] = [];
+  public readonly deniedUserIds: string[] = [];
+  public readonly guildOnly: boolean = false;
+  public readonly developerOnly: boolean = false;
+
+  /** Optional autocomplete handlers for this subcommand's options, keyed by option name */
+  public readonly autocompleteHandlers: Record<string, AutocompleteHandler> = {};
+
+  /** Services this subcommand gets from context.services */
+  public readonly dependencies: ServiceToken<unknown>[] = [];
+
+  /** Gateway intents beyond Guilds this subcommand relies on */
+  public readonly intents: GatewayIntentBits[] = [];
+
+  /**
+   * Execute the subcommand
+   * @param interaction The Discord interaction
+   * @param args Parsed and validated options (empty unless the subcommand declares options)
+   * @param context Config, logger, command manager, bot and services for this invocation
+   */
+  public abstract execute(interaction: ChatInputCommandInteraction, args: InferOptions<S>, context: CommandContext): Promise<void>;
+
+  /**
+   * Build the subcommand for registration
+   */
+  public toBuilder(): SlashCommandSubcommandBuilder {
+    const builder = new SlashCommandSubcommandBuilder()
+      .setName(this.name)
+      .setDescription(this.description);
+
+    return this.options ? CommandOptions.apply(builder, this.options) : builder;
+  }
+}
+
+/**
+ * A named group of subcommands, invoked as /command group subcommand
+ */
+export class SubcommandGroup {
+  public readonly name: string;
+  public readonly description: string;
+  public readonly subcommands: Subcommand[];
+
+  constructor(options: { name: string; description: string; subcommands: Subcommand[] }) {
+    this.name = options.name;
+    this.description = options.description;
+    this.subcommands = options.subcommands;
+  }
+
+  /**
+   * Build the group and its subcommands for registration
+   */
+  public toBuilder(): SlashCommandSubcommandGroupBuilder {
+    const builder = new SlashCommandSubcommandGroupBuilder()
+      .setName(this.name)
+      .setDescription(this.description);
+
+    for (const subcommand of this.subcommands) {
+      builder.addSubcommand(subcommand.toBuilder());
+    }
+
+    return builder;
+  }
+}
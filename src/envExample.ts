@@ -0,0 +1,30 @@
+import { writeFile } from 'node:fs/promises';
+import { Logger } from './services/Logger.js';
+import { Environment } from './services/Environment.js';
+
+// Importing these defines the config sections they contribute
+import './core/Bot.js';
+import './core/ShardLauncher.js';
+import './commands/index.js';
+import './events/index.js';
+
+const logger = new Logger({ context: 'EnvExample' });
+
+/**
+ * Write .env.example from every config section
+ *
+ * Usage: npm run env:example
+ */
+async function generateEnvExample() {
+  try {
+    const sections = Environment.getSections();
+    await writeFile('.env.example', Environment.generateEnvExample());
+    logger.info(`generateEnvExample - Wrote .env.example with ${sections.length} sections: ${sections.map(section => section.name).join(', ')}`);
+  } catch (error) {
+    logger.error('generateEnvExample - Error writing .env.example:', error);
+    process.exit(1);
+  }
+}
+
+// Run the generator
+generateEnvExample();
@@ -0,0 +1,15 @@
+import { Events, Guild } from 'discord.js';
+import { Event, EventContext } from '../core/Event.js';
+
+/**
+ * Log when the bot is added to a server
+ */
+export class GuildCreateEvent extends Event<Events.GuildCreate> {
+  public readonly name = Events.GuildCreate;
+
+  public async execute(context: EventContext, guild: Guild): Promise<void> {
+    context.logger
+      .with({ guildId: guild.id })
+      .info(`execute - Joined server ${guild.name} (${guild.memberCount} members)`);
+  }
+}
@@ -0,0 +1,21 @@
+import { Events, Guild } from 'discord.js';
+import { Event, EventContext } from '../core/Event.js';
+
+/**
+ * Log when the bot is removed from a server
+ */
+export class GuildDeleteEvent extends Event<Events.GuildDelete> {
+  public readonly name = Events.GuildDelete;
+
+  public async execute(context: EventContext, guild: Guild): Promise<void> {
+    const logger = context.logger.with({ guildId: guild.id });
+
+    // Outages also emit guildDelete, for servers that became unavailable rather than left
+    if (!guild.available) {
+      logger.warn('execute - Server became unavailable');
+      return;
+    }
+
+    logger.info(`execute - Left server ${guild.name}`);
+  }
+}
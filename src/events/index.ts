@@ -0,0 +1,19 @@
+import { Event } from '../core/Event.js';
+import { GuildCreateEvent } from './GuildCreateEvent.js';
+import { GuildDeleteEvent } from './GuildDeleteEvent.js';
+
+/**
+ * Central event handler registry - mirrors ALL_COMMANDS
+ * Add new handlers here; the intents they declare are requested automatically
+ */
+export const ALL_EVENTS: Event[] = [
+  new GuildCreateEvent(),
+  new GuildDeleteEvent(),
+  // Add new event handlers here
+];
+
+/**
+ * Export individual event handlers for type checking if needed
+ */
+export { GuildCreateEvent } from './GuildCreateEvent.js';
+export { GuildDeleteEvent } from './GuildDeleteEvent.js';
@@ -1,8 +1,14 @@
 import dotenv from 'dotenv';
+import { fileURLToPath } from 'node:url';
 import { Bot } from './core/Bot.js';
 import { Logger } from './services/Logger.js';
 import { Environment } from './services/Environment.js';
+import { ConfigError } from './services/Config.js';
+import { storageConfig } from './services/Storage.js';
+import { interactionsConfig } from './core/InteractionServer.js';
+import { ShardLauncher, shardingConfig } from './core/ShardLauncher.js';
 import { ALL_COMMANDS } from './commands/index.js';
+import { ALL_EVENTS } from './events/index.js';
 
 const logger = new Logger({ context: 'Main Index' });
 
@@ -17,11 +23,29 @@ async function main() {
      // Validate environment variables
      Environment.validate();
      const config = Environment.getConfig();
+     const interactions = interactionsConfig.get();
+     const sharding = shardingConfig.get();
 
-     logger.info(`Initializing bot with ${ALL_COMMANDS.length} commands`);
+     // With SHARDING, this process only supervises; each shard runs this file again as its own process
+     if (sharding.enabled && !ShardLauncher.isShardProcess()) {
+       if (interactions.mode === 'http') {
+         logger.warn('SHARDING is ignored when INTERACTIONS_MODE=http');
+       } else {
+         await launchShards(config.discordToken, sharding);
+         return;
+       }
+     }
 
-     // Create and start bot using centralized command registry
-     const bot = new Bot(config.discordToken, ALL_COMMANDS);
+     logger.info(`Initializing bot with ${ALL_COMMANDS.length} commands and ${ALL_EVENTS.length} event handlers`);
+
+     // Create and start bot using the centralized command and event registries
+     const bot = new Bot(config.discordToken, ALL_COMMANDS, ALL_EVENTS);
+
+     // Tag every log line of a shard process with its shard ID
+     const shard = bot.getClient().shard;
+     if (shard) {
+       Logger.configure({ fields: { shardId: shard.ids.join(',') } });
+     }
     
      // Graceful shutdown handling
      process.on('SIGINT', async () => {
@@ -36,8 +60,12 @@ async function main() {
        process.exit(0);
      });
 
-     // Start the bot
-     await bot.start();
+     // Start the bot over the gateway or as an HTTP interactions endpoint
+     if (interactions.mode === 'http') {
+       await bot.startHttp({ publicKey: interactions.publicKey!, port: interactions.port });
+     } else {
+       await bot.start();
+     }
      logger.info('Bot started successfully!');
 
    } catch (error) {
@@ -46,5 +74,39 @@ async function main() {
    }
 }
 
+/**
+ * Spawn one process per shard and stop them on shutdown
+ */
+async function launchShards(token: string, sharding: ReturnType<typeof shardingConfig.get>) {
+  // Every shard process would load the JSON file and rewrite it from its own copy, losing the others' changes
+  if (storageConfig.get().driver === 'json') {
+    throw new ConfigError(['STORAGE_DRIVER=json can\'t be used with SHARDING=true, use sqlite so every shard process shares the data']);
+  }
+
+  const launcher = new ShardLauncher({
+    file: fileURLToPath(import.meta.url),
+    token,
+    totalShards: ShardLauncher.parseShardCount(sharding.count),
+    respawn: sharding.respawn
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, async () => {
+      logger.info(`Received ${signal}, stopping shards...`);
+      await launcher.stop();
+      process.exit(0);
+    });
+  }
+
+  logger.info(`Launching ${sharding.count === 'auto' ? 'the recommended number of' : sharding.count} shards`);
+  try {
+    await launcher.start();
+  } catch (error) {
+    // Don't leave shards that did start running without a supervisor
+    await launcher.stop();
+    throw error;
+  }
+}
+
 // Run the bot
 main();
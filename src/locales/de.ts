@@ -0,0 +1,310 @@
+import { Locale } from 'discord.js';
+import type { LocaleCatalog } from '../services/I18n.js';
+
+const catalog: LocaleCatalog = {
+  locale: Locale.German,
+  messages: {
+    common: {
+      yes: 'Ja',
+      no: 'Nein',
+      requestedBy: 'Angefordert von {user}'
+    },
+    errors: {
+      commandFailed: '❌ Beim Ausführen dieses Befehls ist ein Fehler aufgetreten.',
+      interactionFailed: '❌ Beim Verarbeiten dieser Interaktion ist ein Fehler aufgetreten.',
+      componentUnavailable: '❌ Dieses Element ist nicht mehr verfügbar.',
+      interactionExpired: '⌛ Diese Interaktion ist abgelaufen. Bitte führe den Befehl erneut aus.'
+    },
+    validation: {
+      guildOnly: 'Dieser Befehl kann nur auf Servern verwendet werden.',
+      botMissingPermissions: 'Dem Bot fehlen benötigte Berechtigungen: {permissions}',
+      memberMissingPermissions: 'Du benötigst folgende Berechtigungen: {permissions}',
+      denied: 'Du darfst diesen Befehl nicht verwenden.',
+      roleRequired: 'Du hast keine Rolle, die diesen Befehl verwenden darf.',
+      developerOnly: 'Dieser Befehl ist nur für Entwickler.',
+      cooldown: 'Bitte warte noch {seconds}s, bevor du es erneut versuchst.',
+      unknownSubcommand: 'Unbekannter Unterbefehl.',
+      disabledInGuild: 'Dieser Befehl ist auf diesem Server deaktiviert.',
+      wrongChannel: 'Dieser Befehl kann nur in {channels} verwendet werden.'
+    },
+    options: {
+      missing: 'Die erforderliche Option „{name}“ fehlt.',
+      wrongType: 'Die Option „{name}“ hat den falschen Typ.',
+      unresolved: 'Die Option „{name}“ konnte nicht aufgelöst werden.',
+      notAChoice: 'Die Option „{name}“ muss eine der folgenden sein: {choices}.',
+      tooShort: 'Die Option „{name}“ muss mindestens {min} Zeichen lang sein.',
+      tooLong: 'Die Option „{name}“ darf höchstens {max} Zeichen lang sein.',
+      notInteger: 'Die Option „{name}“ muss eine ganze Zahl sein.',
+      outOfRange: 'Die Option „{name}“ muss zwischen {min} und {max} liegen.',
+      wrongChannelType: 'Die Option „{name}“ muss eine andere Kanalart sein.'
+    },
+    messageCommands: {
+      usage: '📋 Verwendung: `{usage}`',
+      unknownSubcommand: 'Unbekannter Unterbefehl „{name}“. Wähle einen von: {choices}.',
+      missingSubcommand: 'Wähle einen Unterbefehl: {choices}.',
+      tooManyArguments: 'Zu viele Argumente. Setze Text mit Leerzeichen in "Anführungszeichen".',
+      notANumber: 'Die Option „{name}“ muss eine Zahl sein.',
+      notABoolean: 'Die Option „{name}“ muss ja oder nein sein (yes/no).',
+      userNotFound: 'Option „{name}“: Kein Benutzer für „{value}“ gefunden.',
+      channelNotFound: 'Option „{name}“: Kein Kanal für „{value}“ gefunden.',
+      roleNotFound: 'Option „{name}“: Keine Rolle für „{value}“ gefunden.',
+      mentionableNotFound: 'Option „{name}“: Kein Benutzer und keine Rolle für „{value}“ gefunden.',
+      slashOnly: '❌ Dieser Teil von /{command} funktioniert nur als Slash-Befehl.',
+      sentByDirectMessage: '📬 Ich habe dir die Antwort als Direktnachricht geschickt.',
+      directMessageFailed: '❌ Diese Antwort ist privat, aber ich konnte dir keine Direktnachricht schicken. Erlaube Direktnachrichten von Servermitgliedern oder nutze den Slash-Befehl.'
+    },
+    help: {
+      commandNotFound: '❌ Befehl „{query}“ nicht gefunden.',
+      subcommandNotFound: '❌ Unterbefehl „{path}“ für /{command} nicht gefunden.',
+      title: '📖 Hilfe: {name}',
+      usage: '📋 Verwendung',
+      examples: '🎯 Beispiele',
+      category: '📂 Kategorie',
+      subcommands: '📚 Unterbefehle',
+      subcommandsFooter: 'Mit /help command:{command} <Unterbefehl> erhältst du Details zu einem Unterbefehl',
+      options: '⚙️ Optionen',
+      optional: '(optional)',
+      requiredPermissions: '🔒 Benötigte Berechtigungen',
+      requiredUserPermissions: '👤 Benötigte Benutzerberechtigungen',
+      access: '🎭 Zugriff',
+      allowedRoles: '**Erlaubte Rollen:** {list}',
+      allowedUsers: '**Erlaubte Benutzer:** {list}',
+      deniedRoles: '**Gesperrte Rollen:** {list}',
+      deniedUsers: '**Gesperrte Benutzer:** {list}',
+      restrictions: '⚠️ Einschränkungen',
+      serverOnly: 'Nur auf Servern',
+      developerOnly: 'Nur für Entwickler',
+      cooldown: 'Abklingzeit: {uses} pro {seconds}s ({scope})',
+      oneUse: '1 Nutzung',
+      uses: '{count} Nutzungen',
+      allTitle: '🤖 Bot-Befehle',
+      allDescription: 'Hier sind alle verfügbaren Befehle, nach Kategorie sortiert.\nWende dich für Wünsche an @PineFruit.',
+      allFooter: 'Mit /help command:<Name> erhältst du ausführliche Hilfe zu einem Befehl',
+      contextMenus: '🖱️ Kontextmenüs',
+      rightClickUser: '(Rechtsklick auf einen Benutzer)',
+      rightClickMessage: '(Rechtsklick auf eine Nachricht)'
+    },
+    config: {
+      unknownTarget: '❌ „{target}“ ist weder ein Befehl noch eine Kategorie.',
+      unknownCommand: '❌ „{target}“ ist kein Befehl.',
+      notConfigurable: '❌ /{command} kann nicht deaktiviert oder eingeschränkt werden.',
+      commandEnabled: '✅ /{command} ist aktiviert.',
+      commandDisabled: '🚫 /{command} ist deaktiviert.',
+      categoryEnabled: '✅ Die Kategorie {category} ist aktiviert.',
+      categoryDisabled: '🚫 Die Kategorie {category} ist deaktiviert.',
+      categoryStillDisabled: '⚠️ /{command} ist aktiviert, aber die Kategorie {category} ist weiterhin deaktiviert.',
+      restrictMissing: '❌ Wähle einen Kanal, eine Rolle oder beides.',
+      restricted: '✅ /{command} ist jetzt beschränkt auf:\n{list}',
+      unrestricted: '✅ /{command} kann in jedem Kanal von allen verwendet werden.',
+      reset: '✅ Alle Befehlseinstellungen für diesen Server wurden zurückgesetzt.',
+      prefixSet: '✅ Das Präfix für Nachrichtenbefehle ist jetzt `{prefix}`.',
+      prefixReset: '✅ Das Präfix für Nachrichtenbefehle ist wieder der Standard `{prefix}`.',
+      prefixInvalid: '❌ Das Präfix muss 1 bis 10 Zeichen lang sein und darf keine Leerzeichen enthalten.',
+      prefixDisabled: '⚠️ Nachrichtenbefehle sind für diesen Bot deaktiviert, daher hat das Präfix noch keine Wirkung.',
+      prefix: '💬 Präfix für Nachrichtenbefehle',
+      channels: '**Kanäle:** {list}',
+      roles: '**Rollen:** {list}',
+      title: '⚙️ Befehlseinstellungen',
+      noSettings: 'Alle Befehle sind aktiviert, ohne Kanal- oder Rollenbeschränkungen.',
+      disabledCommands: '🚫 Deaktivierte Befehle',
+      disabledCategories: '🚫 Deaktivierte Kategorien',
+      restrictions: '🔒 Beschränkungen',
+      none: 'Keine',
+      command: 'Befehl',
+      category: 'Kategorie'
+    },
+    ping: {
+      pinging: 'Pinge...',
+      pong: '🏓 **Pong!**\n📡 **Latenz:** {latency}ms\n💓 **API-Latenz:** {apiLatency}ms'
+    },
+    info: {
+      title: '🤖 Bot-Informationen',
+      description: 'Ein Discord-Bot, gebaut mit dem modularen Template-System',
+      statistics: '📊 Statistiken',
+      servers: '**Server:** {count}',
+      users: '**Benutzer:** {count}',
+      channels: '**Kanäle:** {count}',
+      uptime: '**Laufzeit:** {uptime}',
+      shard: '**Shard:** {ids} von {count}',
+      technical: '⚙️ Technik',
+      memory: '**Speicher:** {memory} MB',
+      ping: '**Ping:** {ping}ms'
+    },
+    example: {
+      userTitle: '👤 Benutzerinformationen',
+      userDescription: 'Informationen über {user}',
+      basicInfo: '📊 Allgemein',
+      username: '**Benutzername:** {username}',
+      displayName: '**Anzeigename:** {displayName}',
+      id: '**ID:** {id}',
+      bot: '**Bot:** {bot}',
+      dates: '📅 Daten',
+      accountCreated: '**Konto erstellt:** {date}',
+      joinedServer: '**Server beigetreten:** {date}',
+      notInServer: 'Nicht auf dem Server',
+      roles: '🎭 Rollen',
+      noRoles: 'Keine Rollen',
+      serverTitle: '🏰 Serverinformationen',
+      serverDescription: 'Informationen über {server}',
+      statistics: '📊 Statistiken',
+      members: '**Mitglieder:** {count}',
+      channels: '**Kanäle:** {count}',
+      roleCount: '**Rollen:** {count}',
+      emojis: '**Emojis:** {count}',
+      serverDetails: '👑 Serverdetails',
+      owner: '**Eigentümer:** {owner}',
+      created: '**Erstellt:** {date}',
+      verification: '**Verifizierung:** {level}',
+      boostLevel: '**Boost-Stufe:** {tier}',
+      serverDescriptionField: '📝 Beschreibung',
+      confirmQuestion: '❓ Möchtest du wirklich fortfahren?',
+      confirm: 'Bestätigen',
+      cancel: 'Abbrechen',
+      notYourConfirmation: '❌ Nur die Person, die den Befehl ausgeführt hat, kann antworten.',
+      confirmed: '✅ Bestätigt!',
+      cancelled: '🚫 Abgebrochen.',
+      feedbackTitle: 'Feedback',
+      feedbackLabel: 'Was möchtest du uns mitteilen?',
+      feedbackThanks: '📝 Danke für dein Feedback!\n>>> {message}'
+    },
+    dev: {
+      infoTitle: '🔧 Entwicklungsinformationen',
+      infoDescription: 'Interne Bot-Informationen für Entwickler',
+      environment: '🌍 Umgebung',
+      mode: '**Modus**: {mode}',
+      development: '**Entwicklung**: {value}',
+      production: '**Produktion**: {value}',
+      developers: '👥 Entwickler',
+      developerCount: '**Anzahl**: {count}',
+      developerIds: '**IDs**: {ids}',
+      noDevelopers: 'Keine konfiguriert',
+      process: '⚡ Prozess',
+      uptime: '**Laufzeit**: {seconds}s',
+      memory: '**Speicher**: {memory}MB',
+      shards: '🧩 Shards ({count})',
+      shard: '**#{id}**: {guilds} Server, {ping}ms, {memory}MB, seit {uptime}s',
+      moreShards: '…und {count} weitere',
+      testRunning: '🧪 Entwicklertest läuft...',
+      testCompleted: '✅ **Entwicklertest abgeschlossen!**\n\n⏱️ **Dauer**: {duration}ms\n🤖 **Bot-Status**: Betriebsbereit\n📡 **API-Latenz**: {apiLatency}ms\n🔧 **Umgebung**: {environment}'
+    }
+  },
+  commands: {
+    ping: {
+      description: 'Prüfen, ob der Bot antwortet',
+      help: { description: 'Prüft, ob der Bot antwortet, und zeigt die Latenz an' }
+    },
+    info: {
+      description: 'Informationen über den Bot abrufen',
+      help: { description: 'Zeigt ausführliche Informationen über den Bot, inklusive Statistiken und technischer Details' }
+    },
+    help: {
+      name: 'hilfe',
+      description: 'Hilfe zu den Bot-Befehlen erhalten',
+      help: { description: 'Zeigt Hilfe zu den Bot-Befehlen und ausführliche Anleitungen' },
+      options: {
+        command: { name: 'befehl', description: 'Ausführliche Hilfe zu einem bestimmten Befehl' }
+      }
+    },
+    dev: {
+      description: 'Entwicklerbefehl zum Testen und Debuggen',
+      help: { description: 'Entwicklerbefehl zum Testen, Debuggen und für Entwicklungsinformationen' },
+      subcommands: {
+        info: {
+          description: 'Entwicklungsinformationen anzeigen',
+          help: { description: 'Zeigt die Umgebung, die konfigurierten Entwickler und Prozessdetails' }
+        },
+        test: {
+          description: 'Einen Testbefehl ausführen',
+          help: { description: 'Antwortet, wartet kurz und bearbeitet die Antwort, mit Dauer und API-Latenz' }
+        }
+      }
+    },
+    example: {
+      name: 'beispiel',
+      description: 'Beispielbefehl mit erweiterten Funktionen',
+      help: { description: 'Beispielbefehl, der Unterbefehle, Optionen und erweiterte Funktionen zeigt' },
+      subcommands: {
+        user: {
+          name: 'benutzer',
+          description: 'Informationen über einen Benutzer abrufen',
+          help: { description: 'Zeigt Konto- und Mitgliedschaftsdetails zu einem Benutzer oder dir selbst' },
+          options: {
+            target: { name: 'ziel', description: 'Der Benutzer, über den du Informationen möchtest' }
+          }
+        },
+        server: {
+          description: 'Informationen über den Server abrufen',
+          help: { description: 'Zeigt Statistiken und Details zum aktuellen Server' }
+        },
+        confirm: {
+          name: 'bestaetigen',
+          description: 'Einen Bestätigungsdialog anzeigen',
+          help: { description: 'Zeigt Schaltflächen zum Bestätigen und Abbrechen, die nur du beantworten kannst' }
+        },
+        feedback: {
+          description: 'Ein Feedback-Formular öffnen',
+          help: { description: 'Öffnet ein Formular für Feedback, das dir privat angezeigt wird' }
+        }
+      }
+    },
+    config: {
+      description: 'Festlegen, welche Befehle auf diesem Server verwendet werden können',
+      help: { description: 'Befehle und Kategorien aktivieren oder deaktivieren und Befehle auf Kanäle oder Rollen beschränken' },
+      subcommands: {
+        view: {
+          description: 'Die Befehlseinstellungen dieses Servers anzeigen',
+          help: { description: 'Zeigt deaktivierte Befehle und Kategorien sowie die Kanal- und Rollenbeschränkungen' }
+        },
+        enable: {
+          description: 'Einen Befehl oder eine Kategorie auf diesem Server aktivieren',
+          help: { description: 'Aktiviert einen deaktivierten Befehl oder alle Befehle einer Kategorie wieder' },
+          options: { target: { name: 'ziel', description: 'Befehl oder Kategorie' } }
+        },
+        disable: {
+          description: 'Einen Befehl oder eine Kategorie auf diesem Server deaktivieren',
+          help: { description: 'Deaktiviert einen Befehl oder alle Befehle einer Kategorie. Deaktivierte Befehle werden in /help ausgeblendet' },
+          options: { target: { name: 'ziel', description: 'Befehl oder Kategorie' } }
+        },
+        restrict: {
+          description: 'Einen Befehl auf einen Kanal oder eine Rolle beschränken',
+          help: { description: 'Beschränkt einen Befehl auf einen Kanal, eine Rolle oder beides. Erneut ausführen, um weitere zu erlauben' },
+          options: {
+            command: { name: 'befehl', description: 'Zu beschränkender Befehl' },
+            channel: { name: 'kanal', description: 'Kanal, in dem der Befehl verwendet werden kann' },
+            role: { name: 'rolle', description: 'Rolle, die den Befehl verwenden kann' }
+          }
+        },
+        unrestrict: {
+          description: 'Eine Kanal- oder Rollenbeschränkung eines Befehls entfernen',
+          help: { description: 'Entfernt eine Kanal- oder Rollenbeschränkung, oder alle, wenn keine angegeben ist' },
+          options: {
+            command: { name: 'befehl', description: 'Zu beschränkender Befehl' },
+            channel: { name: 'kanal', description: 'Kanal, in dem der Befehl verwendet werden kann' },
+            role: { name: 'rolle', description: 'Rolle, die den Befehl verwenden kann' }
+          }
+        },
+        reset: {
+          description: 'Alle Befehlseinstellungen dieses Servers zurücksetzen',
+          help: { description: 'Aktiviert alle Befehle wieder und entfernt alle Kanal- und Rollenbeschränkungen sowie das eigene Präfix' }
+        },
+        prefix: {
+          description: 'Das Präfix für Nachrichtenbefehle festlegen',
+          help: { description: 'Legt das Präfix für Nachrichtenbefehle auf diesem Server fest, oder setzt es ohne Angabe auf den Standard zurück' },
+          options: { prefix: { name: 'praefix', description: 'Neues Präfix, z. B. ?' } }
+        }
+      }
+    },
+    'User Info': {
+      name: 'Benutzerinfo',
+      help: { description: 'Zeigt Informationen über einen Benutzer über das Rechtsklickmenü' }
+    }
+  },
+  categories: {
+    Utility: 'Werkzeuge',
+    Developer: 'Entwickler',
+    Example: 'Beispiele',
+    Admin: 'Verwaltung'
+  }
+};
+
+export default catalog;
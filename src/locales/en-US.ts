@@ -0,0 +1,199 @@
+import { Locale } from 'discord.js';
+import type { LocaleCatalog } from '../services/I18n.js';
+
+/**
+ * Default messages, and the set of keys every other catalog can translate
+ * Command names and descriptions come from the command classes, so they are not repeated here
+ */
+export const messages = {
+  common: {
+    yes: 'Yes',
+    no: 'No',
+    requestedBy: 'Requested by {user}'
+  },
+  errors: {
+    commandFailed: '❌ An error occurred while executing this command.',
+    interactionFailed: '❌ An error occurred while handling this interaction.',
+    componentUnavailable: '❌ This component is no longer available.',
+    interactionExpired: '⌛ This interaction has expired. Please run the command again.'
+  },
+  validation: {
+    guildOnly: 'This command can only be used in servers.',
+    botMissingPermissions: 'Bot missing required permissions: {permissions}',
+    memberMissingPermissions: 'You need the following permissions: {permissions}',
+    denied: 'You are not allowed to use this command.',
+    roleRequired: 'You don\'t have a role that can use this command.',
+    developerOnly: 'This command is for developers only.',
+    cooldown: 'You\'re on cooldown. Try again in {seconds}s.',
+    unknownSubcommand: 'Unknown subcommand.',
+    disabledInGuild: 'This command is disabled in this server.',
+    wrongChannel: 'This command can only be used in {channels}.'
+  },
+  options: {
+    missing: 'Missing required option "{name}".',
+    wrongType: 'Option "{name}" has the wrong type.',
+    unresolved: 'Option "{name}" could not be resolved.',
+    notAChoice: 'Option "{name}" must be one of: {choices}.',
+    tooShort: 'Option "{name}" must be at least {min} characters.',
+    tooLong: 'Option "{name}" must be at most {max} characters.',
+    notInteger: 'Option "{name}" must be a whole number.',
+    outOfRange: 'Option "{name}" must be between {min} and {max}.',
+    wrongChannelType: 'Option "{name}" must be a different kind of channel.'
+  },
+  messageCommands: {
+    usage: '📋 Usage: `{usage}`',
+    unknownSubcommand: 'Unknown subcommand "{name}". Choose one of: {choices}.',
+    missingSubcommand: 'Choose a subcommand: {choices}.',
+    tooManyArguments: 'Too many arguments. Put text with spaces in "quotes".',
+    notANumber: 'Option "{name}" must be a number.',
+    notABoolean: 'Option "{name}" must be yes or no.',
+    userNotFound: 'Option "{name}": no user found for "{value}".',
+    channelNotFound: 'Option "{name}": no channel found for "{value}".',
+    roleNotFound: 'Option "{name}": no role found for "{value}".',
+    mentionableNotFound: 'Option "{name}": no user or role found for "{value}".',
+    slashOnly: '❌ This part of /{command} only works as a slash command.',
+    sentByDirectMessage: '📬 I sent you the reply in a direct message.',
+    directMessageFailed: '❌ This reply is private, but I couldn\'t send you a direct message. Allow direct messages from server members, or use the slash command.'
+  },
+  help: {
+    commandNotFound: '❌ Command "{query}" not found.',
+    subcommandNotFound: '❌ Subcommand "{path}" not found for /{command}.',
+    title: '📖 Help: {name}',
+    usage: '📋 Usage',
+    examples: '🎯 Examples',
+    category: '📂 Category',
+    subcommands: '📚 Subcommands',
+    subcommandsFooter: 'Use /help command:{command} <subcommand> for details on a subcommand',
+    options: '⚙️ Options',
+    optional: '(optional)',
+    requiredPermissions: '🔒 Required Permissions',
+    requiredUserPermissions: '👤 Required User Permissions',
+    access: '🎭 Access',
+    allowedRoles: '**Allowed roles:** {list}',
+    allowedUsers: '**Allowed users:** {list}',
+    deniedRoles: '**Denied roles:** {list}',
+    deniedUsers: '**Denied users:** {list}',
+    restrictions: '⚠️ Restrictions',
+    serverOnly: 'Server only',
+    developerOnly: 'Developer only',
+    cooldown: 'Cooldown: {uses} per {seconds}s ({scope})',
+    oneUse: '1 use',
+    uses: '{count} uses',
+    allTitle: '🤖 Bot Commands',
+    allDescription: 'Here are all available commands, organized by category.\nReach out to @PineFruit for any future requests.',
+    allFooter: 'Use /help command:<name> for detailed help on a specific command',
+    contextMenus: '🖱️ Context Menus',
+    rightClickUser: '(right-click a user)',
+    rightClickMessage: '(right-click a message)'
+  },
+  config: {
+    unknownTarget: '❌ "{target}" is not a command or category.',
+    unknownCommand: '❌ "{target}" is not a command.',
+    notConfigurable: '❌ /{command} can\'t be disabled or restricted.',
+    commandEnabled: '✅ /{command} is enabled.',
+    commandDisabled: '🚫 /{command} is disabled.',
+    categoryEnabled: '✅ The {category} category is enabled.',
+    categoryDisabled: '🚫 The {category} category is disabled.',
+    categoryStillDisabled: '⚠️ /{command} is enabled, but its category {category} is still disabled.',
+    restrictMissing: '❌ Choose a channel, a role or both.',
+    restricted: '✅ /{command} is now limited to:\n{list}',
+    unrestricted: '✅ /{command} can be used in any channel by anyone.',
+    reset: '✅ All command settings for this server were reset.',
+    prefixSet: '✅ The message command prefix is now `{prefix}`.',
+    prefixReset: '✅ The message command prefix is back to the default `{prefix}`.',
+    prefixInvalid: '❌ The prefix must be 1 to 10 characters without spaces.',
+    prefixDisabled: '⚠️ Message commands are disabled for this bot, so the prefix has no effect yet.',
+    prefix: '💬 Message Command Prefix',
+    channels: '**Channels:** {list}',
+    roles: '**Roles:** {list}',
+    title: '⚙️ Command Settings',
+    noSettings: 'All commands are enabled, with no channel or role limits.',
+    disabledCommands: '🚫 Disabled Commands',
+    disabledCategories: '🚫 Disabled Categories',
+    restrictions: '🔒 Restrictions',
+    none: 'None',
+    command: 'Command',
+    category: 'Category'
+  },
+  ping: {
+    pinging: 'Pinging...',
+    pong: '🏓 **Pong!**\n📡 **Latency:** {latency}ms\n💓 **API Latency:** {apiLatency}ms'
+  },
+  info: {
+    title: '🤖 Bot Information',
+    description: 'A Discord bot built with the modular template system',
+    statistics: '📊 Statistics',
+    servers: '**Servers:** {count}',
+    users: '**Users:** {count}',
+    channels: '**Channels:** {count}',
+    uptime: '**Uptime:** {uptime}',
+    shard: '**Shard:** {ids} of {count}',
+    technical: '⚙️ Technical',
+    memory: '**Memory:** {memory} MB',
+    ping: '**Ping:** {ping}ms'
+  },
+  example: {
+    userTitle: '👤 User Information',
+    userDescription: 'Information about {user}',
+    basicInfo: '📊 Basic Info',
+    username: '**Username:** {username}',
+    displayName: '**Display Name:** {displayName}',
+    id: '**ID:** {id}',
+    bot: '**Bot:** {bot}',
+    dates: '📅 Dates',
+    accountCreated: '**Account Created:** {date}',
+    joinedServer: '**Joined Server:** {date}',
+    notInServer: 'Not in server',
+    roles: '🎭 Roles',
+    noRoles: 'No roles',
+    serverTitle: '🏰 Server Information',
+    serverDescription: 'Information about {server}',
+    statistics: '📊 Statistics',
+    members: '**Members:** {count}',
+    channels: '**Channels:** {count}',
+    roleCount: '**Roles:** {count}',
+    emojis: '**Emojis:** {count}',
+    serverDetails: '👑 Server Details',
+    owner: '**Owner:** {owner}',
+    created: '**Created:** {date}',
+    verification: '**Verification:** {level}',
+    boostLevel: '**Boost Level:** {tier}',
+    serverDescriptionField: '📝 Description',
+    confirmQuestion: '❓ Are you sure you want to continue?',
+    confirm: 'Confirm',
+    cancel: 'Cancel',
+    notYourConfirmation: '❌ Only the person who ran this command can answer.',
+    confirmed: '✅ Confirmed!',
+    cancelled: '🚫 Cancelled.',
+    feedbackTitle: 'Feedback',
+    feedbackLabel: 'What would you like to tell us?',
+    feedbackThanks: '📝 Thanks for your feedback!\n>>> {message}'
+  },
+  dev: {
+    infoTitle: '🔧 Development Information',
+    infoDescription: 'Internal bot information for developers',
+    environment: '🌍 Environment',
+    mode: '**Mode**: {mode}',
+    development: '**Development**: {value}',
+    production: '**Production**: {value}',
+    developers: '👥 Developers',
+    developerCount: '**Count**: {count}',
+    developerIds: '**IDs**: {ids}',
+    noDevelopers: 'None configured',
+    process: '⚡ Process',
+    uptime: '**Uptime**: {seconds}s',
+    memory: '**Memory**: {memory}MB',
+    shards: '🧩 Shards ({count})',
+    shard: '**#{id}**: {guilds} servers, {ping}ms, {memory}MB, up {uptime}s',
+    moreShards: '…and {count} more',
+    testRunning: '🧪 Running developer test...',
+    testCompleted: '✅ **Developer test completed!**\n\n⏱️ **Duration**: {duration}ms\n🤖 **Bot Status**: Operational\n📡 **API Latency**: {apiLatency}ms\n🔧 **Environment**: {environment}'
+  }
+};
+
+const catalog: LocaleCatalog = {
+  locale: Locale.EnglishUS,
+  messages
+};
+
+export default catalog;
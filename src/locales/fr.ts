@@ -0,0 +1,312 @@
+import { Locale } from 'discord.js';
+import type { LocaleCatalog } from '../services/I18n.js';
+
+const catalog: LocaleCatalog = {
+  locale: Locale.French,
+  messages: {
+    common: {
+      yes: 'Oui',
+      no: 'Non',
+      requestedBy: 'Demandé par {user}'
+    },
+    errors: {
+      commandFailed: '❌ Une erreur est survenue lors de l\'exécution de cette commande.',
+      interactionFailed: '❌ Une erreur est survenue lors du traitement de cette interaction.',
+      componentUnavailable: '❌ Cet élément n\'est plus disponible.',
+      interactionExpired: '⌛ Cette interaction a expiré. Merci de relancer la commande.'
+    },
+    validation: {
+      guildOnly: 'Cette commande ne peut être utilisée que sur un serveur.',
+      botMissingPermissions: 'Il manque des permissions au bot : {permissions}',
+      memberMissingPermissions: 'Tu as besoin des permissions suivantes : {permissions}',
+      denied: 'Tu n\'as pas le droit d\'utiliser cette commande.',
+      roleRequired: 'Tu n\'as aucun rôle autorisé à utiliser cette commande.',
+      developerOnly: 'Cette commande est réservée aux développeurs.',
+      cooldown: 'Merci de patienter encore {seconds}s avant de réessayer.',
+      unknownSubcommand: 'Sous-commande inconnue.',
+      disabledInGuild: 'Cette commande est désactivée sur ce serveur.',
+      wrongChannel: 'Cette commande ne peut être utilisée que dans {channels}.'
+    },
+    options: {
+      missing: 'L\'option obligatoire « {name} » est manquante.',
+      wrongType: 'L\'option « {name} » n\'a pas le bon type.',
+      unresolved: 'L\'option « {name} » n\'a pas pu être résolue.',
+      notAChoice: 'L\'option « {name} » doit être l\'une des valeurs suivantes : {choices}.',
+      tooShort: 'L\'option « {name} » doit contenir au moins {min} caractères.',
+      tooLong: 'L\'option « {name} » doit contenir au plus {max} caractères.',
+      notInteger: 'L\'option « {name} » doit être un nombre entier.',
+      outOfRange: 'L\'option « {name} » doit être comprise entre {min} et {max}.',
+      wrongChannelType: 'L\'option « {name} » doit être un autre type de salon.'
+    },
+    messageCommands: {
+      usage: '📋 Utilisation : `{usage}`',
+      unknownSubcommand: 'Sous-commande « {name} » inconnue. Choisis parmi : {choices}.',
+      missingSubcommand: 'Choisis une sous-commande : {choices}.',
+      tooManyArguments: 'Trop d\'arguments. Mets le texte contenant des espaces entre "guillemets".',
+      notANumber: 'L\'option « {name} » doit être un nombre.',
+      notABoolean: 'L\'option « {name} » doit être oui ou non (yes/no).',
+      userNotFound: 'Option « {name} » : aucun utilisateur trouvé pour « {value} ».',
+      channelNotFound: 'Option « {name} » : aucun salon trouvé pour « {value} ».',
+      roleNotFound: 'Option « {name} » : aucun rôle trouvé pour « {value} ».',
+      mentionableNotFound: 'Option « {name} » : aucun utilisateur ni rôle trouvé pour « {value} ».',
+      slashOnly: '❌ Cette partie de /{command} ne fonctionne qu\'en commande slash.',
+      sentByDirectMessage: '📬 Je t\'ai envoyé la réponse en message privé.',
+      directMessageFailed: '❌ Cette réponse est privée, mais je n\'ai pas pu t\'envoyer de message privé. Autorise les messages privés des membres du serveur, ou utilise la commande slash.'
+    },
+    help: {
+      commandNotFound: '❌ Commande « {query} » introuvable.',
+      subcommandNotFound: '❌ Sous-commande « {path} » introuvable pour /{command}.',
+      title: '📖 Aide : {name}',
+      usage: '📋 Utilisation',
+      examples: '🎯 Exemples',
+      category: '📂 Catégorie',
+      subcommands: '📚 Sous-commandes',
+      subcommandsFooter: 'Utilise /help command:{command} <sous-commande> pour le détail d\'une sous-commande',
+      options: '⚙️ Options',
+      optional: '(facultatif)',
+      requiredPermissions: '🔒 Permissions requises',
+      requiredUserPermissions: '👤 Permissions utilisateur requises',
+      access: '🎭 Accès',
+      allowedRoles: '**Rôles autorisés :** {list}',
+      allowedUsers: '**Utilisateurs autorisés :** {list}',
+      deniedRoles: '**Rôles interdits :** {list}',
+      deniedUsers: '**Utilisateurs interdits :** {list}',
+      restrictions: '⚠️ Restrictions',
+      serverOnly: 'Serveurs uniquement',
+      developerOnly: 'Développeurs uniquement',
+      cooldown: 'Délai : {uses} par {seconds}s ({scope})',
+      oneUse: '1 utilisation',
+      uses: '{count} utilisations',
+      allTitle: '🤖 Commandes du bot',
+      allDescription: 'Voici toutes les commandes disponibles, classées par catégorie.\nContacte @PineFruit pour toute demande.',
+      allFooter: 'Utilise /help command:<nom> pour l\'aide détaillée d\'une commande',
+      contextMenus: '🖱️ Menus contextuels',
+      rightClickUser: '(clic droit sur un utilisateur)',
+      rightClickMessage: '(clic droit sur un message)'
+    },
+    config: {
+      unknownTarget: '❌ « {target} » n\'est ni une commande ni une catégorie.',
+      unknownCommand: '❌ « {target} » n\'est pas une commande.',
+      notConfigurable: '❌ /{command} ne peut pas être désactivée ni restreinte.',
+      commandEnabled: '✅ /{command} est activée.',
+      commandDisabled: '🚫 /{command} est désactivée.',
+      categoryEnabled: '✅ La catégorie {category} est activée.',
+      categoryDisabled: '🚫 La catégorie {category} est désactivée.',
+      categoryStillDisabled: '⚠️ /{command} est activée, mais sa catégorie {category} est toujours désactivée.',
+      restrictMissing: '❌ Choisis un salon, un rôle ou les deux.',
+      restricted: '✅ /{command} est désormais limitée à :\n{list}',
+      unrestricted: '✅ /{command} peut être utilisée dans tous les salons, par tout le monde.',
+      reset: '✅ Tous les réglages de commandes de ce serveur ont été réinitialisés.',
+      prefixSet: '✅ Le préfixe des commandes par message est maintenant `{prefix}`.',
+      prefixReset: '✅ Le préfixe des commandes par message est revenu à `{prefix}` par défaut.',
+      prefixInvalid: '❌ Le préfixe doit faire de 1 à 10 caractères, sans espaces.',
+      prefixDisabled: '⚠️ Les commandes par message sont désactivées pour ce bot, le préfixe n\'a donc pas encore d\'effet.',
+      prefix: '💬 Préfixe des commandes par message',
+      channels: '**Salons :** {list}',
+      roles: '**Rôles :** {list}',
+      title: '⚙️ Réglages des commandes',
+      noSettings: 'Toutes les commandes sont activées, sans limite de salon ni de rôle.',
+      disabledCommands: '🚫 Commandes désactivées',
+      disabledCategories: '🚫 Catégories désactivées',
+      restrictions: '🔒 Restrictions',
+      none: 'Aucune',
+      command: 'Commande',
+      category: 'Catégorie'
+    },
+    ping: {
+      pinging: 'Ping en cours...',
+      pong: '🏓 **Pong !**\n📡 **Latence :** {latency}ms\n💓 **Latence de l\'API :** {apiLatency}ms'
+    },
+    info: {
+      title: '🤖 Informations sur le bot',
+      description: 'Un bot Discord construit avec le système de template modulaire',
+      statistics: '📊 Statistiques',
+      servers: '**Serveurs :** {count}',
+      users: '**Utilisateurs :** {count}',
+      channels: '**Salons :** {count}',
+      uptime: '**Disponibilité :** {uptime}',
+      shard: '**Shard :** {ids} sur {count}',
+      technical: '⚙️ Technique',
+      memory: '**Mémoire :** {memory} Mo',
+      ping: '**Ping :** {ping}ms'
+    },
+    example: {
+      userTitle: '👤 Informations sur l\'utilisateur',
+      userDescription: 'Informations sur {user}',
+      basicInfo: '📊 Général',
+      username: '**Nom d\'utilisateur :** {username}',
+      displayName: '**Nom affiché :** {displayName}',
+      id: '**ID :** {id}',
+      bot: '**Bot :** {bot}',
+      dates: '📅 Dates',
+      accountCreated: '**Compte créé :** {date}',
+      joinedServer: '**A rejoint le serveur :** {date}',
+      notInServer: 'Pas sur le serveur',
+      roles: '🎭 Rôles',
+      noRoles: 'Aucun rôle',
+      serverTitle: '🏰 Informations sur le serveur',
+      serverDescription: 'Informations sur {server}',
+      statistics: '📊 Statistiques',
+      members: '**Membres :** {count}',
+      channels: '**Salons :** {count}',
+      roleCount: '**Rôles :** {count}',
+      emojis: '**Emojis :** {count}',
+      serverDetails: '👑 Détails du serveur',
+      owner: '**Propriétaire :** {owner}',
+      created: '**Créé :** {date}',
+      verification: '**Vérification :** {level}',
+      boostLevel: '**Niveau de boost :** {tier}',
+      serverDescriptionField: '📝 Description',
+      confirmQuestion: '❓ Veux-tu vraiment continuer ?',
+      confirm: 'Confirmer',
+      cancel: 'Annuler',
+      notYourConfirmation: '❌ Seule la personne qui a lancé cette commande peut répondre.',
+      confirmed: '✅ Confirmé !',
+      cancelled: '🚫 Annulé.',
+      feedbackTitle: 'Avis',
+      feedbackLabel: 'Que veux-tu nous dire ?',
+      feedbackThanks: '📝 Merci pour ton avis !\n>>> {message}'
+    },
+    dev: {
+      infoTitle: '🔧 Informations de développement',
+      infoDescription: 'Informations internes du bot pour les développeurs',
+      environment: '🌍 Environnement',
+      mode: '**Mode** : {mode}',
+      development: '**Développement** : {value}',
+      production: '**Production** : {value}',
+      developers: '👥 Développeurs',
+      developerCount: '**Nombre** : {count}',
+      developerIds: '**IDs** : {ids}',
+      noDevelopers: 'Aucun configuré',
+      process: '⚡ Processus',
+      uptime: '**Disponibilité** : {seconds}s',
+      memory: '**Mémoire** : {memory}Mo',
+      shards: '🧩 Shards ({count})',
+      shard: '**#{id}** : {guilds} serveurs, {ping}ms, {memory}Mo, depuis {uptime}s',
+      moreShards: '…et {count} de plus',
+      testRunning: '🧪 Test développeur en cours...',
+      testCompleted: '✅ **Test développeur terminé !**\n\n⏱️ **Durée** : {duration}ms\n🤖 **État du bot** : Opérationnel\n📡 **Latence API** : {apiLatency}ms\n🔧 **Environnement** : {environment}'
+    }
+  },
+  commands: {
+    ping: {
+      description: 'Vérifier que le bot répond',
+      help: { description: 'Vérifie que le bot répond et affiche la latence' }
+    },
+    info: {
+      description: 'Obtenir des informations sur le bot',
+      help: { description: 'Affiche des informations détaillées sur le bot, avec statistiques et détails techniques' }
+    },
+    help: {
+      name: 'aide',
+      description: 'Obtenir de l\'aide sur les commandes du bot',
+      help: { description: 'Affiche l\'aide des commandes du bot et des instructions détaillées' },
+      options: {
+        command: { name: 'commande', description: 'Aide détaillée sur une commande précise' }
+      }
+    },
+    dev: {
+      description: 'Commande réservée aux développeurs pour tester et déboguer',
+      help: { description: 'Commande réservée aux développeurs pour tester, déboguer et consulter des informations de développement' },
+      subcommands: {
+        info: {
+          description: 'Afficher les informations de développement',
+          help: { description: 'Affiche l\'environnement, les développeurs configurés et les détails du processus' }
+        },
+        test: {
+          description: 'Lancer une commande de test',
+          help: { description: 'Répond, attend un peu puis modifie la réponse, avec la durée et la latence de l\'API' }
+        }
+      }
+    },
+    example: {
+      name: 'exemple',
+      description: 'Commande d\'exemple avec des fonctionnalités avancées',
+      help: { description: 'Commande d\'exemple montrant les sous-commandes, les options et des fonctionnalités avancées' },
+      subcommands: {
+        user: {
+          name: 'utilisateur',
+          description: 'Obtenir des informations sur un utilisateur',
+          help: { description: 'Affiche les détails du compte et de l\'adhésion d\'un utilisateur, ou les tiens' },
+          options: {
+            target: { name: 'cible', description: 'L\'utilisateur concerné' }
+          }
+        },
+        server: {
+          name: 'serveur',
+          description: 'Obtenir des informations sur le serveur',
+          help: { description: 'Affiche des statistiques et des détails sur le serveur actuel' }
+        },
+        confirm: {
+          name: 'confirmer',
+          description: 'Afficher une boîte de confirmation',
+          help: { description: 'Affiche des boutons Confirmer et Annuler auxquels toi seul peux répondre' }
+        },
+        feedback: {
+          name: 'avis',
+          description: 'Ouvrir un formulaire d\'avis',
+          help: { description: 'Ouvre un formulaire pour donner ton avis, qui t\'est renvoyé en privé' }
+        }
+      }
+    },
+    config: {
+      description: 'Choisir les commandes utilisables sur ce serveur',
+      help: { description: 'Active ou désactive des commandes et catégories, et limite des commandes à des salons ou rôles' },
+      subcommands: {
+        view: {
+          description: 'Afficher les réglages des commandes de ce serveur',
+          help: { description: 'Affiche les commandes et catégories désactivées, et les salons et rôles auxquels chaque commande est limitée' }
+        },
+        enable: {
+          description: 'Activer une commande ou une catégorie sur ce serveur',
+          help: { description: 'Réactive une commande désactivée, ou toutes les commandes d\'une catégorie' },
+          options: { target: { name: 'cible', description: 'Commande ou catégorie' } }
+        },
+        disable: {
+          description: 'Désactiver une commande ou une catégorie sur ce serveur',
+          help: { description: 'Désactive une commande, ou toutes les commandes d\'une catégorie. Les commandes désactivées sont masquées dans /help' },
+          options: { target: { name: 'cible', description: 'Commande ou catégorie' } }
+        },
+        restrict: {
+          description: 'Limiter une commande à un salon ou un rôle',
+          help: { description: 'Limite une commande à un salon, un rôle ou les deux. Relance-la pour autoriser d\'autres salons ou rôles' },
+          options: {
+            command: { name: 'commande', description: 'Commande à restreindre' },
+            channel: { name: 'salon', description: 'Salon dans lequel la commande peut être utilisée' },
+            role: { name: 'role', description: 'Rôle qui peut utiliser la commande' }
+          }
+        },
+        unrestrict: {
+          description: 'Retirer une limite de salon ou de rôle d\'une commande',
+          help: { description: 'Retire une limite de salon ou de rôle, ou toutes les limites si aucun n\'est indiqué' },
+          options: {
+            command: { name: 'commande', description: 'Commande à restreindre' },
+            channel: { name: 'salon', description: 'Salon dans lequel la commande peut être utilisée' },
+            role: { name: 'role', description: 'Rôle qui peut utiliser la commande' }
+          }
+        },
+        reset: {
+          description: 'Réinitialiser les réglages des commandes de ce serveur',
+          help: { description: 'Réactive toutes les commandes et retire toutes les limites de salon et de rôle ainsi que le préfixe personnalisé' }
+        },
+        prefix: {
+          description: 'Définir le préfixe des commandes par message',
+          help: { description: 'Définit le préfixe des commandes par message sur ce serveur, ou rétablit celui par défaut sans valeur' },
+          options: { prefix: { name: 'préfixe', description: 'Nouveau préfixe, par ex. ?' } }
+        }
+      }
+    },
+    'User Info': {
+      name: 'Infos utilisateur',
+      help: { description: 'Affiche des informations sur un utilisateur depuis le menu clic droit' }
+    }
+  },
+  categories: {
+    Utility: 'Utilitaires',
+    Developer: 'Développeur',
+    Example: 'Exemples',
+    Admin: 'Administration'
+  }
+};
+
+export default catalog;
@@ -0,0 +1,15 @@
+import type { LocaleCatalog } from '../services/I18n.js';
+import enUS from './en-US.js';
+import de from './de.js';
+import fr from './fr.js';
+
+/**
+ * Locale registry - add a catalog here and it is used for replies, help and command registration
+ * en-US holds the default messages; other catalogs only need the keys they translate
+ */
+export const ALL_LOCALES: LocaleCatalog[] = [
+  enUS,
+  de,
+  fr,
+  // Add new locales here
+];
@@ -0,0 +1,27 @@
+import { Middleware, MiddlewareContext, MiddlewarePipeline } from '../core/Middleware.js';
+import { Logger } from '../services/Logger.js';
+import { I18n } from '../services/I18n.js';
+
+/**
+ * Built-in middleware that logs errors and tells the user something went wrong
+ * Registered first, so it only sees errors no other middleware handled
+ */
+export class ErrorReplyMiddleware implements Middleware {
+  public readonly name = 'error-reply';
+  private logger = new Logger({ context: 'ErrorReplyMiddleware' });
+
+  public async onError(context: MiddlewareContext, error: unknown): Promise<boolean> {
+    const logger = this.logger.with(MiddlewarePipeline.getLogFields(context));
+    const t = I18n.forInteraction(context.interaction);
+
+    if (context.handler) {
+      logger.error(`onError - Error handling component ${context.command.getName()}:${context.handler}:`, error);
+      await context.reply(t('errors.interactionFailed'));
+    } else {
+      logger.error(`onError - Error executing command ${context.command.getName()}:`, error);
+      await context.reply(t('errors.commandFailed'));
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,48 @@
+import { Middleware, MiddlewareContext } from '../core/Middleware.js';
+import { Counter, Histogram, MetricsRegistry } from '../services/Metrics.js';
+import { ValidationMiddleware } from './ValidationMiddleware.js';
+
+/**
+ * Built-in middleware that counts invocations, validation rejections and errors and times execution
+ * Registered before validation, so rejected invocations are counted too
+ */
+export class MetricsMiddleware implements Middleware {
+  public readonly name = 'metrics';
+
+  private invocations: Counter;
+  private rejections: Counter;
+  private errors: Counter;
+  private duration: Histogram;
+
+  constructor(registry: MetricsRegistry) {
+    this.invocations = registry.counter('discord_bot_command_invocations_total', 'Commands and component handlers invoked');
+    this.rejections = registry.counter('discord_bot_command_rejections_total', 'Invocations rejected by validation');
+    this.errors = registry.counter('discord_bot_command_errors_total', 'Invocations that threw an error');
+    this.duration = registry.histogram('discord_bot_command_duration_seconds', 'Time from receiving an invocation to finishing it');
+  }
+
+  public async after(context: MiddlewareContext): Promise<void> {
+    const labels = MetricsMiddleware.getLabels(context);
+    this.invocations.inc(labels);
+
+    if (context.state.has(ValidationMiddleware.REJECTED)) {
+      this.rejections.inc(labels);
+    } else if (!context.halted) {
+      this.duration.observe((Date.now() - context.startedAt) / 1000, labels);
+    }
+  }
+
+  public async onError(context: MiddlewareContext): Promise<void> {
+    const labels = MetricsMiddleware.getLabels(context);
+    this.invocations.inc(labels);
+    this.errors.inc(labels);
+    this.duration.observe((Date.now() - context.startedAt) / 1000, labels);
+  }
+
+  /**
+   * Label by command, and by handler for buttons, select menus and modals
+   */
+  private static getLabels(context: MiddlewareContext): { command: string; handler: string } {
+    return { command: context.command.getName(), handler: context.handler ?? '' };
+  }
+}
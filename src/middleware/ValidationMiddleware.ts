@@ -0,0 +1,29 @@
+import { Middleware, MiddlewareContext, MiddlewarePipeline, MiddlewareHalt } from '../core/Middleware.js';
+import { Logger } from '../services/Logger.js';
+
+/**
+ * Built-in middleware that runs Command.validate and stops invalid invocations with the reason
+ * Parsed options are stored in context.args for execute
+ */
+export class ValidationMiddleware implements Middleware {
+  /** context.state key holding the reason when validation rejected the invocation */
+  public static readonly REJECTED = 'validation.rejected';
+
+  public readonly name = 'validation';
+  private logger = new Logger({ context: 'ValidationMiddleware' });
+
+  public async before(context: MiddlewareContext): Promise<MiddlewareHalt | void> {
+    const validation = await context.command.validate(context.interaction, context.commandContext);
+
+    if (!validation.valid) {
+      const target = context.handler ? `${context.command.getName()}:${context.handler}` : context.command.getName();
+      this.logger
+        .with(MiddlewarePipeline.getLogFields(context))
+        .warn(`before - Validation failed for ${target}: ${validation.reason}`);
+      context.state.set(ValidationMiddleware.REJECTED, validation.reason);
+      return { halt: true, reply: `❌ ${validation.reason}` };
+    }
+
+    context.args = validation.args ?? {};
+  }
+}
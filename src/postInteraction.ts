@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import { readFile } from 'node:fs/promises';
+import { Logger } from './services/Logger.js';
+import { InteractionVerifier } from './services/InteractionVerifier.js';
+import { interactionsConfig } from './core/InteractionServer.js';
+
+// Load environment variables
+dotenv.config();
+
+const logger = new Logger({ context: 'PostInteraction' });
+
+/**
+ * Sign a fixture payload and post it to a locally running interactions endpoint
+ * Usage: npm run post-interaction -- fixtures/interactions/help-command.json
+ */
+async function postInteraction() {
+  try {
+    const { signingKey, port } = interactionsConfig.get();
+
+    if (!signingKey) {
+      const keys = InteractionVerifier.generateKeyPair();
+      logger.warn('postInteraction - INTERACTIONS_SIGNING_KEY is not set. Generated a local key pair, add it to .env:');
+      logger.warn(`postInteraction - DISCORD_PUBLIC_KEY=${keys.publicKey}`);
+      logger.warn(`postInteraction - INTERACTIONS_SIGNING_KEY=${keys.privateKey}`);
+      process.exit(1);
+    }
+
+    const fixturePath = process.argv[2];
+    if (!fixturePath) {
+      logger.error('postInteraction - Usage: npm run post-interaction -- <fixture.json>');
+      process.exit(1);
+    }
+
+    const body = JSON.stringify(JSON.parse(await readFile(fixturePath, 'utf8')));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = InteractionVerifier.sign(body, timestamp, signingKey);
+    const url = `http://localhost:${port}/interactions`;
+
+    logger.info(`postInteraction - Posting ${fixturePath} to ${url}`);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature-Ed25519': signature,
+        'X-Signature-Timestamp': timestamp
+      },
+      body
+    });
+
+    logger.info(`postInteraction - Response: ${response.status} ${response.statusText}`);
+    logger.info(`postInteraction - Body: ${await response.text()}`);
+
+  } catch (error) {
+    logger.error('postInteraction - Error posting interaction:', error);
+    process.exit(1);
+  }
+}
+
+// Run the fixture post
+postInteraction();
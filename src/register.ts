@@ -1,8 +1,10 @@
 import dotenv from 'dotenv';
-import { REST, Routes } from 'discord.js';
+import { parseArgs } from 'node:util';
+import { REST, ApplicationCommandType } from 'discord.js';
 import { Logger } from './services/Logger.js';
 import { Environment } from './services/Environment.js';
 import { CommandManager } from './core/CommandManager.js';
+import { CommandRegistrar } from './core/CommandRegistrar.js';
 import { ALL_COMMANDS } from './commands/index.js';
 
 // Load environment variables
@@ -12,36 +14,58 @@ const logger = new Logger({ context: 'Register' });
 
 /**
  * Register slash commands with Discord
+ *
+ * Usage: npm run register -- [--dry-run] [--dev] [--guild <id>...] [--prune-guild <id>...]
+ *   --dry-run      Show what would change without writing
+ *   --dev          Register unscoped commands to DEV_GUILD_IDS instead of globally
+ *   --guild        Register unscoped commands to this guild instead of globally
+ *   --prune-guild  Also sync this guild, removing commands that no longer target it
  */
 async function registerCommands() {
   try {
+    const { values: args } = parseArgs({
+      options: {
+        'dry-run': { type: 'boolean', default: false },
+        dev: { type: 'boolean', default: false },
+        guild: { type: 'string', multiple: true, default: [] },
+        'prune-guild': { type: 'string', multiple: true, default: [] }
+      }
+    });
+
     // Validate environment variables
     Environment.validate();
     const config = Environment.getConfig();
 
+    const guildIds = [...args.guild, ...(args.dev ? config.devGuildIds : [])];
+    if (args.dev && config.devGuildIds.length === 0) {
+      throw new Error('--dev requires DEV_GUILD_IDS to be set');
+    }
+
     // Use centralized command manager
     const commandManager = new CommandManager(ALL_COMMANDS);
-    const commandData = commandManager.getRegistrationData();
 
-    logger.info(`registerCommands - Preparing to register ${commandData.length} commands`);
+    logger.info(`registerCommands - Preparing to register ${commandManager.getCommandCount()} commands`);
+    logger.info(`registerCommands - Target: ${guildIds.length > 0 ? `guilds ${guildIds.join(', ')}` : 'global'}${args['dry-run'] ? ' (dry run)' : ''}`);
 
     // Create REST instance
     const rest = new REST().setToken(config.discordToken);
+    const registrar = new CommandRegistrar(rest, config.discordClientId, commandManager.getAllCommands());
 
-    logger.info(`registerCommands - Started refreshing ${commandData.length} application (/) commands`);
-
-    // Register commands globally
-    const data = await rest.put(
-      Routes.applicationCommands(config.discordClientId),
-      { body: commandData }
-    ) as any[];
+    const results = await registrar.register({
+      dryRun: args['dry-run'],
+      guildIds,
+      pruneGuildIds: args['prune-guild']
+    });
 
-    logger.info(`registerCommands - Successfully reloaded ${data.length} application (/) commands`);
+    const totalChanges = [...results.values()].reduce((sum, changes) => sum + changes.length, 0);
+    logger.info(`registerCommands - Done: ${totalChanges} change(s) across ${results.size} target(s)`);
 
-    // Log registered commands with their categories
+    // Log commands with their categories
     for (const command of ALL_COMMANDS) {
       const helpInfo = command.getHelpInfo();
-      logger.info(`registerCommands - ✅ Registered: /${command.getName()} [${helpInfo.category}] - ${command.getDescription()}`);
+      const scope = command.guildIds.length > 0 ? ` (guilds: ${command.guildIds.join(', ')})` : '';
+      const name = command.getType() === ApplicationCommandType.ChatInput ? `/${command.getName()}` : `${command.getName()} (context menu)`;
+      logger.info(`registerCommands - ✅ ${name} [${helpInfo.category}]${scope} - ${command.getDescription()}`);
     }
 
   } catch (error) {
@@ -0,0 +1,74 @@
+import { Client } from 'discord.js';
+import { Logger } from './Logger.js';
+
+/**
+ * Cache sizes and process details of one shard
+ */
+export interface ShardStatistics {
+  id: number;
+  guilds: number;
+  users: number;
+  channels: number;
+  /** Gateway heartbeat latency in ms (-1 before the first heartbeat) */
+  ping: number;
+  /** Heap used by the shard's process, in bytes */
+  memory: number;
+  /** Time since the shard became ready, in ms */
+  uptime: number;
+}
+
+/**
+ * Statistics of every shard with their totals
+ */
+export interface ClientStatistics {
+  shards: ShardStatistics[];
+  guilds: number;
+  users: number;
+  channels: number;
+}
+
+/**
+ * Evaluated inside each shard process, so it can't use anything from this module
+ */
+const collectShard = (client: Client): ShardStatistics => ({
+  id: client.shard?.ids[0] ?? 0,
+  guilds: client.guilds.cache.size,
+  users: client.users.cache.size,
+  channels: client.channels.cache.size,
+  ping: client.ws.ping,
+  memory: process.memoryUsage().heapUsed,
+  uptime: client.uptime ?? 0
+});
+
+/**
+ * Statistics about the bot, combined across shard processes when sharded
+ */
+export class ClientStats {
+  private static logger = new Logger({ context: 'ClientStats' });
+
+  /**
+   * Collect statistics from every shard, or only this one if the others can't be reached
+   */
+  public static async collect(client: Client): Promise<ClientStatistics> {
+    if (!client.shard) {
+      return this.combine([collectShard(client)]);
+    }
+
+    try {
+      return this.combine(await client.shard.broadcastEval(collectShard));
+    } catch (error) {
+      this.logger.warn('collect - Failed to collect statistics from other shards:', error);
+      return this.combine([collectShard(client)]);
+    }
+  }
+
+  private static combine(shards: ShardStatistics[]): ClientStatistics {
+    return {
+      shards: [...shards].sort((a, b) => a.id - b.id),
+      guilds: shards.reduce((total, shard) => total + shard.guilds, 0),
+      // Users who share guilds on several shards are counted once per shard
+      users: shards.reduce((total, shard) => total + shard.users, 0),
+      channels: shards.reduce((total, shard) => total + shard.channels, 0)
+    };
+  }
+}
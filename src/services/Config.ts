@@ -0,0 +1,254 @@
+/**
+ * Options shared by every config field
+ */
+export interface ConfigFieldOptions {
+  /** Environment variable to read */
+  env: string;
+  /** Shown in .env.example and error reports */
+  description: string;
+  /** Fail validation when the variable is missing */
+  required?: boolean;
+  /** Raw value used when the variable is missing, as it would be written in .env */
+  default?: string;
+  /** Never log the value, and leave it blank in .env.example */
+  secret?: boolean;
+  /** Placeholder written to .env.example instead of the default */
+  example?: string;
+}
+
+/**
+ * Parses a raw environment value, throwing an Error with a short reason if it is invalid
+ */
+export type ConfigParser<T> = (raw: string) => T;
+
+/**
+ * Value type of a field: always present when required or defaulted, possibly undefined otherwise
+ */
+type FieldValue<T, O> = O extends { required: true } ? T : O extends { default: string } ? T : T | undefined;
+
+/**
+ * A single typed environment variable
+ */
+export class ConfigField<T> {
+  constructor(
+    public readonly options: ConfigFieldOptions,
+    private readonly parser: ConfigParser<T>,
+    private readonly emptyValue?: () => T
+  ) {}
+
+  /**
+   * Read and parse the field, returning an error message instead of throwing
+   */
+  public resolve(env: NodeJS.ProcessEnv): { value?: T; error?: string } {
+    const raw = env[this.options.env]?.trim() || this.options.default;
+
+    if (!raw) {
+      if (this.options.required) {
+        return { error: `${this.options.env} is required (${this.options.description})` };
+      }
+      return { value: this.emptyValue?.() };
+    }
+
+    try {
+      return { value: this.parser(raw) };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { error: `${this.options.env} ${reason}` };
+    }
+  }
+}
+
+/**
+ * Fields of a section, keyed by property name
+ */
+export type ConfigShape = Record<string, ConfigField<any>>;
+
+/**
+ * Parsed values of a section
+ */
+export type InferConfig<S extends ConfigShape> = {
+  [K in keyof S]: S[K] extends ConfigField<infer T> ? T : never;
+};
+
+/**
+ * All configuration problems found in one pass
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * A named group of fields, owned by the core bot, a service or a command
+ */
+export class ConfigSection<S extends ConfigShape = ConfigShape> {
+  private values?: InferConfig<S>;
+
+  /**
+   * @param validate Cross-field checks, returning error messages
+   */
+  constructor(
+    public readonly name: string,
+    public readonly fields: S,
+    private readonly validate?: (values: InferConfig<S>) => string[]
+  ) {}
+
+  /**
+   * Get the section's fields in declaration order
+   */
+  public getFields(): ConfigField<unknown>[] {
+    return Object.values(this.fields);
+  }
+
+  /**
+   * Parse every field, collecting all problems instead of stopping at the first
+   */
+  public load(env: NodeJS.ProcessEnv = process.env): string[] {
+    const values: Record<string, unknown> = {};
+    const issues: string[] = [];
+
+    for (const [key, field] of Object.entries(this.fields)) {
+      const result = field.resolve(env);
+      if (result.error) {
+        issues.push(result.error);
+      } else {
+        values[key] = result.value;
+      }
+    }
+
+    if (issues.length === 0 && this.validate) {
+      issues.push(...this.validate(values as InferConfig<S>));
+    }
+
+    this.values = issues.length === 0 ? values as InferConfig<S> : undefined;
+    return issues;
+  }
+
+  /**
+   * Get the parsed values, loading them from process.env on first use
+   * @throws ConfigError if the section is invalid
+   */
+  public get(): InferConfig<S> {
+    if (!this.values) {
+      const issues = this.load();
+      if (issues.length > 0) {
+        throw new ConfigError(issues);
+      }
+    }
+
+    return this.values!;
+  }
+}
+
+/**
+ * Typed field factories and parsers for config sections
+ */
+export class Config {
+  public static string<const O extends ConfigFieldOptions & { pattern?: RegExp; validate?: (value: string) => string | undefined }>(
+    options: O
+  ): ConfigField<FieldValue<string, O>> {
+    return new ConfigField(options, raw => {
+      if (options.pattern && !options.pattern.test(raw)) {
+        throw new Error('has an invalid format');
+      }
+      const error = options.validate?.(raw);
+      if (error) {
+        throw new Error(error);
+      }
+      return raw;
+    }) as ConfigField<FieldValue<string, O>>;
+  }
+
+  public static int<const O extends ConfigFieldOptions & { min?: number; max?: number }>(
+    options: O
+  ): ConfigField<FieldValue<number, O>> {
+    return new ConfigField(options, raw => {
+      const value = Config.parseInt(raw);
+      if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+        throw new Error(`must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`);
+      }
+      return value;
+    }) as ConfigField<FieldValue<number, O>>;
+  }
+
+  public static bool<const O extends ConfigFieldOptions>(options: O): ConfigField<FieldValue<boolean, O>> {
+    return new ConfigField(options, Config.parseBool) as ConfigField<FieldValue<boolean, O>>;
+  }
+
+  public static snowflake<const O extends ConfigFieldOptions>(options: O): ConfigField<FieldValue<string, O>> {
+    return new ConfigField(options, Config.parseSnowflake) as ConfigField<FieldValue<string, O>>;
+  }
+
+  public static url<const O extends ConfigFieldOptions>(options: O): ConfigField<FieldValue<string, O>> {
+    return new ConfigField(options, Config.parseUrl) as ConfigField<FieldValue<string, O>>;
+  }
+
+  public static enum<const V extends string, const O extends ConfigFieldOptions>(
+    values: readonly V[],
+    options: O
+  ): ConfigField<FieldValue<V, O>> {
+    return new ConfigField(options, raw => {
+      if (!values.includes(raw as V)) {
+        throw new Error(`must be one of: ${values.join(', ')}`);
+      }
+      return raw as V;
+    }) as ConfigField<FieldValue<V, O>>;
+  }
+
+  /**
+   * Comma-separated list, empty when missing
+   * @param of Parser for each entry (strings by default)
+   */
+  public static list<T = string>(options: ConfigFieldOptions & { of?: ConfigParser<T> }): ConfigField<T[]> {
+    const parseItem = options.of ?? ((raw: string) => raw as T);
+
+    return new ConfigField(options, raw => raw
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        try {
+          return parseItem(entry);
+        } catch (error) {
+          throw new Error(`contains an invalid entry "${entry}": ${error instanceof Error ? error.message : error}`);
+        }
+      }), () => []);
+  }
+
+  public static parseInt(raw: string): number {
+    if (!/^-?\d+$/.test(raw)) {
+      throw new Error('must be a whole number');
+    }
+    return Number(raw);
+  }
+
+  public static parseBool(raw: string): boolean {
+    const normalized = raw.toLowerCase();
+    if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+    if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+    throw new Error('must be true or false');
+  }
+
+  public static parseSnowflake(raw: string): string {
+    // Discord IDs are 17-20 digit snowflakes
+    if (!/^\d{17,20}$/.test(raw)) {
+      throw new Error('must be a Discord ID (17-20 digits)');
+    }
+    return raw;
+  }
+
+  public static parseUrl(raw: string): string {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      throw new Error('must be a URL');
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new Error('must be an http or https URL');
+    }
+    return raw;
+  }
+}
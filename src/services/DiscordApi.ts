@@ -1,4 +1,64 @@
+import {
+  APIChannel,
+  APIGuild,
+  APIGuildMember,
+  APIMessage,
+  APIRole,
+  APIWebhook,
+  RESTGetAPIChannelMessagesQuery,
+  RESTPatchAPIChannelJSONBody,
+  RESTPatchAPIChannelMessageJSONBody,
+  RESTPatchAPIGuildMemberJSONBody,
+  RESTPatchAPIGuildRoleJSONBody,
+  RESTPostAPIChannelMessageJSONBody,
+  RESTPostAPIChannelWebhookJSONBody,
+  RESTPostAPIGuildChannelJSONBody,
+  RESTPostAPIGuildRoleJSONBody,
+  RESTPostAPIWebhookWithTokenJSONBody,
+  RESTPutAPIChannelPermissionJSONBody,
+  Routes
+} from 'discord.js';
 import { Logger } from './Logger.js';
+import { DiscordApiError } from './DiscordApiError.js';
+import { RateLimiter } from './RateLimiter.js';
+
+/**
+ * HTTP methods accepted by DiscordApi.call()
+ */
+export type DiscordApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * A file to upload as a message attachment
+ */
+export interface DiscordApiFile {
+  name: string;
+  data: Blob | Uint8Array | string;
+  contentType?: string;
+  /** Alt text shown for the attachment */
+  description?: string;
+}
+
+/**
+ * Extra request options for DiscordApi.call()
+ */
+export interface DiscordApiRequestOptions {
+  /** Query string parameters (undefined values are skipped) */
+  query?: Record<string, string | number | boolean | undefined>;
+  /** Shown in the guild's audit log (X-Audit-Log-Reason) */
+  reason?: string;
+  /** Sent as multipart/form-data, with the body as payload_json */
+  files?: DiscordApiFile[];
+  /** Bot token (defaults to DISCORD_TOKEN) */
+  token?: string;
+}
+
+/**
+ * Options for paginated list endpoints
+ */
+export interface DiscordApiPageOptions {
+  /** Stop after this many items (all by default) */
+  limit?: number;
+}
 
 /**
  * Discord API service for making REST calls
@@ -6,49 +66,133 @@ import { Logger } from './Logger.js';
  */
 export class DiscordApi {
   private static readonly BASE_URL = 'https://discord.com/api/v10';
+  private static readonly REQUEST_TIMEOUT_MS = 15_000;
+  private static readonly RETRY_BASE_DELAY_MS = 500;
+  /** Retries for network errors and 5xx responses */
+  private static readonly MAX_RETRIES = 3;
+  /** Methods that are safe to send again after a network error or timeout */
+  private static readonly IDEMPOTENT_METHODS: DiscordApiMethod[] = ['GET', 'PUT', 'DELETE', 'PATCH'];
+  /** Retries for 429s, which wait out the reported retry_after instead of backing off */
+  private static readonly MAX_RATE_LIMIT_RETRIES = 5;
   private static logger = new Logger({ context: 'DiscordApi' });
+  private static rateLimiter = new RateLimiter();
 
   /**
    * Make a Discord API call
-   * @param endpoint API endpoint (e.g., '/guilds/123/channels')
+   * Requests are queued per rate limit bucket; 429s and 5xx responses are retried with backoff,
+   * and so are network errors and timeouts, except for POSTs, which could create duplicates
+   * @param endpoint API endpoint (e.g., Routes.guildChannels(guildId))
    * @param method HTTP method
    * @param body Request body
-   * @param token Bot token
+   * @param options Query, audit log reason, files and token
+   * @throws DiscordApiError if Discord rejects the request
    */
-  public static async call(
+  public static async call<T = any>(
     endpoint: string,
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
-    body?: any,
-    token?: string
-  ): Promise<any> {
+    method: DiscordApiMethod,
+    body?: unknown,
+    options: DiscordApiRequestOptions = {}
+  ): Promise<T> {
     this.logger.debug(`call - ${method} ${endpoint}`);
-    const botToken = token || process.env.DISCORD_TOKEN;
-    
+    const botToken = options.token || process.env.DISCORD_TOKEN;
+
     if (!botToken) {
       const errorMessage = 'Discord token not provided';
       this.logger.error(`call - ${errorMessage}`);
       throw new Error(errorMessage);
     }
 
-    const url = `${this.BASE_URL}${endpoint}`;
-    
-    const response = await fetch(url, {
+    const url = `${this.BASE_URL}${endpoint}${this.buildQuery(options.query)}`;
+    const headers: Record<string, string> = { 'Authorization': `Bot ${botToken}` };
+    if (options.reason) {
+      headers['X-Audit-Log-Reason'] = encodeURIComponent(options.reason);
+    }
+    if (!options.files?.length) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const send = () => fetch(url, {
       method,
-      headers: {
-        'Authorization': `Bot ${botToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
+      headers,
+      body: options.files?.length ? this.buildFormData(body, options.files) : body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT_MS),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      const errorMessage = `Discord API error: ${response.status} ${response.statusText} - ${errorText}`;
-      this.logger.error(`call - ${errorMessage}`);
-      throw new Error(errorMessage);
+    let retries = 0;
+    let rateLimitRetries = 0;
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.rateLimiter.schedule(method, endpoint, send);
+      } catch (networkError) {
+        // Discord may have received a POST whose response was lost, so sending it again could create a duplicate
+        if (!this.IDEMPOTENT_METHODS.includes(method) || retries >= this.MAX_RETRIES) {
+          this.logger.error(`call - ${method} ${endpoint} failed after ${attempt} attempt(s)`, networkError);
+          throw networkError;
+        }
+        await this.backoff(retries++, `${method} ${endpoint} failed to send`);
+        continue;
+      }
+
+      // The rate limiter has already recorded when the bucket resets, so just try again
+      if (response.status === 429 && rateLimitRetries < this.MAX_RATE_LIMIT_RETRIES) {
+        rateLimitRetries++;
+        this.logger.debug(`call - ${method} ${endpoint} was rate limited (retry ${rateLimitRetries}/${this.MAX_RATE_LIMIT_RETRIES})`);
+        continue;
+      }
+
+      if (response.status >= 500 && retries < this.MAX_RETRIES) {
+        await this.backoff(retries++, `${method} ${endpoint} returned ${response.status}`);
+        continue;
+      }
+
+      if (!response.ok) {
+        const error = await DiscordApiError.fromResponse(method, endpoint, response);
+        this.logger.error(`call - ${error.message}`);
+        throw error;
+      }
+
+      return this.parseBody(response);
+    }
+  }
+
+  /**
+   * Build a query string, skipping undefined values
+   */
+  private static buildQuery(query?: DiscordApiRequestOptions['query']): string {
+    if (!query) return '';
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
     }
 
-    // Handle empty responses
+    const search = params.toString();
+    return search ? `?${search}` : '';
+  }
+
+  /**
+   * Build a multipart body: the JSON payload plus files[n], with matching attachment entries
+   */
+  private static buildFormData(body: unknown, files: DiscordApiFile[]): FormData {
+    const payload = { ...(body as Record<string, unknown> | undefined) };
+    payload.attachments ??= files.map((file, index) => ({ id: index, filename: file.name, description: file.description }));
+
+    const form = new FormData();
+    form.set('payload_json', JSON.stringify(payload));
+    files.forEach((file, index) => {
+      const blob = file.data instanceof Blob ? file.data : new Blob([file.data], { type: file.contentType });
+      form.set(`files[${index}]`, blob, file.name);
+    });
+    return form;
+  }
+
+  /**
+   * Parse a successful response, treating an empty body as {}
+   */
+  private static async parseBody(response: Response): Promise<any> {
     const responseText = await response.text();
     if (!responseText) {
       return {};
@@ -58,31 +202,252 @@ export class DiscordApi {
       return JSON.parse(responseText);
     } catch (parseError) {
       const errorMessage = `Invalid JSON response from Discord API: ${responseText}`;
-      this.logger.error(`call - ${errorMessage}`, parseError);
+      this.logger.error(`parseBody - ${errorMessage}`, parseError);
       throw new Error(errorMessage);
     }
   }
 
   /**
-   * Helper methods for common API calls
+   * Wait before retrying: exponential with jitter (0.5s, 1s, 2s...)
+   * @param retry Retries already made for network errors and 5xx responses
+   */
+  private static async backoff(retry: number, reason: string): Promise<void> {
+    const delay = Math.round(this.RETRY_BASE_DELAY_MS * 2 ** retry * (0.75 + Math.random() * 0.5));
+    this.logger.warn(`backoff - ${reason}, retrying in ${delay}ms (retry ${retry + 1}/${this.MAX_RETRIES})`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  /**
+   * Yield items page by page, requesting the next page from the last item's ID
+   * @param fetchPage Fetch one page after (or before) the given cursor
+   */
+  private static async *paginate<T extends { id: string }>(
+    fetchPage: (cursor: string | undefined, pageSize: number) => Promise<T[]>,
+    maxPageSize: number,
+    limit = Infinity
+  ): AsyncGenerator<T> {
+    let cursor: string | undefined;
+    let yielded = 0;
+
+    while (yielded < limit) {
+      const pageSize = Math.min(maxPageSize, limit - yielded);
+      const page = await fetchPage(cursor, pageSize);
+
+      for (const item of page) {
+        yield item;
+        if (++yielded >= limit) return;
+      }
+
+      if (page.length < pageSize) return;
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  /**
+   * Guilds
    */
-  public static async getGuild(guildId: string): Promise<any> {
+  public static async getGuild(guildId: string): Promise<APIGuild> {
     this.logger.debug(`getGuild - Fetching guild ${guildId}`);
-    return this.call(`/guilds/${guildId}`, 'GET');
+    return this.call(Routes.guild(guildId), 'GET');
   }
 
-  public static async getChannel(channelId: string): Promise<any> {
+  /**
+   * Channels
+   */
+  public static async getChannel(channelId: string): Promise<APIChannel> {
     this.logger.debug(`getChannel - Fetching channel ${channelId}`);
-    return this.call(`/channels/${channelId}`, 'GET');
+    return this.call(Routes.channel(channelId), 'GET');
   }
 
-  public static async createRole(guildId: string, roleData: any): Promise<any> {
-    this.logger.info(`createRole - Creating role "${roleData.name}" in guild ${guildId}`);
-    return this.call(`/guilds/${guildId}/roles`, 'POST', roleData);
+  public static async getGuildChannels(guildId: string): Promise<APIChannel[]> {
+    this.logger.debug(`getGuildChannels - Fetching channels of guild ${guildId}`);
+    return this.call(Routes.guildChannels(guildId), 'GET');
   }
 
-  public static async createChannel(guildId: string, channelData: any): Promise<any> {
+  /**
+   * @throws DiscordApiError e.g. with code RESTJSONErrorCodes.MissingPermissions or MaximumNumberOfGuildChannelsReached
+   */
+  public static async createChannel(guildId: string, channelData: RESTPostAPIGuildChannelJSONBody, reason?: string): Promise<APIChannel> {
     this.logger.info(`createChannel - Creating channel "${channelData.name}" in guild ${guildId}`);
-    return this.call(`/guilds/${guildId}/channels`, 'POST', channelData);
+    return this.call(Routes.guildChannels(guildId), 'POST', channelData, { reason });
+  }
+
+  public static async editChannel(channelId: string, channelData: RESTPatchAPIChannelJSONBody, reason?: string): Promise<APIChannel> {
+    this.logger.info(`editChannel - Editing channel ${channelId}`);
+    return this.call(Routes.channel(channelId), 'PATCH', channelData, { reason });
+  }
+
+  public static async deleteChannel(channelId: string, reason?: string): Promise<APIChannel> {
+    this.logger.info(`deleteChannel - Deleting channel ${channelId}`);
+    return this.call(Routes.channel(channelId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Permission overwrites
+   * @param overwriteId Role or user ID
+   */
+  public static async editPermissionOverwrite(
+    channelId: string,
+    overwriteId: string,
+    overwrite: RESTPutAPIChannelPermissionJSONBody,
+    reason?: string
+  ): Promise<void> {
+    this.logger.info(`editPermissionOverwrite - Setting overwrite ${overwriteId} in channel ${channelId}`);
+    await this.call(Routes.channelPermission(channelId, overwriteId), 'PUT', overwrite, { reason });
+  }
+
+  public static async deletePermissionOverwrite(channelId: string, overwriteId: string, reason?: string): Promise<void> {
+    this.logger.info(`deletePermissionOverwrite - Removing overwrite ${overwriteId} from channel ${channelId}`);
+    await this.call(Routes.channelPermission(channelId, overwriteId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Roles
+   */
+  public static async getRoles(guildId: string): Promise<APIRole[]> {
+    this.logger.debug(`getRoles - Fetching roles of guild ${guildId}`);
+    return this.call(Routes.guildRoles(guildId), 'GET');
+  }
+
+  /**
+   * @throws DiscordApiError e.g. with code RESTJSONErrorCodes.MissingPermissions or MaximumNumberOfGuildRolesReached
+   */
+  public static async createRole(guildId: string, roleData: RESTPostAPIGuildRoleJSONBody, reason?: string): Promise<APIRole> {
+    this.logger.info(`createRole - Creating role "${roleData.name}" in guild ${guildId}`);
+    return this.call(Routes.guildRoles(guildId), 'POST', roleData, { reason });
+  }
+
+  public static async editRole(guildId: string, roleId: string, roleData: RESTPatchAPIGuildRoleJSONBody, reason?: string): Promise<APIRole> {
+    this.logger.info(`editRole - Editing role ${roleId} in guild ${guildId}`);
+    return this.call(Routes.guildRole(guildId, roleId), 'PATCH', roleData, { reason });
+  }
+
+  public static async deleteRole(guildId: string, roleId: string, reason?: string): Promise<void> {
+    this.logger.info(`deleteRole - Deleting role ${roleId} in guild ${guildId}`);
+    await this.call(Routes.guildRole(guildId, roleId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Members
+   */
+  public static async getMember(guildId: string, userId: string): Promise<APIGuildMember> {
+    this.logger.debug(`getMember - Fetching member ${userId} of guild ${guildId}`);
+    return this.call(Routes.guildMember(guildId, userId), 'GET');
+  }
+
+  /**
+   * Iterate over every member of a guild, 1000 per request (requires the Server Members intent)
+   */
+  public static async *listMembers(guildId: string, options: DiscordApiPageOptions = {}): AsyncGenerator<APIGuildMember> {
+    this.logger.debug(`listMembers - Listing members of guild ${guildId}`);
+    const pages = this.paginate(
+      async (after, limit) => {
+        const members = await this.call<APIGuildMember[]>(Routes.guildMembers(guildId), 'GET', undefined, { query: { after, limit } });
+        return members.map(member => ({ id: member.user.id, member }));
+      },
+      1000,
+      options.limit
+    );
+
+    for await (const { member } of pages) {
+      yield member;
+    }
+  }
+
+  public static async editMember(guildId: string, userId: string, memberData: RESTPatchAPIGuildMemberJSONBody, reason?: string): Promise<APIGuildMember> {
+    this.logger.info(`editMember - Editing member ${userId} in guild ${guildId}`);
+    return this.call(Routes.guildMember(guildId, userId), 'PATCH', memberData, { reason });
+  }
+
+  public static async addMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    this.logger.info(`addMemberRole - Adding role ${roleId} to member ${userId} in guild ${guildId}`);
+    await this.call(Routes.guildMemberRole(guildId, userId, roleId), 'PUT', undefined, { reason });
+  }
+
+  public static async removeMemberRole(guildId: string, userId: string, roleId: string, reason?: string): Promise<void> {
+    this.logger.info(`removeMemberRole - Removing role ${roleId} from member ${userId} in guild ${guildId}`);
+    await this.call(Routes.guildMemberRole(guildId, userId, roleId), 'DELETE', undefined, { reason });
+  }
+
+  public static async kickMember(guildId: string, userId: string, reason?: string): Promise<void> {
+    this.logger.info(`kickMember - Kicking member ${userId} from guild ${guildId}`);
+    await this.call(Routes.guildMember(guildId, userId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Messages
+   */
+  public static async getMessage(channelId: string, messageId: string): Promise<APIMessage> {
+    this.logger.debug(`getMessage - Fetching message ${messageId} in channel ${channelId}`);
+    return this.call(Routes.channelMessage(channelId, messageId), 'GET');
+  }
+
+  /**
+   * Iterate over a channel's messages from newest to oldest, 100 per request
+   * @param before Start before this message ID instead of at the newest message
+   */
+  public static listMessages(
+    channelId: string,
+    options: DiscordApiPageOptions & Pick<RESTGetAPIChannelMessagesQuery, 'before'> = {}
+  ): AsyncGenerator<APIMessage> {
+    this.logger.debug(`listMessages - Listing messages in channel ${channelId}`);
+    return this.paginate(
+      (before, limit) => this.call(Routes.channelMessages(channelId), 'GET', undefined, {
+        query: { before: before ?? options.before, limit }
+      }),
+      100,
+      options.limit
+    );
+  }
+
+  public static async createMessage(channelId: string, message: RESTPostAPIChannelMessageJSONBody, files?: DiscordApiFile[]): Promise<APIMessage> {
+    this.logger.debug(`createMessage - Sending message to channel ${channelId}`);
+    return this.call(Routes.channelMessages(channelId), 'POST', message, { files });
+  }
+
+  public static async editMessage(
+    channelId: string,
+    messageId: string,
+    message: RESTPatchAPIChannelMessageJSONBody,
+    files?: DiscordApiFile[]
+  ): Promise<APIMessage> {
+    this.logger.debug(`editMessage - Editing message ${messageId} in channel ${channelId}`);
+    return this.call(Routes.channelMessage(channelId, messageId), 'PATCH', message, { files });
+  }
+
+  public static async deleteMessage(channelId: string, messageId: string, reason?: string): Promise<void> {
+    this.logger.info(`deleteMessage - Deleting message ${messageId} in channel ${channelId}`);
+    await this.call(Routes.channelMessage(channelId, messageId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Webhooks
+   */
+  public static async getChannelWebhooks(channelId: string): Promise<APIWebhook[]> {
+    this.logger.debug(`getChannelWebhooks - Fetching webhooks of channel ${channelId}`);
+    return this.call(Routes.channelWebhooks(channelId), 'GET');
+  }
+
+  public static async createWebhook(channelId: string, webhookData: RESTPostAPIChannelWebhookJSONBody, reason?: string): Promise<APIWebhook> {
+    this.logger.info(`createWebhook - Creating webhook "${webhookData.name}" in channel ${channelId}`);
+    return this.call(Routes.channelWebhooks(channelId), 'POST', webhookData, { reason });
+  }
+
+  public static async deleteWebhook(webhookId: string, reason?: string): Promise<void> {
+    this.logger.info(`deleteWebhook - Deleting webhook ${webhookId}`);
+    await this.call(Routes.webhook(webhookId), 'DELETE', undefined, { reason });
+  }
+
+  /**
+   * Send a message through a webhook, waiting for Discord to return the created message
+   */
+  public static async executeWebhook(
+    webhookId: string,
+    webhookToken: string,
+    message: RESTPostAPIWebhookWithTokenJSONBody,
+    files?: DiscordApiFile[]
+  ): Promise<APIMessage> {
+    this.logger.debug(`executeWebhook - Executing webhook ${webhookId}`);
+    return this.call(Routes.webhook(webhookId, webhookToken), 'POST', message, { files, query: { wait: true } });
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * A single validation error for a request field
+ */
+export interface DiscordFieldError {
+  code: string;
+  message: string;
+}
+
+/**
+ * Error thrown by DiscordApi when Discord rejects a request
+ * Carries the HTTP status, Discord's JSON error code and any per-field errors
+ */
+export class DiscordApiError extends Error {
+  /** Field errors flattened by path, e.g. { 'name': [...], 'permission_overwrites.0.id': [...] } */
+  public readonly fieldErrors: Record<string, DiscordFieldError[]>;
+
+  constructor(
+    public readonly method: string,
+    public readonly endpoint: string,
+    public readonly status: number,
+    /** Discord JSON error code (0 when the response had none) */
+    public readonly code: number,
+    public readonly discordMessage: string,
+    rawErrors?: unknown
+  ) {
+    const fieldErrors = DiscordApiError.flattenErrors(rawErrors);
+    const details = Object.entries(fieldErrors)
+      .map(([path, errors]) => `${path}: ${errors.map(error => error.message).join(', ')}`)
+      .join('; ');
+
+    super(`Discord API error ${code || status} on ${method} ${endpoint}: ${discordMessage}${details ? ` (${details})` : ''}`);
+    this.name = 'DiscordApiError';
+    this.fieldErrors = fieldErrors;
+  }
+
+  /**
+   * Build an error from a failed response, whether or not its body is JSON
+   */
+  public static async fromResponse(method: string, endpoint: string, response: Response): Promise<DiscordApiError> {
+    const text = await response.text();
+
+    try {
+      const body = JSON.parse(text);
+      return new DiscordApiError(method, endpoint, response.status, body.code ?? 0, body.message ?? response.statusText, body.errors);
+    } catch {
+      return new DiscordApiError(method, endpoint, response.status, 0, text || response.statusText);
+    }
+  }
+
+  /**
+   * Whether Discord reported this JSON error code (see RESTJSONErrorCodes)
+   */
+  public hasCode(code: number): boolean {
+    return this.code === code;
+  }
+
+  /**
+   * Flatten Discord's nested { field: { _errors: [...] } } structure into paths
+   */
+  private static flattenErrors(errors: unknown, path = ''): Record<string, DiscordFieldError[]> {
+    if (!errors || typeof errors !== 'object') return {};
+
+    const result: Record<string, DiscordFieldError[]> = {};
+    for (const [key, value] of Object.entries(errors)) {
+      if (key === '_errors' && Array.isArray(value)) {
+        result[path || '(body)'] = value;
+      } else {
+        Object.assign(result, this.flattenErrors(value, path ? `${path}.${key}` : key));
+      }
+    }
+    return result;
+  }
+}
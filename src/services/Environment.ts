@@ -1,90 +1,153 @@
-import { Logger } from './Logger.js';
+import { ConsoleTransport, Logger, LogLevel, LogTransport } from './Logger.js';
+import { FileTransport } from './FileTransport.js';
+import { Config, ConfigError, ConfigSection, ConfigShape, InferConfig } from './Config.js';
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const satisfies readonly LogLevel[];
+
+/**
+ * Settings every bot needs
+ */
+const CORE_FIELDS = {
+  discordToken: Config.string({
+    env: 'DISCORD_TOKEN',
+    description: 'Bot token from the Discord Developer Portal',
+    required: true,
+    secret: true,
+    validate: token => isValidDiscordToken(token) ? undefined : 'has an invalid format'
+  }),
+  discordClientId: Config.snowflake({
+    env: 'DISCORD_CLIENT_ID',
+    description: 'Bot client ID from the Discord Developer Portal',
+    required: true,
+    example: '123456789012345678'
+  }),
+  nodeEnv: Config.string({
+    env: 'NODE_ENV',
+    description: 'Environment mode (development enables debug logging)',
+    default: 'production'
+  }),
+  developerIds: Config.list({
+    env: 'DEVELOPER_IDS',
+    description: 'Comma-separated user IDs allowed to use developer commands',
+    of: Config.parseSnowflake
+  }),
+  devGuildIds: Config.list({
+    env: 'DEV_GUILD_IDS',
+    description: 'Comma-separated guild IDs used by npm run register -- --dev and hot reload',
+    of: Config.parseSnowflake
+  }),
+  logLevel: Config.enum(LOG_LEVELS, {
+    env: 'LOG_LEVEL',
+    description: 'Minimum log level (defaults to debug in development, info otherwise)'
+  }),
+  logLevels: Config.list({
+    env: 'LOG_LEVELS',
+    description: 'Per-context log levels, e.g. InteractionServer=warn,Bot=debug',
+    of: parseLogLevelEntry
+  }),
+  logFormat: Config.enum(['pretty', 'json'], {
+    env: 'LOG_FORMAT',
+    description: 'Console log format: pretty or json (one object per line)',
+    default: 'pretty'
+  }),
+  logFile: Config.string({
+    env: 'LOG_FILE',
+    description: 'Also write JSON logs to this file'
+  }),
+  logFileMaxBytes: Config.int({
+    env: 'LOG_FILE_MAX_BYTES',
+    description: 'Rotate the log file once it grows past this size',
+    default: '10485760',
+    min: 1
+  }),
+  logFileMaxFiles: Config.int({
+    env: 'LOG_FILE_MAX_FILES',
+    description: 'Number of rotated log files to keep',
+    default: '5',
+    min: 0
+  })
+};
+
+/**
+ * Typed configuration returned by Environment.getConfig()
+ */
+export type EnvironmentConfig = Omit<InferConfig<typeof CORE_FIELDS>, 'logLevel' | 'logLevels'> & {
+  logLevel: LogLevel;
+  logLevels: Record<string, LogLevel>;
+  isDevelopment: boolean;
+  isProduction: boolean;
+};
 
 /**
  * Environment validation service
- * Ensures all required environment variables are present and valid
+ * Settings are declared as typed config sections; the core section lives here,
+ * services and commands contribute their own with defineSection()
  */
 export class Environment {
   private static logger = new Logger({ context: 'Environment' });
 
+  private static readonly core = new ConfigSection('core', CORE_FIELDS);
+
+  /** Every known section, in the order they were defined */
+  private static readonly sections: ConfigSection<any>[] = [Environment.core];
+
   /**
-   * Required environment variables for the bot to function
+   * Declare a config section, validated together with every other section
+   * Call at module level so the section exists before Environment.validate() runs
+   * @param validate Cross-field checks, returning error messages
    */
-  private static readonly REQUIRED_VARS = [
-    'DISCORD_TOKEN',
-    'DISCORD_CLIENT_ID'
-  ] as const;
+  public static defineSection<S extends ConfigShape>(
+    name: string,
+    fields: S,
+    validate?: (values: InferConfig<S>) => string[]
+  ): ConfigSection<S> {
+    if (this.sections.some(section => section.name === name)) {
+      throw new Error(`Config section "${name}" is already defined`);
+    }
+
+    const section = new ConfigSection(name, fields, validate);
+    this.sections.push(section);
+    return section;
+  }
 
   /**
-   * Optional environment variables with default values
+   * Get all config sections
    */
-  private static readonly OPTIONAL_VARS = {
-    NODE_ENV: 'production',
-    DEVELOPER_IDS: ''
-  } as const;
+  public static getSections(): readonly ConfigSection<any>[] {
+    return this.sections;
+  }
 
   /**
-   * Validate all required environment variables
-   * @throws Error if any required variables are missing or invalid
+   * Validate every config section, reporting all problems at once
+   * @throws ConfigError listing every missing or invalid variable
    */
   public static validate(): void {
-    this.logger.info('validate - Validating environment variables...');
-
-    const missing: string[] = [];
-    const invalid: string[] = [];
-
-    // Check required variables
-    for (const varName of this.REQUIRED_VARS) {
-      const value = process.env[varName];
-      
-      if (!value) {
-        missing.push(varName);
-        continue;
-      }
+    const coreIssues = this.core.load();
+    const issues = [...coreIssues, ...this.sections.filter(section => section !== this.core).flatMap(section => section.load())];
 
-      // Validate specific variables
-      switch (varName) {
-        case 'DISCORD_TOKEN':
-          if (!this.isValidDiscordToken(value)) {
-            invalid.push(`${varName} (invalid format)`);
-          }
-          break;
-        
-        case 'DISCORD_CLIENT_ID':
-          if (!this.isValidDiscordId(value)) {
-            invalid.push(`${varName} (invalid format)`);
-          }
-          break;
-      }
+    // Apply logging settings first, so everything below is logged in the configured format
+    if (coreIssues.length === 0) {
+      this.configureLogging();
     }
 
-    // Check optional variables and set defaults
-    for (const [varName, defaultValue] of Object.entries(this.OPTIONAL_VARS)) {
-      if (!process.env[varName]) {
-        process.env[varName] = defaultValue;
-        this.logger.info(`validate - Set default for ${varName}: ${defaultValue}`);
-      }
-    }
+    this.logger.info(`validate - Validated ${this.sections.length} config sections: ${this.sections.map(section => section.name).join(', ')}`);
 
-    // Validate DEVELOPER_IDS format if provided
-    if (process.env.DEVELOPER_IDS) {
-      const devIds = process.env.DEVELOPER_IDS.split(',').map(id => id.trim());
-      for (const id of devIds) {
-        if (id && !this.isValidDiscordId(id)) {
-          invalid.push(`DEVELOPER_IDS contains invalid ID: ${id}`);
+    // Expose defaults through process.env too, for code that reads it directly
+    for (const section of this.sections) {
+      for (const field of section.getFields()) {
+        const { env, default: defaultValue } = field.options;
+        if (defaultValue !== undefined && !process.env[env]) {
+          process.env[env] = defaultValue;
+          this.logger.info(`validate - Set default for ${env}: ${defaultValue}`);
         }
       }
     }
 
     // Report validation results
-    if (missing.length > 0) {
-      this.logger.error(`validate - Missing required environment variables: ${missing.join(', ')}`);
-      throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
-    }
-
-    if (invalid.length > 0) {
-      this.logger.error(`validate - Invalid environment variables: ${invalid.join(', ')}`);
-      throw new Error(`Invalid environment variables: ${invalid.join(', ')}`);
+    if (issues.length > 0) {
+      const error = new ConfigError(issues);
+      this.logger.error(`validate - ${error.message}`);
+      throw error;
     }
 
     this.logger.info('validate - Environment validation passed ✅');
@@ -92,33 +155,78 @@ export class Environment {
   }
 
   /**
-   * Validate Discord token format
+   * Generate .env.example content from every config section
+   */
+  public static generateEnvExample(): string {
+    const lines = ['# Generated from the config schema by `npm run env:example`', ''];
+
+    for (const section of this.sections) {
+      lines.push(`# --- ${section.name} ---`);
+
+      for (const field of section.getFields()) {
+        const { env, description, required, secret, example, default: defaultValue } = field.options;
+        lines.push(`# ${description}${required ? ' (required)' : ''}`);
+        const value = secret ? '' : example ?? defaultValue ?? '';
+        lines.push(required ? `${env}=${value}` : `# ${env}=${value}`);
+      }
+
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Apply the logging settings: levels, format, token redaction and the optional file transport
    */
-  private static isValidDiscordToken(token: string): boolean {
-    // Discord bot tokens follow the pattern: MTxxxxxxxxxxxxxxxxx.xxxxxx.xxxxxxxxxxxxxxxxxxxxxxxxxxx
-    // or newer format with different structure
-    return token.length > 50 && (token.includes('.') || token.startsWith('Bot '));
+  private static configureLogging(): void {
+    const config = this.getConfig();
+
+    const transports: LogTransport[] = [new ConsoleTransport()];
+    if (config.logFile) {
+      transports.push(new FileTransport({
+        path: config.logFile,
+        maxBytes: config.logFileMaxBytes,
+        maxFiles: config.logFileMaxFiles
+      }));
+    }
+
+    Logger.configure({
+      level: config.logLevel,
+      levels: config.logLevels,
+      format: config.logFormat,
+      transports,
+      secrets: this.getSecrets()
+    });
+
+    if (config.logFile) {
+      this.logger.info(`configureLogging - Writing logs to ${config.logFile}`);
+    }
   }
 
   /**
-   * Validate Discord ID format (snowflake)
+   * Values of every secret field, for log redaction
    */
-  private static isValidDiscordId(id: string): boolean {
-    // Discord IDs are 17-20 digit snowflakes
-    return /^\d{17,20}$/.test(id);
+  private static getSecrets(): string[] {
+    return this.sections
+      .flatMap(section => section.getFields())
+      .filter(field => field.options.secret)
+      .map(field => process.env[field.options.env] ?? '')
+      .filter(Boolean);
   }
 
   /**
    * Log environment information (without sensitive data)
    */
   private static logEnvironmentInfo(): void {
-    this.logger.info(`validate - Environment: ${process.env.NODE_ENV}`);
-    this.logger.info(`validate - Discord Client ID: ${process.env.DISCORD_CLIENT_ID}`);
-    this.logger.info(`validate - Discord Token: ${this.maskToken(process.env.DISCORD_TOKEN!)}`);
-    
-    if (process.env.DEVELOPER_IDS) {
-      const devCount = process.env.DEVELOPER_IDS.split(',').filter(id => id.trim()).length;
-      this.logger.info(`validate - Developer IDs configured: ${devCount}`);
+    const config = this.getConfig();
+
+    this.logger.info(`validate - Environment: ${config.nodeEnv}`);
+    this.logger.info(`validate - Discord Client ID: ${config.discordClientId}`);
+    this.logger.info(`validate - Discord Token: ${this.maskToken(config.discordToken)}`);
+
+    if (config.developerIds.length > 0) {
+      this.logger.info(`validate - Developer IDs configured: ${config.developerIds.length}`);
     }
   }
 
@@ -132,15 +240,38 @@ export class Environment {
 
   /**
    * Get environment configuration object
+   * @throws ConfigError if the core settings are invalid
    */
-  public static getConfig() {
+  public static getConfig(): EnvironmentConfig {
+    const values = this.core.get();
+    const isDevelopment = values.nodeEnv === 'development';
+
     return {
-      discordToken: process.env.DISCORD_TOKEN!,
-      discordClientId: process.env.DISCORD_CLIENT_ID!,
-      nodeEnv: process.env.NODE_ENV!,
-      developerIds: process.env.DEVELOPER_IDS?.split(',').map(id => id.trim()).filter(Boolean) || [],
-      isDevelopment: process.env.NODE_ENV === 'development',
-      isProduction: process.env.NODE_ENV === 'production'
+      ...values,
+      logLevel: values.logLevel ?? (isDevelopment ? 'debug' : 'info'),
+      logLevels: Object.fromEntries(values.logLevels),
+      isDevelopment,
+      isProduction: values.nodeEnv === 'production'
     };
   }
 }
+
+/**
+ * Validate Discord token format
+ */
+function isValidDiscordToken(token: string): boolean {
+  // Discord bot tokens follow the pattern: MTxxxxxxxxxxxxxxxxx.xxxxxx.xxxxxxxxxxxxxxxxxxxxxxxxxxx
+  // or newer format with different structure
+  return token.length > 50 && (token.includes('.') || token.startsWith('Bot '));
+}
+
+/**
+ * Parse a Context=level entry of LOG_LEVELS
+ */
+function parseLogLevelEntry(entry: string): [string, LogLevel] {
+  const [context, level] = entry.split('=').map(part => part.trim());
+  if (!context || !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(`expected Context=${LOG_LEVELS.join('|')}`);
+  }
+  return [context, level as LogLevel];
+}
@@ -0,0 +1,73 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { LogEntry, LogFormat, LogTransport, Logger } from './Logger.js';
+
+/**
+ * Options for the rotating file transport
+ */
+export interface FileTransportOptions {
+  /** File to write to; rotated files get .1, .2, ... suffixes */
+  path: string;
+  /** Rotate once the file would grow past this size (default 10 MB) */
+  maxBytes?: number;
+  /** Number of rotated files to keep (default 5) */
+  maxFiles?: number;
+  /** Line format (default json) */
+  format?: LogFormat;
+}
+
+/**
+ * Log transport that appends lines to a file and rotates it by size
+ * Writes are synchronous so entries logged right before a crash are not lost
+ */
+export class FileTransport implements LogTransport {
+  private readonly path: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly format: LogFormat;
+  private size: number;
+
+  constructor(options: FileTransportOptions) {
+    this.path = options.path;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.format = options.format ?? 'json';
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+  }
+
+  public write(entry: LogEntry): void {
+    const line = `${Logger.format(entry, this.format)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+
+    appendFileSync(this.path, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Shift app.log -> app.log.1 -> app.log.2 ..., dropping the oldest
+   */
+  private rotate(): void {
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const source = `${this.path}.${index}`;
+      if (existsSync(source)) {
+        renameSync(source, `${this.path}.${index + 1}`);
+      }
+    }
+
+    if (this.maxFiles > 0) {
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      rmSync(this.path, { force: true });
+    }
+
+    this.size = 0;
+  }
+}
@@ -0,0 +1,233 @@
+import {
+  ApplicationCommandOptionType,
+  Interaction,
+  Locale,
+  LocalizationMap
+} from 'discord.js';
+import type { CommandHelpInfo } from '../core/Command.js';
+import { messages } from '../locales/en-US.js';
+import { ALL_LOCALES } from '../locales/index.js';
+import { Config } from './Config.js';
+import { Environment } from './Environment.js';
+import { Logger } from './Logger.js';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> };
+
+type MessagePaths<T, P extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string ? `${P}${K}` : MessagePaths<T[K], `${P}${K}.`>
+}[keyof T & string];
+
+/**
+ * Dotted key of a message in the default catalog, e.g. 'validation.guildOnly'
+ */
+export type MessageKey = MessagePaths<typeof messages>;
+
+/**
+ * Values for {placeholders} in a message
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Looks up messages in one locale
+ */
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Translated option name, description and choice names (keyed by choice value)
+ */
+export interface OptionLocalization {
+  name?: string;
+  description?: string;
+  choices?: Record<string, string>;
+}
+
+/**
+ * Translated metadata for a command or subcommand, keyed by the names used in the command classes
+ */
+export interface CommandLocalization {
+  name?: string;
+  description?: string;
+  help?: Partial<Pick<CommandHelpInfo, 'description' | 'usage' | 'examples'>>;
+  options?: Record<string, OptionLocalization>;
+  subcommands?: Record<string, CommandLocalization>;
+}
+
+/**
+ * A locale's messages, command metadata and category names
+ */
+export interface LocaleCatalog {
+  locale: Locale;
+  messages: DeepPartial<typeof messages>;
+  commands?: Record<string, CommandLocalization>;
+  categories?: Record<string, string>;
+}
+
+/**
+ * Command, option or choice data as it appears in registration JSON
+ */
+interface LocalizableData {
+  name: string;
+  name_localizations?: LocalizationMap | null;
+  description?: string;
+  description_localizations?: LocalizationMap | null;
+  type?: number;
+  options?: LocalizableData[];
+  choices?: { name: string; value: string | number; name_localizations?: LocalizationMap | null }[];
+}
+
+export const i18nConfig = Environment.defineSection('i18n', {
+  defaultLocale: Config.enum(ALL_LOCALES.map(catalog => catalog.locale), {
+    env: 'DEFAULT_LOCALE',
+    description: 'Locale used when neither the user\'s nor the server\'s locale has a catalog',
+    default: Locale.EnglishUS
+  })
+});
+
+/**
+ * Localization service
+ * Replies are looked up by the interaction's locale, then the guild's, then DEFAULT_LOCALE;
+ * registration data gets name and description localizations from every catalog
+ */
+export class I18n {
+  private static logger = new Logger({ context: 'I18n' });
+  private static catalogs = new Map<string, LocaleCatalog>(ALL_LOCALES.map(catalog => [catalog.locale, catalog]));
+
+  /**
+   * Add or replace a catalog at runtime
+   */
+  public static register(catalog: LocaleCatalog): void {
+    this.catalogs.set(catalog.locale, catalog);
+    this.logger.debug(`register - Registered catalog for ${catalog.locale}`);
+  }
+
+  /**
+   * Get every locale with a catalog
+   */
+  public static getLocales(): string[] {
+    return [...this.catalogs.keys()];
+  }
+
+  public static getDefaultLocale(): string {
+    return i18nConfig.get().defaultLocale;
+  }
+
+  /**
+   * Pick the first candidate with a catalog, matching on language when there is no exact match (es-419 uses es-ES)
+   */
+  public static resolveLocale(...candidates: (string | null | undefined)[]): string {
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      if (this.catalogs.has(candidate)) return candidate;
+
+      const language = candidate.split('-')[0];
+      const match = this.getLocales().find(locale => locale.split('-')[0] === language);
+      if (match) return match;
+    }
+
+    return this.getDefaultLocale();
+  }
+
+  /**
+   * Get the locale to reply in: the user's, then the guild's
+   */
+  public static getInteractionLocale(interaction: Interaction): string {
+    return this.resolveLocale(interaction.locale, interaction.guildLocale);
+  }
+
+  /**
+   * Get a translator for an interaction's locale
+   */
+  public static forInteraction(interaction: Interaction): Translator {
+    return this.translator(this.getInteractionLocale(interaction));
+  }
+
+  public static translator(locale: string): Translator {
+    return (key, params) => this.t(locale, key, params);
+  }
+
+  /**
+   * Look up a message, falling back to the default locale and then to the built-in English text
+   */
+  public static t(locale: string, key: MessageKey, params?: MessageParams): string {
+    const path = key.split('.');
+    const template = this.lookup(this.catalogs.get(locale)?.messages, path)
+      ?? this.lookup(this.catalogs.get(this.getDefaultLocale())?.messages, path)
+      ?? this.lookup(messages, path)
+      ?? key;
+
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+  }
+
+  /**
+   * Get the translated metadata of a command or subcommand, e.g. ['dev', 'test']
+   */
+  public static getCommandLocalization(locale: string, path: string[]): CommandLocalization | undefined {
+    let localization = this.catalogs.get(locale)?.commands?.[path[0]];
+    for (const segment of path.slice(1)) {
+      localization = localization?.subcommands?.[segment];
+    }
+    return localization;
+  }
+
+  public static getCategory(locale: string, category: string): string {
+    return this.catalogs.get(locale)?.categories?.[category] ?? category;
+  }
+
+  /**
+   * Add name and description localizations from every catalog to registration data,
+   * including options, subcommands and choices
+   */
+  public static localizeCommand<T extends object>(data: T): T {
+    const command = data as unknown as LocalizableData;
+
+    for (const catalog of this.catalogs.values()) {
+      const localization = catalog.commands?.[command.name];
+      if (localization) {
+        this.applyLocalization(command, localization, catalog.locale);
+      }
+    }
+
+    return data;
+  }
+
+  private static applyLocalization(
+    target: LocalizableData,
+    localization: CommandLocalization & OptionLocalization,
+    locale: Locale
+  ): void {
+    if (localization.name) {
+      (target.name_localizations ??= {})[locale] = localization.name;
+    }
+
+    // Context menu commands have no description
+    if (localization.description && target.description) {
+      (target.description_localizations ??= {})[locale] = localization.description;
+    }
+
+    for (const option of target.options ?? []) {
+      const isSubcommand = option.type === ApplicationCommandOptionType.Subcommand
+        || option.type === ApplicationCommandOptionType.SubcommandGroup;
+      const child = isSubcommand ? localization.subcommands?.[option.name] : localization.options?.[option.name];
+      if (child) {
+        this.applyLocalization(option, child, locale);
+      }
+    }
+
+    for (const choice of target.choices ?? []) {
+      const name = localization.choices?.[String(choice.value)];
+      if (name) {
+        (choice.name_localizations ??= {})[locale] = name;
+      }
+    }
+  }
+
+  private static lookup(tree: unknown, path: string[]): string | undefined {
+    let node = tree;
+    for (const segment of path) {
+      if (!node || typeof node !== 'object') return undefined;
+      node = (node as Record<string, unknown>)[segment];
+    }
+    return typeof node === 'string' ? node : undefined;
+  }
+}
@@ -0,0 +1,59 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'node:crypto';
+
+/**
+ * Ed25519 signature helpers for Discord's HTTP interactions endpoint
+ * Discord signs every request with the application's public key pair
+ */
+export class InteractionVerifier {
+  /** DER prefixes that wrap raw 32-byte Ed25519 keys */
+  private static readonly SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+  private static readonly PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+  /**
+   * Verify a request signature
+   * @param body Raw request body, exactly as received
+   * @param signature Value of the X-Signature-Ed25519 header (hex)
+   * @param timestamp Value of the X-Signature-Timestamp header
+   * @param publicKey Application public key from the Developer Portal (hex)
+   */
+  public static verify(body: string | Buffer, signature: string, timestamp: string, publicKey: string): boolean {
+    try {
+      const key = createPublicKey({
+        key: Buffer.concat([this.SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+        format: 'der',
+        type: 'spki'
+      });
+
+      return verify(null, Buffer.concat([Buffer.from(timestamp), Buffer.from(body)]), key, Buffer.from(signature, 'hex'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sign a request body, used to post local fixtures to the interactions endpoint
+   * @param privateKey Raw 32-byte private key (hex)
+   * @returns Hex signature for the X-Signature-Ed25519 header
+   */
+  public static sign(body: string | Buffer, timestamp: string, privateKey: string): string {
+    const key = createPrivateKey({
+      key: Buffer.concat([this.PKCS8_PREFIX, Buffer.from(privateKey, 'hex')]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+
+    return sign(null, Buffer.concat([Buffer.from(timestamp), Buffer.from(body)]), key).toString('hex');
+  }
+
+  /**
+   * Generate a raw hex key pair for local testing
+   */
+  public static generateKeyPair(): { publicKey: string; privateKey: string } {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+    return {
+      publicKey: publicKey.export({ format: 'der', type: 'spki' }).subarray(this.SPKI_PREFIX.length).toString('hex'),
+      privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(this.PKCS8_PREFIX.length).toString('hex')
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { StorageDriver } from './Storage.js';
+import { Logger } from './Logger.js';
+
+type Data = Record<string, Record<string, unknown>>;
+
+/**
+ * Storage in a single JSON file, loaded on open and rewritten after each change
+ * Suited to small bots; use SQLite once the data grows
+ */
+export class JsonFileStorage implements StorageDriver {
+  public readonly name = 'json';
+  private logger = new Logger({ context: 'JsonFileStorage' });
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private constructor(private path: string, private data: Data) {}
+
+  /**
+   * Load the file, starting empty if it does not exist yet
+   */
+  public static async open(path: string): Promise<JsonFileStorage> {
+    try {
+      return new JsonFileStorage(path, JSON.parse(await readFile(path, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new JsonFileStorage(path, {});
+      }
+      throw new Error(`Could not read storage file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  public async get(namespace: string, key: string): Promise<unknown> {
+    const value = this.data[namespace]?.[key];
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  public async set(namespace: string, key: string, value: unknown): Promise<void> {
+    (this.data[namespace] ??= {})[key] = JSON.parse(JSON.stringify(value));
+    await this.save();
+  }
+
+  public async delete(namespace: string, key: string): Promise<boolean> {
+    if (!this.data[namespace] || !(key in this.data[namespace])) return false;
+
+    delete this.data[namespace][key];
+    await this.save();
+    return true;
+  }
+
+  public async entries(namespace: string, prefix = ''): Promise<[string, unknown][]> {
+    return Object.entries(this.data[namespace] ?? {})
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, value]) => [key, structuredClone(value)]);
+  }
+
+  public async clear(namespace: string): Promise<void> {
+    delete this.data[namespace];
+    await this.save();
+  }
+
+  public async close(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  /**
+   * Write the whole file, one write at a time, through a temporary file so a crash never leaves it half-written
+   */
+  private save(): Promise<void> {
+    const write = async () => {
+      const tempPath = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(this.data, null, 2));
+      await rename(tempPath, this.path);
+    };
+
+    this.pendingWrite = this.pendingWrite.then(write, write).catch(error => {
+      this.logger.error(`save - Failed to write ${this.path}:`, error);
+      throw error;
+    });
+    return this.pendingWrite;
+  }
+}
@@ -1,62 +1,296 @@
+import { formatWithOptions, inspect } from 'node:util';
+
+/**
+ * Log levels, from most to least verbose ('silent' disables logging)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Output format for transports
+ */
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+  command?: string;
+  guildId?: string | null;
+  userId?: string;
+  durationMs?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A single log record as handed to transports
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: Exclude<LogLevel, 'silent'>;
+  context?: string;
+  message: string;
+  fields: LogFields;
+  args: unknown[];
+  error?: unknown;
+}
+
+/**
+ * Destination for log entries (console, file, log shipper...)
+ */
+export interface LogTransport {
+  write(entry: LogEntry): void;
+  close?(): void;
+}
+
 /**
- * Simple logging service with optional context support
+ * Global logger settings, see Logger.configure()
+ */
+export interface LoggerOptions {
+  /** Minimum level for all contexts (defaults to debug in development, info otherwise) */
+  level?: LogLevel;
+  /** Minimum level per context, e.g. { InteractionServer: 'warn' } */
+  levels?: Record<string, LogLevel>;
+  /** Format used by the console transport */
+  format?: LogFormat;
+  /** Replaces the default console transport */
+  transports?: LogTransport[];
+  /** Literal values (tokens, keys) to redact from every entry */
+  secrets?: string[];
+  /** Fields added to every entry, e.g. { shardId: '0' } in a shard process */
+  fields?: LogFields;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const REDACTED = '[REDACTED]';
+
+/** Field names whose values are always redacted */
+const SENSITIVE_KEY = /token|authorization|password|secret|private_?key/i;
+
+/** Token shapes redacted wherever they appear */
+const SENSITIVE_PATTERNS: [RegExp, string][] = [
+  // Bot tokens: base64 user ID, timestamp and HMAC
+  [/[MNO][A-Za-z\d_-]{23,28}\.[A-Za-z\d_-]{6}\.[A-Za-z\d_-]{27,}/g, REDACTED],
+  // Authorization headers
+  [/\b(Bot|Bearer) [A-Za-z\d._-]{20,}/g, `$1 ${REDACTED}`],
+  // Webhook and interaction tokens in URLs
+  [/(\/webhooks\/\d+\/)[A-Za-z\d_-]+/g, `$1${REDACTED}`],
+  [/(\/interactions\/\d+\/)[A-Za-z\d_-]+/g, `$1${REDACTED}`]
+];
+
+/**
+ * Console transport, writing pretty or JSON lines to stdout/stderr
+ */
+export class ConsoleTransport implements LogTransport {
+  constructor(private format?: LogFormat) {}
+
+  public write(entry: LogEntry): void {
+    const line = Logger.format(entry, this.format ?? Logger.getFormat());
+
+    switch (entry.level) {
+      case 'error':
+        console.error(line);
+        break;
+      case 'warn':
+        console.warn(line);
+        break;
+      case 'debug':
+        console.debug(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+}
+
+/**
+ * Leveled logging service with optional context, structured fields and pluggable transports
  */
 export class Logger {
+  private static options: LoggerOptions = {};
+  private static transports: LogTransport[] = [new ConsoleTransport()];
+  private static rootLogger = new Logger();
+
   private context?: string;
-  
-  constructor(options?: { context?: string }) {
+  private fields: LogFields;
+
+  constructor(options?: { context?: string; fields?: LogFields }) {
     this.context = options?.context;
+    this.fields = options?.fields ?? {};
   }
 
-  private static formatTimestamp(): string {
-    return new Date().toISOString();
+  /**
+   * Configure levels, format, transports and secrets for every logger
+   */
+  public static configure(options: LoggerOptions): void {
+    this.options = { ...this.options, ...options };
+    if (options.transports) {
+      this.transports = options.transports;
+    }
+  }
+
+  /**
+   * Add a transport alongside the existing ones
+   */
+  public static addTransport(transport: LogTransport): void {
+    this.transports.push(transport);
+  }
+
+  /**
+   * Close all transports (e.g. on shutdown)
+   */
+  public static close(): void {
+    for (const transport of this.transports) {
+      transport.close?.();
+    }
+  }
+
+  /**
+   * Get the configured console format
+   */
+  public static getFormat(): LogFormat {
+    return this.options.format ?? 'pretty';
+  }
+
+  /**
+   * Whether a level is logged for a context
+   */
+  public static isEnabled(level: LogLevel, context?: string): boolean {
+    const defaultLevel = process.env.NODE_ENV === 'development' ? 'debug' : 'info';
+    const minimum = (context && this.options.levels?.[context]) || this.options.level || defaultLevel;
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[minimum];
+  }
+
+  /**
+   * Format an entry as a single line (pretty) or a JSON object per line, with secrets redacted
+   */
+  public static format(entry: LogEntry, format: LogFormat): string {
+    if (format === 'json') {
+      const { args, error, fields, ...rest } = entry;
+      const record: Record<string, unknown> = { ...rest, ...fields };
+      if (args.length > 0) record.args = args;
+      if (error !== undefined) record.error = error;
+      return this.redact(this.toJson(record));
+    }
+
+    const contextTag = entry.context ? `[${entry.context}]` : `[${entry.level.toUpperCase()}]`;
+    const fields = Object.entries(entry.fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${key}=${SENSITIVE_KEY.test(key) ? REDACTED : typeof value === 'string' ? value : inspect(value)}`)
+      .join('');
+    const message = formatWithOptions({ colors: false }, entry.message, ...entry.args);
+    let line = `[${entry.timestamp}] ${contextTag} ${message}${fields}`;
+    if (entry.error !== undefined) {
+      line += `\n${inspect(entry.error)}`;
+    }
+    return this.redact(line);
+  }
+
+  /**
+   * Remove configured secrets and known token shapes from text
+   */
+  public static redact(text: string): string {
+    let redacted = text;
+
+    for (const secret of this.options.secrets ?? []) {
+      if (secret.length >= 8) {
+        redacted = redacted.split(secret).join(REDACTED);
+      }
+    }
+
+    for (const [pattern, replacement] of SENSITIVE_PATTERNS) {
+      redacted = redacted.replace(pattern, replacement);
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Serialize to JSON, handling errors, bigints, cycles and sensitive keys
+   */
+  private static toJson(value: unknown): string {
+    const seen = new WeakSet<object>();
+
+    return JSON.stringify(value, (key, item) => {
+      if (key && SENSITIVE_KEY.test(key) && typeof item === 'string') return REDACTED;
+      if (typeof item === 'bigint') return item.toString();
+      if (item instanceof Error) return { ...item, name: item.name, message: item.message, stack: item.stack };
+      if (item && typeof item === 'object') {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Create a logger with a different context and the same structured fields
+   */
+  public child(context: string): Logger {
+    return new Logger({ context, fields: this.fields });
+  }
+
+  /**
+   * Create a logger with the same context and additional structured fields
+   */
+  public with(fields: LogFields): Logger {
+    return new Logger({ context: this.context, fields: { ...this.fields, ...fields } });
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, args: unknown[], error?: unknown): void {
+    if (!Logger.isEnabled(level, this.context)) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      context: this.context,
+      message,
+      fields: { ...Logger.options.fields, ...this.fields },
+      args,
+      error
+    };
+
+    for (const transport of Logger.transports) {
+      try {
+        transport.write(entry);
+      } catch (transportError) {
+        // Never let a broken transport take the bot down
+        console.error('Logger transport failed:', transportError);
+      }
+    }
   }
 
   // Instance methods (with context)
   public info(message: string, ...args: any[]): void {
-    const contextTag = this.context ? `[${this.context}]` : '[INFO]';
-    console.log(`[${Logger.formatTimestamp()}] ${contextTag} ${message}`, ...args);
+    this.write('info', message, args);
   }
 
   public warn(message: string, ...args: any[]): void {
-    const contextTag = this.context ? `[${this.context}]` : '[WARN]';
-    console.warn(`[${Logger.formatTimestamp()}] ${contextTag} ${message}`, ...args);
+    this.write('warn', message, args);
   }
 
   public error(message: string, error?: any): void {
-    const contextTag = this.context ? `[${this.context}]` : '[ERROR]';
-    console.error(`[${Logger.formatTimestamp()}] ${contextTag} ${message}`);
-    if (error) {
-      console.error(error);
-    }
+    this.write('error', message, [], error);
   }
 
   public debug(message: string, ...args: any[]): void {
-    if (process.env.NODE_ENV === 'development') {
-      const contextTag = this.context ? `[${this.context}]` : '[DEBUG]';
-      console.debug(`[${Logger.formatTimestamp()}] ${contextTag} ${message}`, ...args);
-    }
+    this.write('debug', message, args);
   }
 
   // Static methods (without context - for backwards compatibility)
   public static info(message: string, ...args: any[]): void {
-    console.log(`[${this.formatTimestamp()}] [INFO] ${message}`, ...args);
+    this.rootLogger.info(message, ...args);
   }
 
   public static warn(message: string, ...args: any[]): void {
-    console.warn(`[${this.formatTimestamp()}] [WARN] ${message}`, ...args);
+    this.rootLogger.warn(message, ...args);
   }
 
   public static error(message: string, error?: any): void {
-    console.error(`[${this.formatTimestamp()}] [ERROR] ${message}`);
-    if (error) {
-      console.error(error);
-    }
+    this.rootLogger.error(message, error);
   }
 
   public static debug(message: string, ...args: any[]): void {
-    if (process.env.NODE_ENV === 'development') {
-      console.debug(`[${this.formatTimestamp()}] [DEBUG] ${message}`, ...args);
-    }
+    this.rootLogger.debug(message, ...args);
   }
 }
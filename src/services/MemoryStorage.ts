@@ -0,0 +1,40 @@
+import type { StorageDriver } from './Storage.js';
+
+/**
+ * In-process storage, lost on restart (the default, and handy for tests)
+ * Values are kept as JSON so they behave like the persistent drivers
+ */
+export class MemoryStorage implements StorageDriver {
+  public readonly name = 'memory';
+  private namespaces = new Map<string, Map<string, string>>();
+
+  public async get(namespace: string, key: string): Promise<unknown> {
+    const json = this.namespaces.get(namespace)?.get(key);
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  public async set(namespace: string, key: string, value: unknown): Promise<void> {
+    if (!this.namespaces.has(namespace)) {
+      this.namespaces.set(namespace, new Map());
+    }
+    this.namespaces.get(namespace)!.set(key, JSON.stringify(value));
+  }
+
+  public async delete(namespace: string, key: string): Promise<boolean> {
+    return this.namespaces.get(namespace)?.delete(key) ?? false;
+  }
+
+  public async entries(namespace: string, prefix = ''): Promise<[string, unknown][]> {
+    return [...this.namespaces.get(namespace) ?? []]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, json]) => [key, JSON.parse(json)]);
+  }
+
+  public async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+
+  public async close(): Promise<void> {
+    this.namespaces.clear();
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Label values of one series, e.g. { command: 'ping' }
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Prometheus metric types supported by the registry
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Base for metrics: one value (or histogram) per distinct set of labels
+ */
+abstract class Metric<V> {
+  protected series: Map<string, { labels: MetricLabels; value: V }> = new Map();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly type: MetricType
+  ) {}
+
+  /**
+   * Render the HELP and TYPE lines followed by every series
+   */
+  public render(): string[] {
+    return [`# HELP ${this.name} ${Metric.escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+  }
+
+  protected abstract renderSeries(): string[];
+
+  /**
+   * Get the series for a set of labels, creating it with an initial value
+   */
+  protected getSeries(labels: MetricLabels, create: () => V): { labels: MetricLabels; value: V } {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: create() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  /**
+   * Format a sample line: name{label="value",...} value
+   */
+  protected static formatSample(name: string, labels: MetricLabels, value: number): string {
+    const entries = Object.entries(labels);
+    const labelText = entries.length > 0
+      ? `{${entries.map(([key, labelValue]) => `${key}="${Metric.escapeLabel(labelValue)}"`).join(',')}}`
+      : '';
+    return `${name}${labelText} ${Metric.formatValue(value)}`;
+  }
+
+  private static formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+
+  private static escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  private static escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+  }
+}
+
+/**
+ * Value that only goes up, e.g. invocations
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: MetricLabels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} can only increase`);
+    }
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  public get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels, () => 0).value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(series => Metric.formatSample(this.name, series.labels, series.value));
+  }
+}
+
+/**
+ * Value that goes up and down, either set directly or read when metrics are rendered
+ */
+export class Gauge extends Metric<number> {
+  /**
+   * @param collect Read the (unlabeled) value on every render instead of setting it
+   */
+  constructor(name: string, help: string, private collect?: () => number) {
+    super(name, help, 'gauge');
+  }
+
+  public set(value: number, labels: MetricLabels = {}): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  public inc(labels: MetricLabels = {}, amount = 1): void {
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  public dec(labels: MetricLabels = {}, amount = 1): void {
+    this.getSeries(labels, () => 0).value -= amount;
+  }
+
+  protected renderSeries(): string[] {
+    if (this.collect) {
+      this.set(this.collect());
+    }
+    return [...this.series.values()].map(series => Metric.formatSample(this.name, series.labels, series.value));
+  }
+}
+
+interface HistogramValue {
+  /** Observations per bucket (not cumulative) */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, e.g. durations in seconds
+ */
+export class Histogram extends Metric<HistogramValue> {
+  /** Prometheus client defaults, in seconds */
+  public static readonly DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = Histogram.DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(value: number, labels: MetricLabels = {}): void {
+    const series = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) {
+      series.counts[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => {
+      let cumulative = 0;
+      const buckets = this.buckets.map((bound, index) => {
+        cumulative += value.counts[index];
+        return Metric.formatSample(`${this.name}_bucket`, { ...labels, le: String(bound) }, cumulative);
+      });
+
+      return [
+        ...buckets,
+        Metric.formatSample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count),
+        Metric.formatSample(`${this.name}_sum`, labels, value.sum),
+        Metric.formatSample(`${this.name}_count`, labels, value.count)
+      ];
+    });
+  }
+}
+
+/**
+ * Named metrics, rendered in the Prometheus text exposition format
+ * Asking for an existing name returns the same metric, so modules can share metrics without passing them around
+ */
+export class MetricsRegistry {
+  /** Content type of render() */
+  public static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private metrics: Map<string, Metric<unknown>> = new Map();
+
+  public counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, Counter, () => new Counter(name, help));
+  }
+
+  /**
+   * @param collect Read the value on every render instead of setting it
+   */
+  public gauge(name: string, help: string, collect?: () => number): Gauge {
+    return this.getOrCreate(name, Gauge, () => new Gauge(name, help, collect));
+  }
+
+  public histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.getOrCreate(name, Histogram, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render every metric in the order they were created
+   */
+  public render(): string {
+    return [...this.metrics.values()].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  private getOrCreate<M extends Metric<any>>(name: string, type: new (...args: any[]) => M, create: () => M): M {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,182 @@
+import { Logger } from './Logger.js';
+
+/**
+ * Rate limit state for one bucket, with a queue so requests in it run one at a time
+ */
+class RateLimitBucket {
+  public remaining = 1;
+  public resetAt = 0;
+  public pending = 0;
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Run a task after every task queued before it
+   */
+  public enqueue<T>(task: () => Promise<T>): Promise<T> {
+    this.pending++;
+    const result = this.tail.then(task);
+    this.tail = result.then(() => undefined, () => undefined);
+    return result.finally(() => this.pending--);
+  }
+}
+
+/**
+ * Client-side Discord rate limiting
+ * Tracks per-route buckets from X-RateLimit-* headers and the global limit, delaying requests instead of hitting 429s
+ */
+export class RateLimiter {
+  /** Discord allows 50 requests per second per bot across all routes */
+  private static readonly GLOBAL_LIMIT = 50;
+
+  /** Resources whose ID is a major parameter: each ID gets its own bucket */
+  private static readonly MAJOR_RESOURCES = ['channels', 'guilds', 'webhooks'];
+
+  private logger = new Logger({ context: 'RateLimiter' });
+  private buckets = new Map<string, RateLimitBucket>();
+  private routeHashes = new Map<string, string>();
+  private globalResetAt = 0;
+  private globalWindowStart = 0;
+  private globalCount = 0;
+  private requestCount = 0;
+
+  /**
+   * Queue a request on its bucket, wait out any known limit, send it and record the returned limits
+   * A 429 is returned to the caller (after recording when to retry) so it can decide whether to try again
+   */
+  public async schedule(method: string, endpoint: string, send: () => Promise<Response>): Promise<Response> {
+    const route = RateLimiter.getRouteKey(method, endpoint);
+    const bucket = this.getBucket(route);
+
+    if (++this.requestCount % 100 === 0) {
+      this.sweep();
+    }
+
+    return bucket.enqueue(async () => {
+      await this.waitForGlobal();
+
+      const bucketDelay = bucket.remaining <= 0 ? bucket.resetAt - Date.now() : 0;
+      if (bucketDelay > 0) {
+        this.logger.debug(`schedule - Bucket exhausted for ${route}, waiting ${bucketDelay}ms`);
+        await RateLimiter.sleep(bucketDelay);
+      }
+
+      const response = await send();
+      await this.update(route, bucket, response);
+      return response;
+    });
+  }
+
+  /**
+   * Wait for a global 429 to pass and keep under the per-second global limit
+   */
+  private async waitForGlobal(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (this.globalResetAt > now) {
+        await RateLimiter.sleep(this.globalResetAt - now);
+        continue;
+      }
+
+      if (now - this.globalWindowStart >= 1000) {
+        this.globalWindowStart = now;
+        this.globalCount = 0;
+      }
+
+      if (this.globalCount < RateLimiter.GLOBAL_LIMIT) {
+        this.globalCount++;
+        return;
+      }
+
+      await RateLimiter.sleep(this.globalWindowStart + 1000 - now);
+    }
+  }
+
+  /**
+   * Record the limits returned with a response
+   */
+  private async update(route: string, bucket: RateLimitBucket, response: Response): Promise<void> {
+    const hash = response.headers.get('x-ratelimit-bucket');
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const resetAfter = response.headers.get('x-ratelimit-reset-after');
+
+    if (hash && this.routeHashes.get(route) !== hash) {
+      this.routeHashes.set(route, hash);
+      // Routes that share a hash share a bucket, so later requests queue on the shared one
+      this.buckets.set(this.getBucketKey(route), bucket);
+    }
+
+    if (remaining !== null) bucket.remaining = Number(remaining);
+    if (resetAfter !== null) bucket.resetAt = Date.now() + Number(resetAfter) * 1000;
+
+    if (response.status !== 429) return;
+
+    const body = await response.clone().json().catch(() => ({})) as { retry_after?: number; global?: boolean };
+    const retryAfter = Number(body.retry_after ?? response.headers.get('retry-after') ?? 1) * 1000;
+
+    if (body.global || response.headers.get('x-ratelimit-global')) {
+      this.globalResetAt = Date.now() + retryAfter;
+      this.logger.warn(`update - Hit global rate limit, pausing all requests for ${retryAfter}ms`);
+    } else {
+      bucket.remaining = 0;
+      bucket.resetAt = Date.now() + retryAfter;
+      this.logger.warn(`update - Hit rate limit on ${route} (${response.headers.get('x-ratelimit-scope') ?? 'user'}), retrying in ${retryAfter}ms`);
+    }
+  }
+
+  private getBucket(route: string): RateLimitBucket {
+    const key = this.getBucketKey(route);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new RateLimitBucket();
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Buckets are identified by Discord's hash plus the route's major parameter, or by the route until the hash is known
+   */
+  private getBucketKey(route: string): string {
+    const hash = this.routeHashes.get(route);
+    return hash ? `${hash}:${RateLimiter.getMajorParameter(route)}` : route;
+  }
+
+  /**
+   * Drop idle buckets whose limits have long reset
+   */
+  private sweep(): void {
+    const cutoff = Date.now() - 60_000;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.pending === 0 && bucket.resetAt < cutoff) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Route key used before a bucket hash is known: IDs other than the major parameter are replaced
+   * e.g. PATCH /channels/123/messages/456 -> PATCH /channels/123/messages/:id
+   */
+  public static getRouteKey(method: string, endpoint: string): string {
+    const segments = endpoint.split('?')[0].split('/');
+    const path = segments
+      .map((segment, index) => {
+        if (index === 2 && RateLimiter.MAJOR_RESOURCES.includes(segments[1])) return segment;
+        if (index === 3 && segments[1] === 'webhooks') return ':token';
+        return /^\d{16,}$/.test(segment) ? ':id' : segment;
+      })
+      .join('/');
+
+    // Reactions share one bucket per message regardless of emoji
+    return `${method} ${path.replace(/\/reactions\/.*/, '/reactions')}`;
+  }
+
+  private static getMajorParameter(route: string): string {
+    return route.split(' ')[1].split('/')[2] ?? 'global';
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
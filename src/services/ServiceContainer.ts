@@ -0,0 +1,169 @@
+import type { DiscordApi } from './DiscordApi.js';
+import { Logger } from './Logger.js';
+import type { MetricsRegistry } from './Metrics.js';
+
+/**
+ * Typed key for a service in a ServiceContainer
+ * Tokens are compared by identity; the name is only used in log and error messages
+ */
+export class ServiceToken<T> {
+  /** Carries the service type for get(); never set */
+  declare readonly type?: T;
+
+  constructor(public readonly name: string) {}
+}
+
+/**
+ * Lifecycle hooks passed when registering a service
+ * Without them, the service's own init() and dispose() methods are used if it has them
+ */
+export interface ServiceHooks<T> {
+  /** Runs on Bot start, in registration order */
+  init?(service: T, container: ServiceContainer): Promise<void> | void;
+  /** Runs on Bot stop, in reverse registration order */
+  dispose?(service: T): Promise<void> | void;
+}
+
+/**
+ * A service that manages its own lifecycle
+ */
+export interface LifecycleService {
+  init?(): Promise<void> | void;
+  dispose?(): Promise<void> | void;
+}
+
+interface Registration<T> {
+  token: ServiceToken<T>;
+  factory: (container: ServiceContainer) => T;
+  hooks: ServiceHooks<T>;
+  instance?: T;
+  created: boolean;
+}
+
+/** Root logger, disposing it closes the log transports */
+export const LOGGER = new ServiceToken<Logger>('Logger');
+
+/** Discord REST client; register a subclass to swap in a fake */
+export const DISCORD_API = new ServiceToken<typeof DiscordApi>('DiscordApi');
+
+/** Prometheus metrics served on /metrics; commands can add their own */
+export const METRICS = new ServiceToken<MetricsRegistry>('Metrics');
+
+/**
+ * Registry of bot services, keyed by typed tokens
+ * Services are created on first use, initialized when the bot starts and disposed when it stops
+ */
+export class ServiceContainer {
+  private logger = new Logger({ context: 'ServiceContainer' });
+  private registrations = new Map<ServiceToken<unknown>, Registration<any>>();
+  private initialized: Registration<any>[] = [];
+  private resolving = new Set<ServiceToken<unknown>>();
+
+  /**
+   * Register a service instance, replacing any earlier registration for the token
+   */
+  public register<T>(token: ServiceToken<T>, service: T, hooks: ServiceHooks<T> = {}): this {
+    return this.registerFactory(token, () => service, hooks);
+  }
+
+  /**
+   * Register a service created on first use, so it can get() the services it needs
+   */
+  public registerFactory<T>(token: ServiceToken<T>, factory: (container: ServiceContainer) => T, hooks: ServiceHooks<T> = {}): this {
+    if (this.initialized.length > 0) {
+      throw new Error(`Cannot register service ${token.name} after the services were initialized`);
+    }
+
+    if (this.registrations.has(token)) {
+      this.logger.debug(`registerFactory - Replacing service ${token.name}`);
+    }
+
+    this.registrations.set(token, { token, factory, hooks, created: false });
+    return this;
+  }
+
+  /**
+   * Whether a service is registered for the token
+   */
+  public has(token: ServiceToken<unknown>): boolean {
+    return this.registrations.has(token);
+  }
+
+  /**
+   * Get a service, creating it on first use
+   * @throws Error if no service is registered for the token, or factories depend on each other in a cycle
+   */
+  public get<T>(token: ServiceToken<T>): T {
+    const registration = this.registrations.get(token) as Registration<T> | undefined;
+    if (!registration) {
+      throw new Error(`Service ${token.name} is not registered`);
+    }
+
+    if (!registration.created) {
+      if (this.resolving.has(token)) {
+        throw new Error(`Circular service dependency: ${[...this.resolving, token].map(t => t.name).join(' -> ')}`);
+      }
+
+      this.resolving.add(token);
+      try {
+        registration.instance = registration.factory(this);
+        registration.created = true;
+      } finally {
+        this.resolving.delete(token);
+      }
+    }
+
+    return registration.instance as T;
+  }
+
+  /**
+   * Get the tokens that have no registered service
+   */
+  public getMissing(tokens: ServiceToken<unknown>[]): ServiceToken<unknown>[] {
+    return [...new Set(tokens)].filter(token => !this.has(token));
+  }
+
+  /**
+   * Create every service and run its init hook, in registration order
+   * Stops at the first failure, disposing the services already initialized
+   */
+  public async init(): Promise<void> {
+    for (const registration of this.registrations.values()) {
+      try {
+        const service = this.get(registration.token);
+        if (registration.hooks.init) {
+          await registration.hooks.init(service, this);
+        } else {
+          await (service as LifecycleService | undefined)?.init?.();
+        }
+        this.initialized.push(registration);
+      } catch (error) {
+        await this.dispose();
+        throw new Error(`Failed to initialize service ${registration.token.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    this.logger.debug(`init - Initialized ${this.initialized.length} services`);
+  }
+
+  /**
+   * Run the dispose hooks of initialized services in reverse order
+   * Errors are logged so every service gets a chance to clean up
+   */
+  public async dispose(): Promise<void> {
+    const registrations = this.initialized.reverse();
+    this.initialized = [];
+
+    for (const registration of registrations) {
+      try {
+        if (registration.hooks.dispose) {
+          await registration.hooks.dispose(registration.instance);
+        } else {
+          await (registration.instance as LifecycleService | undefined)?.dispose?.();
+        }
+      } catch (error) {
+        this.logger.error(`dispose - Failed to dispose service ${registration.token.name}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { StorageDriver } from './Storage.js';
+
+/**
+ * Storage in a SQLite database (requires the optional better-sqlite3 dependency)
+ * One table keyed by namespace and key, with values stored as JSON
+ */
+export class SqliteStorage implements StorageDriver {
+  public readonly name = 'sqlite';
+
+  private statements: {
+    get: BetterSqlite3.Statement<[string, string], { value: string }>;
+    set: BetterSqlite3.Statement<[string, string, string]>;
+    delete: BetterSqlite3.Statement<[string, string]>;
+    entries: BetterSqlite3.Statement<[{ namespace: string; prefix: string }], { key: string; value: string }>;
+    clear: BetterSqlite3.Statement<[string]>;
+  };
+
+  private constructor(private db: BetterSqlite3.Database) {
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (namespace, key)
+      ) WITHOUT ROWID
+    `);
+
+    this.statements = {
+      get: db.prepare('SELECT value FROM entries WHERE namespace = ? AND key = ?'),
+      set: db.prepare('INSERT INTO entries (namespace, key, value) VALUES (?, ?, ?) ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value'),
+      delete: db.prepare('DELETE FROM entries WHERE namespace = ? AND key = ?'),
+      // substr() rather than LIKE, so keys containing % or _ match literally
+      entries: db.prepare('SELECT key, value FROM entries WHERE namespace = @namespace AND substr(key, 1, length(@prefix)) = @prefix ORDER BY key'),
+      clear: db.prepare('DELETE FROM entries WHERE namespace = ?')
+    };
+  }
+
+  /**
+   * Open (or create) the database file
+   * better-sqlite3 is loaded here, so bots using other drivers don't need it installed
+   */
+  public static async open(path: string): Promise<SqliteStorage> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error('STORAGE_DRIVER=sqlite requires the better-sqlite3 package: npm install better-sqlite3');
+    }
+
+    mkdirSync(dirname(path), { recursive: true });
+    return new SqliteStorage(new Database(path));
+  }
+
+  public async get(namespace: string, key: string): Promise<unknown> {
+    const row = this.statements.get.get(namespace, key);
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  public async set(namespace: string, key: string, value: unknown): Promise<void> {
+    this.statements.set.run(namespace, key, JSON.stringify(value));
+  }
+
+  public async delete(namespace: string, key: string): Promise<boolean> {
+    return this.statements.delete.run(namespace, key).changes > 0;
+  }
+
+  public async entries(namespace: string, prefix = ''): Promise<[string, unknown][]> {
+    return this.statements.entries.all({ namespace, prefix }).map(row => [row.key, JSON.parse(row.value)]);
+  }
+
+  public async clear(namespace: string): Promise<void> {
+    this.statements.clear.run(namespace);
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+}
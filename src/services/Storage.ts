@@ -0,0 +1,184 @@
+import { Config } from './Config.js';
+import { Environment } from './Environment.js';
+import { Logger } from './Logger.js';
+import { MemoryStorage } from './MemoryStorage.js';
+import { JsonFileStorage } from './JsonFileStorage.js';
+import { SqliteStorage } from './SqliteStorage.js';
+
+/**
+ * Backend for Storage: a flat key-value store partitioned by namespace
+ * Values are JSON-serializable; drivers store them as JSON so every backend behaves the same
+ */
+export interface StorageDriver {
+  readonly name: string;
+  get(namespace: string, key: string): Promise<unknown>;
+  set(namespace: string, key: string, value: unknown): Promise<void>;
+  delete(namespace: string, key: string): Promise<boolean>;
+  /** Entries of a namespace, optionally only keys starting with a prefix */
+  entries(namespace: string, prefix?: string): Promise<[string, unknown][]>;
+  clear(namespace: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * A versioned change to a namespace's data, applied once in version order
+ */
+export interface Migration {
+  version: number;
+  description?: string;
+  up(store: Store<any>): Promise<void>;
+}
+
+/** Namespace holding the applied migration version of every other namespace */
+const MIGRATIONS_NAMESPACE = '__migrations';
+
+export const storageConfig = Environment.defineSection('storage', {
+  driver: Config.enum(['memory', 'json', 'sqlite'], {
+    env: 'STORAGE_DRIVER',
+    description: 'Storage backend: memory (lost on restart), json (not with SHARDING) or sqlite',
+    default: 'memory'
+  }),
+  path: Config.string({
+    env: 'STORAGE_PATH',
+    description: 'Data file for the json and sqlite drivers (defaults to data/storage.json or data/storage.db)'
+  })
+});
+
+/**
+ * A namespace of the configured storage, e.g. one per command or module
+ * Can be created before Storage.open(); the driver is looked up on each call
+ */
+export class Store<T = unknown> {
+  private logger = new Logger({ context: 'Store' });
+
+  constructor(public readonly namespace: string) {}
+
+  public async get(key: string): Promise<T | undefined> {
+    return await Storage.getDriver().get(this.namespace, key) as T | undefined;
+  }
+
+  public async set(key: string, value: T): Promise<void> {
+    await Storage.getDriver().set(this.namespace, key, value);
+  }
+
+  /**
+   * @returns Whether the key existed
+   */
+  public async delete(key: string): Promise<boolean> {
+    return Storage.getDriver().delete(this.namespace, key);
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== undefined;
+  }
+
+  /**
+   * Get all entries, optionally only keys starting with a prefix (e.g. a guild ID)
+   */
+  public async entries(prefix?: string): Promise<[string, T][]> {
+    return await Storage.getDriver().entries(this.namespace, prefix) as [string, T][];
+  }
+
+  public async keys(prefix?: string): Promise<string[]> {
+    return (await this.entries(prefix)).map(([key]) => key);
+  }
+
+  public async clear(): Promise<void> {
+    await Storage.getDriver().clear(this.namespace);
+  }
+
+  /**
+   * Apply migrations newer than the namespace's recorded version, in version order
+   * @returns The version after migrating
+   */
+  public async migrate(migrations: Migration[]): Promise<number> {
+    const versions = new Store<number>(MIGRATIONS_NAMESPACE);
+    let version = await versions.get(this.namespace) ?? 0;
+
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+    const duplicate = sorted.find((migration, index) => index > 0 && sorted[index - 1].version === migration.version);
+    if (duplicate) {
+      throw new Error(`Duplicate migration version ${duplicate.version} for namespace "${this.namespace}"`);
+    }
+
+    for (const migration of sorted.filter(migration => migration.version > version)) {
+      this.logger.info(`migrate - ${this.namespace}: Applying v${migration.version}${migration.description ? ` (${migration.description})` : ''}`);
+      await migration.up(this);
+      version = migration.version;
+      await versions.set(this.namespace, version);
+    }
+
+    return version;
+  }
+}
+
+/**
+ * Persistent storage service
+ * The driver is selected with STORAGE_DRIVER, opened when the bot starts and closed in Bot.stop()
+ */
+export class Storage {
+  private static logger = new Logger({ context: 'Storage' });
+  private static driver?: StorageDriver;
+
+  /**
+   * Open the configured driver, or the given one (e.g. a custom backend)
+   */
+  public static async open(driver?: StorageDriver): Promise<void> {
+    if (this.driver) {
+      throw new Error(`Storage is already open (${this.driver.name})`);
+    }
+
+    this.driver = driver ?? await this.createDriver();
+    this.logger.info(`open - Opened ${this.driver.name} storage`);
+  }
+
+  public static isOpen(): boolean {
+    return this.driver !== undefined;
+  }
+
+  /**
+   * Get a namespaced store
+   */
+  public static namespace<T = unknown>(name: string): Store<T> {
+    if (name === MIGRATIONS_NAMESPACE) {
+      throw new Error(`Namespace "${name}" is reserved`);
+    }
+    return new Store<T>(name);
+  }
+
+  /**
+   * Get the open driver
+   * @throws Error if Storage.open() has not been called
+   */
+  public static getDriver(): StorageDriver {
+    if (!this.driver) {
+      throw new Error('Storage is not open; call Storage.open() or start the bot first');
+    }
+    return this.driver;
+  }
+
+  /**
+   * Flush and close the driver
+   */
+  public static async close(): Promise<void> {
+    if (!this.driver) return;
+
+    const driver = this.driver;
+    this.driver = undefined;
+    await driver.close();
+    this.logger.info(`close - Closed ${driver.name} storage`);
+  }
+
+  private static async createDriver(): Promise<StorageDriver> {
+    const { driver, path } = storageConfig.get();
+
+    switch (driver) {
+      case 'json':
+        return JsonFileStorage.open(path ?? 'data/storage.json');
+      case 'sqlite':
+        return SqliteStorage.open(path ?? 'data/storage.db');
+      default:
+        return new MemoryStorage();
+    }
+  }
+}
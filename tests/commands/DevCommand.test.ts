@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { DevCommand } from '../../src/commands/DevCommand.js';
+import { TestHarness } from '../kit/index.js';
+
+const DEVELOPER_ID = '1100000000000000001';
+
+describe('DevCommand', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ commands: [new DevCommand()], env: { DEVELOPER_IDS: DEVELOPER_ID }, ping: 33 });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('is only available to developers', async () => {
+    const interaction = harness.chatInput('dev', { subcommand: 'info' });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses.length, 1);
+    assert.equal(interaction.responses[0].content, '❌ This command is for developers only.');
+    assert.equal(interaction.responses[0].ephemeral, true);
+  });
+
+  it('shows the environment and configured developers privately', async () => {
+    const interaction = harness.chatInput('dev', { subcommand: 'info', user: { id: DEVELOPER_ID } });
+    await harness.run(interaction);
+
+    const response = interaction.responses[0];
+    assert.equal(response.ephemeral, true);
+    assert.equal(response.embeds[0].title, '🔧 Development Information');
+    assert.match(response.embeds[0].fields![0].value, /\*\*Mode\*\*: test/);
+    assert.match(response.embeds[0].fields![1].value, new RegExp(`\\*\\*IDs\\*\\*: ${DEVELOPER_ID}`));
+    assert.equal(response.embeds[0].fields![3].name, '🧩 Shards (1)');
+    assert.match(response.embeds[0].fields![3].value, /^\*\*#0\*\*: 0 servers, 33ms/);
+  });
+
+  it('reports test timings by editing its reply', async () => {
+    const interaction = harness.chatInput('dev', { subcommand: 'test', user: { id: DEVELOPER_ID } });
+    await harness.run(interaction);
+
+    assert.deepEqual(interaction.responses.map(response => response.method), ['reply', 'editReply']);
+    assert.equal(interaction.responses[0].content, '🧪 Running developer test...');
+    assert.equal(interaction.responses[0].ephemeral, true);
+    assert.match(interaction.responses[1].content!, /\*\*Duration\*\*: \d+ms/);
+    assert.match(interaction.responses[1].content!, /\*\*API Latency\*\*: 33ms/);
+  });
+
+  it('rejects unknown subcommands', async () => {
+    const interaction = harness.chatInput('dev', { subcommand: 'deploy', user: { id: DEVELOPER_ID } });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].content, '❌ Unknown subcommand.');
+  });
+
+  it('answers in the interaction locale', async () => {
+    const interaction = harness.chatInput('dev', { subcommand: 'info', user: { id: DEVELOPER_ID }, locale: 'de' });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.title, '🔧 Entwicklungsinformationen');
+    assert.match(embed.fields![0].value, /\*\*Entwicklung\*\*: Nein/);
+    assert.match(embed.fields![3].value, /^\*\*#0\*\*: 0 Server, 33ms/);
+  });
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ModalBuilder } from 'discord.js';
+import { ExampleCommand } from '../../src/commands/ExampleCommand.js';
+import { MockData, TestHarness } from '../kit/index.js';
+
+describe('ExampleCommand', () => {
+  let harness: TestHarness;
+  let command: ExampleCommand;
+
+  beforeEach(async () => {
+    command = new ExampleCommand();
+    harness = await TestHarness.create({ commands: [command] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('can only be used in servers', async () => {
+    const interaction = harness.chatInput('example', { subcommand: 'server' });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].content, '❌ This command can only be used in servers.');
+  });
+
+  it('needs the bot to be able to send messages', async () => {
+    const guild = harness.addGuild();
+    const interaction = harness.chatInput('example', { subcommand: 'server', guild, appPermissions: [] });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].content, '❌ Bot missing required permissions: SendMessages');
+  });
+
+  it('shows the invoking user with their roles', async () => {
+    const guild = harness.addGuild({ roles: [{ id: '1110000000000000001', name: 'Moderator' }] });
+    const interaction = harness.chatInput('example', {
+      subcommand: 'user',
+      guild,
+      user: { id: '1100000000000000001', username: 'alice' },
+      member: { roles: ['1110000000000000001'] }
+    });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.description, 'Information about alice');
+    assert.match(embed.fields![0].value, /\*\*ID:\*\* 1100000000000000001/);
+    assert.equal(embed.fields![2].value, '<@&1110000000000000001>');
+  });
+
+  it('shows a target user that is not in the server', async () => {
+    const guild = harness.addGuild();
+    const target = MockData.user({ username: 'bob', bot: true });
+    const interaction = harness.chatInput('example', { subcommand: 'user', guild, options: { target } });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.description, 'Information about bob');
+    assert.match(embed.fields![0].value, /\*\*Bot:\*\* Yes/);
+    assert.match(embed.fields![1].value, /\*\*Joined Server:\*\* Not in server/);
+  });
+
+  it('shows server statistics from the guild cache', async () => {
+    const guild = harness.addGuild({
+      name: 'Testers',
+      description: 'A place to test',
+      roles: [{ name: 'Moderator' }, { name: 'Member' }],
+      memberCount: 42
+    });
+    const interaction = harness.chatInput('example', { subcommand: 'server', guild });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.description, 'Information about Testers');
+    assert.match(embed.fields![0].value, /\*\*Members:\*\* 42/);
+    assert.match(embed.fields![0].value, /\*\*Roles:\*\* 3/);
+    assert.equal(embed.fields![2].value, 'A place to test');
+  });
+
+  it('only lets the invoking user answer the confirmation', async () => {
+    const guild = harness.addGuild();
+    const user = { id: '1100000000000000001' };
+    const interaction = harness.chatInput('example', { subcommand: 'confirm', guild, user });
+    await harness.run(interaction);
+    assert.equal(interaction.responses[0].content, '❓ Are you sure you want to continue?');
+
+    const someoneElse = harness.button(command.createCustomId('confirm', user.id, 'yes'), { guild });
+    await harness.run(someoneElse);
+    assert.equal(someoneElse.responses[0].content, '❌ Only the person who ran this command can answer.');
+    assert.equal(someoneElse.responses[0].ephemeral, true);
+
+    const confirm = harness.button(command.createCustomId('confirm', user.id, 'yes'), { guild, user });
+    await harness.run(confirm);
+    assert.equal(confirm.responses[0].method, 'update');
+    assert.equal(confirm.responses[0].content, '✅ Confirmed!');
+  });
+
+  it('opens a feedback form and echoes the submission privately', async () => {
+    const guild = harness.addGuild();
+    const interaction = harness.chatInput('example', { subcommand: 'feedback', guild });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].method, 'showModal');
+    const modal = interaction.responses[0].options as ModalBuilder;
+    assert.equal(modal.data.title, 'Feedback');
+
+    const submit = harness.modalSubmit(modal.data.custom_id!, { message: 'Great bot' }, { guild });
+    await harness.run(submit);
+    assert.equal(submit.responses[0].content, '📝 Thanks for your feedback!\n>>> Great bot');
+    assert.equal(submit.responses[0].ephemeral, true);
+  });
+
+  it('answers in the interaction locale, also from its buttons and forms', async () => {
+    const guild = harness.addGuild();
+    const target = MockData.user({ username: 'bob', bot: true });
+    const user = harness.chatInput('example', { subcommand: 'user', guild, options: { target }, locale: 'fr' });
+    await harness.run(user);
+
+    const [embed] = user.responses[0].embeds;
+    assert.equal(embed.description, 'Informations sur bob');
+    assert.match(embed.fields![0].value, /\*\*Bot :\*\* Oui/);
+    assert.match(embed.fields![1].value, /Pas sur le serveur/);
+
+    const submit = harness.modalSubmit(command.createCustomId('feedback'), { message: 'Super' }, { guild, locale: 'de' });
+    await harness.run(submit);
+    assert.equal(submit.responses[0].content, '📝 Danke für dein Feedback!\n>>> Super');
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ApplicationCommandOptionChoiceData } from 'discord.js';
+import { DevCommand } from '../../src/commands/DevCommand.js';
+import { ExampleCommand } from '../../src/commands/ExampleCommand.js';
+import { HelpCommand } from '../../src/commands/HelpCommand.js';
+import { PingCommand } from '../../src/commands/PingCommand.js';
+import { UserInfoCommand } from '../../src/commands/UserInfoCommand.js';
+import { GuildSettings } from '../../src/core/GuildSettings.js';
+import { TestHarness } from '../kit/index.js';
+
+describe('HelpCommand', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({
+      commands: [new HelpCommand(), new PingCommand(), new ExampleCommand(), new DevCommand(), new UserInfoCommand()]
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('lists slash commands by category and context menus separately', async () => {
+    const interaction = harness.chatInput('help');
+    await harness.run(interaction);
+
+    const fields = interaction.responses[0].embeds[0].fields!;
+    assert.deepEqual(fields.map(field => field.name), ['📂 Utility', '📂 Example', '📂 Developer', '🖱️ Context Menus']);
+    assert.match(fields[0].value, /`\/help`/);
+    assert.match(fields[0].value, /`\/ping`/);
+    assert.match(fields[3].value, /`User Info` \(right-click a user\)/);
+  });
+
+  it('hides commands and categories disabled in the server', async () => {
+    const guild = harness.addGuild();
+    await GuildSettings.update(guild.id, settings => {
+      settings.disabledCommands.push('ping');
+      settings.disabledCategories.push('developer');
+    });
+
+    const interaction = harness.chatInput('help', { guild });
+    await harness.run(interaction);
+
+    const fields = interaction.responses[0].embeds[0].fields!;
+    assert.deepEqual(fields.map(field => field.name), ['📂 Utility', '📂 Example', '🖱️ Context Menus']);
+    assert.doesNotMatch(fields[0].value, /`\/ping`/);
+  });
+
+  it('shows a command with its subcommands and restrictions', async () => {
+    const interaction = harness.chatInput('help', { options: { command: 'example' } });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.title, '📖 Help: /example');
+    const fields = Object.fromEntries(embed.fields!.map(field => [field.name, field.value]));
+    assert.match(fields['📚 Subcommands'], /`\/example confirm`/);
+    assert.equal(fields['🔒 Required Permissions'], 'SendMessages');
+    assert.match(fields['⚠️ Restrictions'], /^Server only, Cooldown: 3 uses per 15s \(user\)/);
+  });
+
+  it('shows a subcommand with its options', async () => {
+    const interaction = harness.chatInput('help', { options: { command: 'example user' } });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.title, '📖 Help: /example user');
+    assert.equal(embed.fields!.find(field => field.name === '⚙️ Options')?.value, '`target` (optional) - The user to get info about');
+  });
+
+  it('reports unknown commands and subcommands', async () => {
+    const unknownCommand = harness.chatInput('help', { options: { command: 'nope' } });
+    await harness.run(unknownCommand);
+    assert.equal(unknownCommand.responses[0].content, '❌ Command "nope" not found.');
+    assert.equal(unknownCommand.responses[0].ephemeral, true);
+
+    const unknownSubcommand = harness.chatInput('help', { options: { command: 'ping fast' } });
+    await harness.run(unknownSubcommand);
+    assert.equal(unknownSubcommand.responses[0].content, '❌ Subcommand "fast" not found for /ping.');
+  });
+
+  it('translates the help into the interaction locale', async () => {
+    const interaction = harness.chatInput('help', { options: { command: 'ping' }, locale: 'de' });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.description, 'Prüft, ob der Bot antwortet, und zeigt die Latenz an');
+  });
+
+  it('suggests commands and subcommand paths', async () => {
+    const interaction = harness.autocomplete('help', { focused: 'command', options: { command: 'ex' } });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].method, 'respond');
+    const choices = interaction.responses[0].options as ApplicationCommandOptionChoiceData[];
+    assert.deepEqual(choices.map(choice => choice.value), [
+      'example',
+      'example user',
+      'example server',
+      'example confirm',
+      'example feedback'
+    ]);
+  });
+});
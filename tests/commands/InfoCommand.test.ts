@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Client, ShardClientUtil, version as djsVersion } from 'discord.js';
+import { InfoCommand } from '../../src/commands/InfoCommand.js';
+import { TestHarness } from '../kit/index.js';
+
+const DEVELOPER_ID = '1100000000000000001';
+
+describe('InfoCommand', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ commands: [new InfoCommand()], env: { DEVELOPER_IDS: DEVELOPER_ID }, ping: 25 });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('replies with statistics and technical details', async () => {
+    harness.addGuild();
+    harness.addGuild();
+    const interaction = harness.chatInput('info', { user: { username: 'tester' } });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses.length, 1);
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.title, '🤖 Bot Information');
+    assert.match(embed.fields![0].value, /\*\*Servers:\*\* 2/);
+    assert.match(embed.fields![1].value, new RegExp(`\\*\\*Discord\\.js:\\*\\* v${djsVersion.replace(/\./g, '\\.')}`));
+    assert.match(embed.fields![1].value, /\*\*Ping:\*\* 25ms/);
+    assert.equal(embed.footer?.text, 'Requested by tester');
+  });
+
+  it('adds up statistics from every shard', async () => {
+    harness.addGuild();
+    const client = harness.bot.getClient();
+    client.shard = {
+      ids: [0],
+      count: 2,
+      broadcastEval: async (collect: (client: Client) => object) => [
+        collect(client),
+        { ...collect(client), id: 1, guilds: 4, users: 10, channels: 20 }
+      ]
+    } as unknown as ShardClientUtil;
+
+    const interaction = harness.chatInput('info');
+    await harness.run(interaction);
+
+    const statistics = interaction.responses[0].embeds[0].fields![0].value;
+    assert.match(statistics, /\*\*Servers:\*\* 5/);
+    assert.match(statistics, /\*\*Shard:\*\* 0 of 2/);
+  });
+
+  it('puts a user on a 10 second cooldown', async () => {
+    const user = { id: '1100000000000000002' };
+    await harness.run(harness.chatInput('info', { user }));
+
+    const second = harness.chatInput('info', { user });
+    await harness.run(second);
+
+    assert.equal(second.responses[0].content, '❌ You\'re on cooldown. Try again in 10s.');
+    assert.equal(second.responses[0].ephemeral, true);
+
+    const otherUser = harness.chatInput('info');
+    await harness.run(otherUser);
+    assert.equal(otherUser.responses[0].embeds.length, 1);
+  });
+
+  it('does not put developers on cooldown', async () => {
+    const user = { id: DEVELOPER_ID };
+    await harness.run(harness.chatInput('info', { user }));
+
+    const second = harness.chatInput('info', { user });
+    await harness.run(second);
+
+    assert.equal(second.responses[0].embeds[0].title, '🤖 Bot Information');
+  });
+
+  it('answers in the interaction locale', async () => {
+    const interaction = harness.chatInput('info', { user: { username: 'tester' }, locale: 'de' });
+    await harness.run(interaction);
+
+    const [embed] = interaction.responses[0].embeds;
+    assert.equal(embed.title, '🤖 Bot-Informationen');
+    assert.match(embed.fields![0].value, /\*\*Server:\*\* 0/);
+    assert.equal(embed.footer?.text, 'Angefordert von tester');
+  });
+});
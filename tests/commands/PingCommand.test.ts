@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { PingCommand } from '../../src/commands/PingCommand.js';
+import { TestHarness } from '../kit/index.js';
+
+describe('PingCommand', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ commands: [new PingCommand()], ping: 87 });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('replies, then edits the reply with the round trip and API latency', async () => {
+    const interaction = harness.chatInput('ping');
+    await harness.run(interaction);
+
+    assert.deepEqual(interaction.responses.map(response => response.method), ['reply', 'editReply']);
+    assert.equal(interaction.responses[0].content, 'Pinging...');
+    assert.match(interaction.responses[1].content!, /\*\*Latency:\*\* \d+ms/);
+    assert.match(interaction.responses[1].content!, /\*\*API Latency:\*\* 87ms/);
+  });
+
+  it('answers in the interaction locale', async () => {
+    const interaction = harness.chatInput('ping', { locale: 'de' });
+    await harness.run(interaction);
+
+    assert.equal(interaction.responses[0].content, 'Pinge...');
+    assert.match(interaction.responses[1].content!, /\*\*API-Latenz:\*\* 87ms/);
+  });
+});
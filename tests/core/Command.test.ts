@@ -0,0 +1,302 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ApplicationCommandOptionChoiceData, ApplicationCommandType, ApplicationIntegrationType, AutocompleteFocusedOption, AutocompleteInteraction, ChatInputCommandInteraction, InteractionContextType, PermissionsString, SlashCommandBuilder } from 'discord.js';
+import { Command, CommandHelpInfo } from '../../src/core/Command.js';
+import { CommandOptions } from '../../src/core/CommandOptions.js';
+import { CommandRegistrar } from '../../src/core/CommandRegistrar.js';
+import { CooldownOptions } from '../../src/core/CooldownTracker.js';
+import { CustomId } from '../../src/core/CustomId.js';
+import { GuildSettings } from '../../src/core/GuildSettings.js';
+import { ParentCommand } from '../../src/core/ParentCommand.js';
+import { Subcommand, SubcommandHelpInfo } from '../../src/core/Subcommand.js';
+import { MockChatInputOptions, TestHarness } from '../kit/index.js';
+
+const DEVELOPER_ID = '1100000000000000001';
+const MEMBER_ID = '1100000000000000002';
+const ALLOWED_ROLE_ID = '1110000000000000001';
+const DENIED_ROLE_ID = '1110000000000000002';
+
+const rollOptions = CommandOptions.define({
+  sides: { type: 'integer', description: 'Number of sides', required: true, min: 2, max: 100 }
+});
+
+/**
+ * Configurable command under test; every restriction is off unless a test turns it on
+ */
+class TestCommand extends Command<typeof rollOptions> {
+  public readonly options = rollOptions;
+  public readonly data = CommandOptions.apply(new SlashCommandBuilder().setName('roll').setDescription('Roll a die'), rollOptions);
+  public readonly helpInfo: CommandHelpInfo = { name: 'roll', description: 'Roll a die', usage: '/roll', examples: [], category: 'Games' };
+
+  public requiredPermissions: PermissionsString[] = [];
+  public memberPermissions: PermissionsString[] = [];
+  public allowedRoleIds: string[] = [];
+  public allowedUserIds: string[] = [];
+  public deniedRoleIds: string[] = [];
+  public deniedUserIds: string[] = [];
+  public guildOnly = false;
+  public developerOnly = false;
+  public configurable = true;
+  public cooldowns: CooldownOptions[] = [];
+
+  public async execute(): Promise<void> {}
+}
+
+class SecretSubcommand extends Subcommand {
+  public readonly name = 'secret';
+  public readonly description = 'Developer-only subcommand';
+  public readonly helpInfo: SubcommandHelpInfo = { description: 'Secret', usage: '/parent secret', examples: [] };
+  public readonly developerOnly = true;
+
+  public async execute(): Promise<void> {}
+}
+
+class OpenSubcommand extends Subcommand {
+  public readonly name = 'open';
+  public readonly description = 'Subcommand anyone can use';
+  public readonly helpInfo: SubcommandHelpInfo = { description: 'Open', usage: '/parent open', examples: [] };
+
+  public async execute(): Promise<void> {}
+}
+
+class TestParentCommand extends ParentCommand {
+  public readonly data = new SlashCommandBuilder().setName('parent').setDescription('Parent command');
+  public readonly subcommands = [new SecretSubcommand(), new OpenSubcommand()];
+  public readonly helpInfo: CommandHelpInfo = { name: 'parent', description: 'Parent', usage: '/parent', examples: [], category: 'Games' };
+}
+
+const travelOptions = CommandOptions.define({
+  country: { type: 'string', description: 'Country', required: true },
+  city: { type: 'string', description: 'City', required: true, autocomplete: true }
+});
+
+/**
+ * Suggests cities for the chosen country, counting how often it is asked
+ */
+class TravelCommand extends Command<typeof travelOptions> {
+  public readonly options = travelOptions;
+  public readonly data = CommandOptions.apply(new SlashCommandBuilder().setName('travel').setDescription('Plan a trip'), travelOptions);
+  public readonly helpInfo: CommandHelpInfo = { name: 'travel', description: 'Plan a trip', usage: '/travel', examples: [], category: 'Games' };
+
+  public lookups = 0;
+
+  public async autocomplete(interaction: AutocompleteInteraction, focused: AutocompleteFocusedOption): Promise<ApplicationCommandOptionChoiceData[]> {
+    this.lookups++;
+    const country = interaction.options.getString('country') ?? '';
+    return [{ name: `${focused.value} in ${country} for ${interaction.user.id}`, value: focused.value }];
+  }
+
+  public async execute(): Promise<void> {}
+}
+
+describe('Command.validate', () => {
+  let harness: TestHarness;
+  let command: TestCommand;
+
+  beforeEach(async () => {
+    command = new TestCommand();
+    harness = await TestHarness.create({ commands: [command, new TestParentCommand()], env: { DEVELOPER_IDS: DEVELOPER_ID } });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const validate = (target: Command, interaction: ChatInputCommandInteraction) =>
+    target.validate(interaction, harness.createContext(target, interaction));
+
+  // Cached members only report roles that exist in the guild, as in discord.js
+  const addGuild = () => harness.addGuild({ roles: [{ id: ALLOWED_ROLE_ID }, { id: DENIED_ROLE_ID }] });
+
+  const roll = (options: MockChatInputOptions = {}) =>
+    validate(command, harness.chatInput('roll', { ...options, options: { sides: 6, ...options.options } }));
+
+  it('parses valid options into args', async () => {
+    assert.deepEqual(await roll(), { valid: true, args: { sides: 6 } });
+  });
+
+  it('rejects missing and out of range options', async () => {
+    const missing = await validate(command, harness.chatInput('roll'));
+    assert.equal(missing.reason, 'Missing required option "sides".');
+
+    const outOfRange = await roll({ options: { sides: 1 } });
+    assert.equal(outOfRange.reason, 'Option "sides" must be between 2 and 100.');
+  });
+
+  it('rejects guild-only commands in DMs', async () => {
+    command.guildOnly = true;
+
+    assert.equal((await roll()).reason, 'This command can only be used in servers.');
+    assert.equal((await roll({ guild: harness.addGuild() })).valid, true);
+  });
+
+  it('checks the bot permissions sent with the interaction', async () => {
+    command.requiredPermissions = ['ManageRoles', 'SendMessages'];
+    const guild = harness.addGuild();
+
+    const missing = await roll({ guild, appPermissions: ['SendMessages'] });
+    assert.equal(missing.reason, 'Bot missing required permissions: ManageRoles, SendMessages');
+    assert.equal((await roll({ guild, appPermissions: ['ManageRoles', 'SendMessages'] })).valid, true);
+  });
+
+  it('checks the invoking member permissions', async () => {
+    command.memberPermissions = ['ManageGuild'];
+    const guild = harness.addGuild();
+
+    assert.equal((await roll()).reason, 'This command can only be used in servers.');
+    assert.equal((await roll({ guild })).reason, 'You need the following permissions: ManageGuild');
+    assert.equal((await roll({ guild, member: { permissions: ['ManageGuild'] } })).valid, true);
+  });
+
+  it('lets allowed roles and users in', async () => {
+    command.allowedRoleIds = [ALLOWED_ROLE_ID];
+    command.allowedUserIds = [MEMBER_ID];
+    const guild = addGuild();
+
+    assert.equal((await roll({ guild })).reason, 'You don\'t have a role that can use this command.');
+    assert.equal((await roll({ guild, member: { roles: [ALLOWED_ROLE_ID] } })).valid, true);
+    assert.equal((await roll({ guild, user: { id: MEMBER_ID } })).valid, true);
+  });
+
+  it('gives deny lists precedence over allow lists', async () => {
+    command.allowedRoleIds = [ALLOWED_ROLE_ID];
+    command.deniedRoleIds = [DENIED_ROLE_ID];
+    command.deniedUserIds = [MEMBER_ID];
+    const guild = addGuild();
+
+    const deniedRole = await roll({ guild, member: { roles: [ALLOWED_ROLE_ID, DENIED_ROLE_ID] } });
+    assert.equal(deniedRole.reason, 'You are not allowed to use this command.');
+
+    const deniedUser = await roll({ guild, user: { id: MEMBER_ID }, member: { roles: [ALLOWED_ROLE_ID] } });
+    assert.equal(deniedUser.reason, 'You are not allowed to use this command.');
+  });
+
+  it('limits developer-only commands to DEVELOPER_IDS', async () => {
+    command.developerOnly = true;
+
+    assert.equal((await roll()).reason, 'This command is for developers only.');
+    assert.equal((await roll({ user: { id: DEVELOPER_ID } })).valid, true);
+  });
+
+  it('applies the invoked subcommand restrictions', async () => {
+    const parent = harness.bot.getCommandManager().getCommand('parent')!;
+
+    const secret = await validate(parent, harness.chatInput('parent', { subcommand: 'secret' }));
+    assert.equal(secret.reason, 'This command is for developers only.');
+
+    assert.equal((await validate(parent, harness.chatInput('parent', { subcommand: 'open' }))).valid, true);
+    assert.equal((await validate(parent, harness.chatInput('parent', { subcommand: 'missing' }))).reason, 'Unknown subcommand.');
+  });
+
+  it('respects commands and categories disabled with /config', async () => {
+    const guild = harness.addGuild();
+
+    await GuildSettings.update(guild.id, settings => settings.disabledCategories.push('games'));
+    assert.equal((await roll({ guild })).reason, 'This command is disabled in this server.');
+    assert.equal((await roll()).valid, true, 'settings only apply in their server');
+
+    await GuildSettings.reset(guild.id);
+    await GuildSettings.update(guild.id, settings => settings.disabledCommands.push('roll'));
+    assert.equal((await roll({ guild })).reason, 'This command is disabled in this server.');
+
+    command.configurable = false;
+    assert.equal((await roll({ guild })).valid, true);
+  });
+
+  it('applies concurrent /config changes one after another', async () => {
+    const guild = harness.addGuild();
+
+    await Promise.all([
+      GuildSettings.update(guild.id, settings => settings.disabledCommands.push('roll')),
+      GuildSettings.update(guild.id, settings => settings.disabledCommands.push('parent'))
+    ]);
+
+    assert.deepEqual((await GuildSettings.get(guild.id)).disabledCommands, ['roll', 'parent']);
+  });
+
+  it('respects channel and role limits set with /config', async () => {
+    const guild = addGuild();
+    const channelId = '1120000000000000001';
+    await GuildSettings.update(guild.id, settings => {
+      settings.channels.roll = [channelId];
+      settings.roles.roll = [ALLOWED_ROLE_ID];
+    });
+
+    assert.equal((await roll({ guild })).reason, `This command can only be used in <#${channelId}>.`);
+    assert.equal((await roll({ guild, channelId })).reason, 'You don\'t have a role that can use this command.');
+    assert.equal((await roll({ guild, channelId, member: { roles: [ALLOWED_ROLE_ID] } })).valid, true);
+  });
+
+  it('counts only valid uses against cooldowns, and exempts developers', async () => {
+    command.cooldowns = [{ scope: 'user', duration: 30_000, burst: 2 }];
+    const user = { id: MEMBER_ID };
+
+    await roll({ user, options: { sides: 1 } });
+    assert.equal((await roll({ user })).valid, true);
+    assert.equal((await roll({ user })).valid, true);
+    assert.equal((await roll({ user })).reason, 'You\'re on cooldown. Try again in 30s.');
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await roll({ user: { id: DEVELOPER_ID } })).valid, true);
+    }
+  });
+});
+
+describe('Autocomplete cache', () => {
+  let harness: TestHarness;
+  let command: TravelCommand;
+
+  beforeEach(async () => {
+    command = new TravelCommand();
+    harness = await TestHarness.create({ commands: [command] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const suggest = async (user: string, country: string, city: string) => {
+    const interaction = harness.autocomplete('travel', { focused: 'city', user: { id: user }, options: { country, city } });
+    await harness.run(interaction);
+    return (interaction.responses[0].options as ApplicationCommandOptionChoiceData[])[0].name;
+  };
+
+  it('reuses choices only for the same user, options and typed value', async () => {
+    assert.equal(await suggest(MEMBER_ID, 'France', 'Par'), `Par in France for ${MEMBER_ID}`);
+    assert.equal(await suggest(MEMBER_ID, 'France', 'Par'), `Par in France for ${MEMBER_ID}`);
+    assert.equal(command.lookups, 1);
+
+    assert.equal(await suggest(DEVELOPER_ID, 'France', 'Par'), `Par in France for ${DEVELOPER_ID}`);
+    assert.equal(await suggest(MEMBER_ID, 'Texas', 'Par'), `Par in Texas for ${MEMBER_ID}`);
+    assert.equal(await suggest(MEMBER_ID, 'France', 'par'), `par in France for ${MEMBER_ID}`);
+    assert.equal(command.lookups, 4);
+  });
+});
+
+describe('CustomId', () => {
+  it('keeps separators in the command, handler and state intact', () => {
+    const decoded = CustomId.decode(CustomId.encode(ApplicationCommandType.ChatInput, 'roll', 'vote:up', ['a:b', '']));
+
+    assert.equal(decoded?.commandName, 'roll');
+    assert.equal(decoded?.handler, 'vote:up');
+    assert.deepEqual(decoded?.state, ['a:b', '']);
+  });
+});
+
+describe('CommandRegistrar.diff', () => {
+  it('notices changes to where a command can be installed and used', () => {
+    const registered = { name: 'roll', description: 'Roll a die' };
+    const userInstallable = { ...registered, integration_types: [ApplicationIntegrationType.UserInstall, ApplicationIntegrationType.GuildInstall] };
+    const guildOnly = { ...registered, contexts: [InteractionContextType.Guild], dm_permission: false };
+    const defaults = {
+      ...registered,
+      contexts: [InteractionContextType.PrivateChannel, InteractionContextType.Guild, InteractionContextType.BotDM],
+      integration_types: [ApplicationIntegrationType.GuildInstall],
+      dm_permission: true
+    };
+
+    assert.deepEqual(CommandRegistrar.diff([registered], [userInstallable]).flatMap(change => change.details), ['integration_types changed']);
+    assert.deepEqual(CommandRegistrar.diff([registered], [guildOnly]).flatMap(change => change.details), ['dm_permission changed', 'contexts changed']);
+    assert.deepEqual(CommandRegistrar.diff([defaults], [registered]), []);
+  });
+});
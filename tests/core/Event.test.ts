@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { Events, GatewayIntentBits, Guild, IntentsBitField, SlashCommandBuilder } from 'discord.js';
+import { Command, CommandHelpInfo } from '../../src/core/Command.js';
+import { Event, EventContext } from '../../src/core/Event.js';
+import { TestHarness } from '../kit/index.js';
+
+class MembersCommand extends Command {
+  public readonly data = new SlashCommandBuilder().setName('members').setDescription('List members');
+  public readonly helpInfo: CommandHelpInfo = { name: 'members', description: 'List members', usage: '/members', examples: [], category: 'Utility' };
+  public readonly intents = [GatewayIntentBits.GuildMembers];
+
+  public async execute(): Promise<void> {}
+}
+
+/**
+ * Records the guilds it was called with; throws when asked to
+ */
+class RecordingEvent extends Event<Events.GuildCreate> {
+  public readonly name = Events.GuildCreate;
+  public readonly intents = [GatewayIntentBits.GuildMessages];
+  public readonly guilds: string[] = [];
+
+  constructor(public readonly once = false, private fail = false) {
+    super();
+  }
+
+  public async execute(context: EventContext, guild: Guild): Promise<void> {
+    assert.equal(context.bot.getEvents().includes(this), true);
+    this.guilds.push(guild.id);
+    if (this.fail) {
+      throw new Error('handler failed');
+    }
+  }
+}
+
+describe('Event', () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  // Handlers run asynchronously after emit()
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  it('requests only Guilds and the intents commands and events declare', async () => {
+    harness = await TestHarness.create({ commands: [new MembersCommand()], events: [new RecordingEvent()] });
+
+    const intents = new IntentsBitField(harness.client.options.intents).toArray();
+    assert.deepEqual(intents.sort(), ['GuildMembers', 'GuildMessages', 'Guilds']);
+  });
+
+  it('runs once handlers for the first event only', async () => {
+    const always = new RecordingEvent();
+    const once = new RecordingEvent(true);
+    harness = await TestHarness.create({ events: [always, once] });
+
+    const first = harness.addGuild();
+    const second = harness.addGuild();
+    harness.client.emit(Events.GuildCreate, first);
+    harness.client.emit(Events.GuildCreate, second);
+    await settle();
+
+    assert.deepEqual(always.guilds, [first.id, second.id]);
+    assert.deepEqual(once.guilds, [first.id]);
+  });
+
+  it('keeps a failing handler from affecting the others', async () => {
+    const failing = new RecordingEvent(false, true);
+    const healthy = new RecordingEvent();
+    harness = await TestHarness.create({ events: [failing, healthy] });
+
+    const guild = harness.addGuild();
+    assert.doesNotThrow(() => harness.client.emit(Events.GuildCreate, guild));
+    harness.client.emit(Events.GuildCreate, guild);
+    await settle();
+
+    assert.equal(failing.guilds.length, 2);
+    assert.equal(healthy.guilds.length, 2);
+  });
+});
@@ -0,0 +1,230 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ChatInputCommandInteraction, RESTPostAPIChatInputApplicationCommandsJSONBody, SlashCommandBuilder } from 'discord.js';
+import { DevCommand } from '../../src/commands/DevCommand.js';
+import { ExampleCommand } from '../../src/commands/ExampleCommand.js';
+import { PingCommand } from '../../src/commands/PingCommand.js';
+import { Command, CommandHelpInfo } from '../../src/core/Command.js';
+import { CommandOptions, InferOptions } from '../../src/core/CommandOptions.js';
+import { GuildSettings } from '../../src/core/GuildSettings.js';
+import { MessageArguments } from '../../src/core/MessageArguments.js';
+import { MessageCommandInteraction } from '../../src/core/MessageCommandInteraction.js';
+import { TestHarness } from '../kit/index.js';
+
+const ALICE_ID = '1100000000000000001';
+const BOB_ID = '1100000000000000002';
+const HOME_GUILD_ID = '1300000000000000001';
+
+const remindOptions = CommandOptions.define({
+  count: { type: 'integer', description: 'How many times', required: true, min: 1, max: 10 },
+  loud: { type: 'boolean', description: 'Mention everyone' },
+  color: { type: 'string', description: 'Color', choices: [{ name: 'Red', value: 'red' }, { name: 'Blue', value: 'blue' }] },
+  note: { type: 'string', description: 'What to remind about' }
+});
+
+/**
+ * Records the options it was run with
+ */
+class RemindCommand extends Command<typeof remindOptions> {
+  public readonly options = remindOptions;
+  public readonly data = CommandOptions.apply(new SlashCommandBuilder().setName('remind').setDescription('Set a reminder'), remindOptions);
+  public readonly helpInfo: CommandHelpInfo = { name: 'remind', description: 'Set a reminder', usage: '/remind', examples: [], category: 'Utility' };
+  public readonly messageCommand = true;
+
+  public received?: InferOptions<typeof remindOptions>;
+  public interaction?: ChatInputCommandInteraction;
+
+  public async execute(interaction: ChatInputCommandInteraction, args: InferOptions<typeof remindOptions>): Promise<void> {
+    this.received = args;
+    this.interaction = interaction;
+    await interaction.reply({ content: 'Saved', ephemeral: true });
+  }
+}
+
+/**
+ * Only registered in one guild
+ */
+class HomeCommand extends Command {
+  public readonly data = new SlashCommandBuilder().setName('home').setDescription('Only in the home guild');
+  public readonly helpInfo: CommandHelpInfo = { name: 'home', description: 'Only in the home guild', usage: '/home', examples: [], category: 'Utility' };
+  public readonly guildIds = [HOME_GUILD_ID];
+  public readonly messageCommand = true;
+
+  public async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.reply('Home');
+  }
+}
+
+describe('MessageArguments', () => {
+  it('keeps quoted phrases together, also as option values', () => {
+    const tokens = MessageArguments.tokenize('say "hello world" it\'s note:"a \\"b\\"" “smart”');
+
+    assert.deepEqual(tokens.map(token => token.value), ['say', 'hello world', 'it\'s', 'note:a "b"', 'smart']);
+    assert.deepEqual(tokens.map(token => token.quoted), [false, true, false, false, true]);
+  });
+
+  it('shows the options and subcommands in usage hints', () => {
+    const { options = [] } = new ExampleCommand().getRegistrationData() as RESTPostAPIChatInputApplicationCommandsJSONBody;
+
+    assert.equal(MessageArguments.formatUsage('!', 'example', options, ['user']), '!example user [target]');
+    assert.equal(MessageArguments.formatUsage('!', 'example', options, []), '!example <user|server|confirm|feedback>');
+  });
+});
+
+describe('MessageCommandHandler', () => {
+  let harness: TestHarness;
+  let remind: RemindCommand;
+
+  beforeEach(async () => {
+    remind = new RemindCommand();
+    harness = await TestHarness.create({
+      commands: [new PingCommand(), new ExampleCommand(), new DevCommand(), new HomeCommand(), remind],
+      env: { MESSAGE_COMMANDS: 'true', DEVELOPER_IDS: ALICE_ID }
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('runs commands with the prefix and replies to the message', async () => {
+    const guild = harness.addGuild();
+    const message = harness.message('!ping', { guild });
+    await harness.send(message);
+
+    assert.deepEqual(message.responses.map(response => response.method), ['reply', 'editReply']);
+    assert.equal(message.responses[0].content, 'Pinging...');
+    assert.match(message.responses[1].content!, /Pong!/);
+  });
+
+  it('accepts a mention of the bot and the guild\'s own prefix', async () => {
+    const guild = harness.addGuild();
+    await GuildSettings.update(guild.id, settings => {
+      settings.prefix = '?';
+    });
+
+    const mention = harness.message(`<@${TestHarness.APPLICATION_ID}> ping`, { guild });
+    const custom = harness.message('?ping', { guild });
+    const old = harness.message('!ping', { guild });
+    await harness.send(mention);
+    await harness.send(custom);
+    await harness.send(old);
+
+    assert.equal(mention.responses[0].content, 'Pinging...');
+    assert.equal(custom.responses[0].content, 'Pinging...');
+    assert.equal(old.responses.length, 0);
+  });
+
+  it('picks up prefix changes and resets', async () => {
+    const guild = harness.addGuild();
+    await harness.send(harness.message('!ping', { guild }));
+    await GuildSettings.update(guild.id, settings => {
+      settings.prefix = '?';
+    });
+
+    const custom = harness.message('?ping', { guild });
+    await harness.send(custom);
+    await GuildSettings.reset(guild.id);
+    const reset = harness.message('!ping', { guild });
+    await harness.send(reset);
+
+    assert.equal(custom.responses[0].content, 'Pinging...');
+    assert.equal(reset.responses[0].content, 'Pinging...');
+  });
+
+  it('ignores commands that don\'t opt in to messages or belong to other guilds', async () => {
+    const dev = harness.message('!dev info', { guild: harness.addGuild(), user: { id: ALICE_ID } });
+    const elsewhere = harness.message('!home', { guild: harness.addGuild() });
+    const home = harness.message('!home', { guild: harness.addGuild({ id: HOME_GUILD_ID }) });
+    await harness.send(dev);
+    await harness.send(elsewhere);
+    await harness.send(home);
+
+    assert.equal(dev.responses.length, 0);
+    assert.equal(elsewhere.responses.length, 0);
+    assert.equal(home.responses[0].content, 'Home');
+  });
+
+  it('ignores bots and unknown commands', async () => {
+    const guild = harness.addGuild();
+    const bot = harness.message('!ping', { guild, user: { bot: true } });
+    const unknown = harness.message('!dance', { guild });
+    await harness.send(bot);
+    await harness.send(unknown);
+
+    assert.equal(bot.responses.length, 0);
+    assert.equal(unknown.responses.length, 0);
+  });
+
+  it('maps positional and named tokens onto the options', async () => {
+    const message = harness.message('!remind 3 yes color:Blue call mom "later today"');
+    await harness.send(message);
+
+    assert.deepEqual(remind.received, { count: 3, loud: true, color: 'blue', note: 'call mom "later today"' });
+    assert.ok(remind.interaction instanceof MessageCommandInteraction);
+    // DMs are already private, so ephemeral replies are sent as normal replies
+    assert.equal(message.responses[0].content, 'Saved');
+    assert.equal(message.responses[0].ephemeral, false);
+  });
+
+  it('sends ephemeral replies in servers by DM, with a notice in the channel', async () => {
+    const message = harness.message('!remind 3', { guild: harness.addGuild() });
+    await harness.send(message);
+
+    assert.deepEqual(message.directMessages.map(response => response.content), ['Saved']);
+    assert.equal(message.directMessages[0].ephemeral, false);
+    assert.deepEqual(message.responses.map(response => response.content), ['📬 I sent you the reply in a direct message.']);
+  });
+
+  it('resolves users by mention and by name', async () => {
+    const guild = harness.addGuild({ members: [{ user: { id: BOB_ID, username: 'bob' } }] });
+
+    for (const target of [`<@${BOB_ID}>`, 'bob']) {
+      const message = harness.message(`!example user ${target}`, { guild });
+      await harness.send(message);
+
+      assert.equal(message.responses[0].embeds[0].description, 'Information about bob');
+    }
+  });
+
+  it('replies with the reason and usage when the arguments are invalid', async () => {
+    const guild = harness.addGuild();
+    const unknownUser = harness.message('!example user nobody', { guild });
+    const outOfRange = harness.message('!remind 11', { guild });
+    const missing = harness.message('!remind', { guild });
+    await harness.send(unknownUser);
+    await harness.send(outOfRange);
+    await harness.send(missing);
+
+    assert.equal(unknownUser.responses[0].content, '❌ Option "target": no user found for "nobody".\n📋 Usage: `!example user [target]`');
+    assert.equal(outOfRange.responses[0].content, '❌ Option "count" must be between 1 and 10.\n📋 Usage: `!remind <count> [loud] [color] [note]`');
+    assert.match(missing.responses[0].content!, /^❌ Missing required option "count"\./);
+    assert.equal(remind.received, undefined);
+  });
+
+  it('explains that modals need the slash command', async () => {
+    const guild = harness.addGuild();
+    const message = harness.message('!example feedback', { guild });
+    await harness.send(message);
+
+    assert.equal(message.responses[0].content, '❌ This part of /example only works as a slash command.');
+  });
+
+  it('runs the same validation as slash commands', async () => {
+    const message = harness.message('!example server');
+    await harness.send(message);
+
+    assert.equal(message.responses[0].content, '❌ This command can only be used in servers.');
+  });
+});
+
+describe('MessageCommandHandler when disabled', () => {
+  it('does not read messages', async () => {
+    const harness = await TestHarness.create({ commands: [new PingCommand()] });
+    const message = harness.message('!ping', { guild: harness.addGuild() });
+    await harness.send(message);
+    await harness.close();
+
+    assert.equal(message.responses.length, 0);
+  });
+});
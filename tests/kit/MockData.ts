@@ -0,0 +1,195 @@
+import {
+  APIChannel,
+  APIGuild,
+  APIGuildMember,
+  APIInteractionDataResolvedChannel,
+  APIMessage,
+  APIRole,
+  APIUser,
+  ChannelType,
+  GuildDefaultMessageNotifications,
+  GuildExplicitContentFilter,
+  GuildMemberFlags,
+  GuildMFALevel,
+  GuildNSFWLevel,
+  GuildPremiumTier,
+  GuildSystemChannelFlags,
+  GuildVerificationLevel,
+  Locale,
+  MessageType,
+  PermissionResolvable,
+  PermissionsBitField,
+  RoleFlags,
+  SnowflakeUtil
+} from 'discord.js';
+
+/**
+ * Guild member settings for a mock guild or interaction
+ */
+export interface MockMemberOptions {
+  user?: Partial<APIUser>;
+  /** Role IDs, without the @everyone role */
+  roles?: string[];
+  /** Permission names, resolved like PermissionsBitField (defaults to none) */
+  permissions?: PermissionResolvable;
+  nick?: string | null;
+  joinedAt?: Date;
+}
+
+/**
+ * Guild settings for a mock guild
+ */
+export interface MockGuildOptions {
+  id?: string;
+  name?: string;
+  ownerId?: string;
+  description?: string | null;
+  memberCount?: number;
+  roles?: Partial<APIRole>[];
+  members?: MockMemberOptions[];
+  channels?: Partial<APIChannel>[];
+}
+
+/**
+ * Builders for raw Discord API payloads with sensible defaults
+ * Every ID is a fresh snowflake unless given, so timestamps derived from IDs are "now"
+ */
+export class MockData {
+  /**
+   * Generate a snowflake for the current time
+   */
+  public static snowflake(): string {
+    return SnowflakeUtil.generate().toString();
+  }
+
+  public static user(overrides: Partial<APIUser> = {}): APIUser {
+    const id = overrides.id ?? this.snowflake();
+    return {
+      id,
+      username: `user-${id.slice(-4)}`,
+      discriminator: '0',
+      global_name: null,
+      avatar: null,
+      ...overrides
+    };
+  }
+
+  public static role(overrides: Partial<APIRole> = {}): APIRole {
+    const id = overrides.id ?? this.snowflake();
+    return {
+      id,
+      name: `role-${id.slice(-4)}`,
+      color: 0,
+      colors: { primary_color: 0, secondary_color: null, tertiary_color: null },
+      hoist: false,
+      icon: null,
+      unicode_emoji: null,
+      position: 1,
+      permissions: '0',
+      managed: false,
+      mentionable: false,
+      flags: 0 as RoleFlags,
+      ...overrides
+    };
+  }
+
+  public static member(options: MockMemberOptions = {}): APIGuildMember & { permissions: string } {
+    return {
+      user: this.user(options.user),
+      nick: options.nick ?? null,
+      avatar: null,
+      banner: null,
+      roles: options.roles ?? [],
+      joined_at: (options.joinedAt ?? new Date()).toISOString(),
+      deaf: false,
+      mute: false,
+      flags: 0 as GuildMemberFlags,
+      permissions: this.permissions(options.permissions)
+    };
+  }
+
+  public static channel(overrides: Partial<APIInteractionDataResolvedChannel> = {}): APIInteractionDataResolvedChannel {
+    const id = overrides.id ?? this.snowflake();
+    return {
+      id,
+      name: `channel-${id.slice(-4)}`,
+      type: ChannelType.GuildText,
+      permissions: this.permissions(PermissionsBitField.All),
+      ...overrides
+    } as APIInteractionDataResolvedChannel;
+  }
+
+  public static message(overrides: Partial<APIMessage> = {}): APIMessage {
+    return {
+      id: this.snowflake(),
+      channel_id: this.snowflake(),
+      author: this.user(),
+      content: '',
+      embeds: [],
+      timestamp: new Date().toISOString(),
+      edited_timestamp: null,
+      tts: false,
+      mention_everyone: false,
+      mentions: [],
+      mention_roles: [],
+      attachments: [],
+      components: [],
+      pinned: false,
+      type: MessageType.Default,
+      ...overrides
+    };
+  }
+
+  /**
+   * A guild payload, with the @everyone role (same ID as the guild) added to the given roles
+   */
+  public static guild(options: MockGuildOptions = {}): APIGuild & { member_count: number; members: APIGuildMember[]; channels: Partial<APIChannel>[] } {
+    const id = options.id ?? this.snowflake();
+    const members = (options.members ?? []).map(member => this.member(member));
+
+    return {
+      id,
+      name: options.name ?? 'Test Server',
+      icon: null,
+      splash: null,
+      discovery_splash: null,
+      owner_id: options.ownerId ?? members[0]?.user.id ?? this.snowflake(),
+      region: 'us-east',
+      afk_channel_id: null,
+      afk_timeout: 300,
+      verification_level: GuildVerificationLevel.None,
+      default_message_notifications: GuildDefaultMessageNotifications.OnlyMentions,
+      explicit_content_filter: GuildExplicitContentFilter.Disabled,
+      roles: [this.role({ id, name: '@everyone', position: 0 }), ...(options.roles ?? []).map(role => this.role(role))],
+      emojis: [],
+      features: [],
+      mfa_level: GuildMFALevel.None,
+      application_id: null,
+      system_channel_id: null,
+      system_channel_flags: 0 as GuildSystemChannelFlags,
+      rules_channel_id: null,
+      vanity_url_code: null,
+      description: options.description ?? null,
+      banner: null,
+      premium_tier: GuildPremiumTier.None,
+      preferred_locale: Locale.EnglishUS,
+      public_updates_channel_id: null,
+      nsfw_level: GuildNSFWLevel.Default,
+      stickers: [],
+      premium_progress_bar_enabled: false,
+      hub_type: null,
+      safety_alerts_channel_id: null,
+      incidents_data: null,
+      member_count: options.memberCount ?? members.length,
+      members,
+      channels: options.channels ?? []
+    };
+  }
+
+  /**
+   * Serialize permissions the way Discord sends them
+   */
+  public static permissions(permissions: PermissionResolvable = []): string {
+    return new PermissionsBitField(permissions).bitfield.toString();
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  APIEmbed,
+  APIInteraction,
+  APIMessage,
+  ApplicationCommandType,
+  AutocompleteInteraction,
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  ComponentType,
+  Interaction,
+  InteractionType,
+  Message,
+  MessageContextMenuCommandInteraction,
+  MessageFlags,
+  MessageFlagsBitField,
+  ModalSubmitInteraction,
+  StringSelectMenuInteraction,
+  UserContextMenuCommandInteraction
+} from 'discord.js';
+import { MockData } from './MockData.js';
+
+/**
+ * Interaction methods that answer Discord, all of which are recorded
+ */
+export type ResponseMethod =
+  | 'deferReply'
+  | 'reply'
+  | 'editReply'
+  | 'followUp'
+  | 'deleteReply'
+  | 'deferUpdate'
+  | 'update'
+  | 'showModal'
+  | 'respond';
+
+/**
+ * One recorded call to a response method
+ */
+export interface RecordedResponse {
+  method: ResponseMethod;
+  /** Message content, if any */
+  content?: string;
+  /** Embeds as API data, whether the command passed builders or plain objects */
+  embeds: APIEmbed[];
+  /** Whether the message was sent ephemerally (ephemeral: true or the Ephemeral flag) */
+  ephemeral: boolean;
+  /** The options exactly as the command passed them (a modal for showModal, choices for respond) */
+  options: unknown;
+}
+
+/**
+ * An interaction whose responses are recorded instead of sent
+ */
+export type MockInteraction<T extends Interaction = Interaction> = T & {
+  readonly responses: RecordedResponse[];
+};
+
+type InteractionConstructor = new (client: Client, data: APIInteraction) => Interaction;
+type MessageConstructor = new (client: Client, data: APIMessage) => Message;
+
+type RecordingMethod = (options?: unknown) => Promise<unknown>;
+
+/**
+ * The members of an interaction that recording replaces or updates; not every interaction type has all of them
+ */
+type RecordingTarget = Partial<Record<ResponseMethod, RecordingMethod>> & {
+  deferred: boolean;
+  replied: boolean;
+  ephemeral: boolean | null;
+  responded: boolean;
+};
+
+const ALREADY_REPLIED = 'The reply to this interaction has already been sent or deferred.';
+const NOT_REPLIED = 'The reply to this interaction has not been sent or deferred.';
+
+/**
+ * Builds real discord.js interactions from API payloads, without a gateway or REST connection
+ * Response methods follow discord.js's replied/deferred rules but only record what they were given
+ */
+export class MockInteractionFactory {
+  /**
+   * Create the interaction class discord.js would for the payload and record its responses
+   */
+  public static create<T extends Interaction>(client: Client, payload: APIInteraction): MockInteraction<T> {
+    const Constructor = this.getConstructor(payload) as unknown as InteractionConstructor;
+    return this.record(client, new Constructor(client, payload) as T);
+  }
+
+  /**
+   * Replace the response methods of an interaction with recording ones
+   */
+  public static record<T extends Interaction>(client: Client, interaction: T): MockInteraction<T> {
+    const responses: RecordedResponse[] = [];
+    const target = interaction as unknown as RecordingTarget;
+
+    const push = (method: ResponseMethod, options: unknown) => {
+      responses.push(this.createRecord(method, options));
+    };
+    const assertNotReplied = () => {
+      if (target.deferred || target.replied) throw new Error(ALREADY_REPLIED);
+    };
+    const assertReplied = () => {
+      if (!target.deferred && !target.replied) throw new Error(NOT_REPLIED);
+    };
+
+    const overrides: Partial<Record<ResponseMethod, RecordingMethod>> = {
+      deferReply: async (options = {}) => {
+        assertNotReplied();
+        push('deferReply', options);
+        target.deferred = true;
+        target.ephemeral = responses.at(-1)!.ephemeral;
+        return this.createMessage(client, interaction, {});
+      },
+      reply: async (options) => {
+        assertNotReplied();
+        push('reply', options);
+        target.replied = true;
+        target.ephemeral = responses.at(-1)!.ephemeral;
+        return this.createMessage(client, interaction, options);
+      },
+      editReply: async (options) => {
+        assertReplied();
+        push('editReply', options);
+        return this.createMessage(client, interaction, options);
+      },
+      followUp: async (options) => {
+        assertReplied();
+        push('followUp', options);
+        return this.createMessage(client, interaction, options);
+      },
+      deleteReply: async (message = '@original') => {
+        assertReplied();
+        push('deleteReply', message);
+      },
+      deferUpdate: async (options = {}) => {
+        assertNotReplied();
+        push('deferUpdate', options);
+        target.deferred = true;
+      },
+      update: async (options) => {
+        assertNotReplied();
+        push('update', options);
+        target.replied = true;
+        return this.createMessage(client, interaction, options);
+      },
+      showModal: async (modal) => {
+        assertNotReplied();
+        push('showModal', modal);
+        target.replied = true;
+      },
+      respond: async (choices) => {
+        if (target.responded) throw new Error(ALREADY_REPLIED);
+        push('respond', choices);
+        target.responded = true;
+      }
+    };
+
+    // Only patch what the interaction type supports, so e.g. showModal stays missing on autocomplete
+    for (const [method, override] of Object.entries(overrides) as [ResponseMethod, RecordingMethod][]) {
+      if (typeof target[method] === 'function') {
+        target[method] = override;
+      }
+    }
+
+    Object.defineProperty(interaction, 'responses', { value: responses });
+    return interaction as MockInteraction<T>;
+  }
+
+  private static getConstructor(payload: APIInteraction): unknown {
+    switch (payload.type) {
+      case InteractionType.ApplicationCommand:
+        switch (payload.data.type) {
+          case ApplicationCommandType.User:
+            return UserContextMenuCommandInteraction;
+          case ApplicationCommandType.Message:
+            return MessageContextMenuCommandInteraction;
+          default:
+            return ChatInputCommandInteraction;
+        }
+      case InteractionType.ApplicationCommandAutocomplete:
+        return AutocompleteInteraction;
+      case InteractionType.MessageComponent:
+        if (payload.data.component_type === ComponentType.Button) return ButtonInteraction;
+        if (payload.data.component_type === ComponentType.StringSelect) return StringSelectMenuInteraction;
+        throw new Error(`Unsupported component type: ${payload.data.component_type}`);
+      case InteractionType.ModalSubmit:
+        return ModalSubmitInteraction;
+      default:
+        throw new Error(`Unsupported interaction type: ${payload.type}`);
+    }
+  }
+
+  /**
+   * Record a response with its content, embeds and ephemeral flag pulled out of the options
+   */
+  public static createRecord(method: ResponseMethod, options: unknown): RecordedResponse {
+    const normalized = (typeof options === 'string' ? { content: options } : options ?? {}) as {
+      content?: string;
+      embeds?: (APIEmbed | { toJSON(): APIEmbed })[];
+      ephemeral?: boolean;
+      flags?: ConstructorParameters<typeof MessageFlagsBitField>[0];
+    };
+
+    return {
+      method,
+      content: normalized.content,
+      embeds: Array.isArray(normalized.embeds)
+        ? normalized.embeds.map(embed => 'toJSON' in embed ? embed.toJSON() : embed)
+        : [],
+      ephemeral: normalized.ephemeral === true
+        || (normalized.flags !== undefined && new MessageFlagsBitField(normalized.flags).has(MessageFlags.Ephemeral)),
+      options
+    };
+  }
+
+  /**
+   * The message a response would have created, so commands can read e.g. createdTimestamp from fetchReply
+   */
+  private static createMessage(client: Client, interaction: Interaction, options: unknown): Message {
+    const record = this.createRecord('reply', options);
+    const MessageClass = Message as unknown as MessageConstructor;
+
+    return new MessageClass(client, MockData.message({
+      channel_id: interaction.channelId ?? MockData.snowflake(),
+      author: MockData.user({ id: interaction.applicationId, username: 'Test Bot', bot: true }),
+      content: record.content ?? '',
+      embeds: record.embeds,
+      flags: record.ephemeral ? MessageFlags.Ephemeral : undefined
+    }));
+  }
+}
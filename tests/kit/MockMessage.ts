@@ -0,0 +1,79 @@
+import { APIMessage, Client, Message } from 'discord.js';
+import { MockData } from './MockData.js';
+import { MockInteractionFactory, RecordedResponse } from './MockInteraction.js';
+
+/**
+ * A message whose replies are recorded instead of sent
+ */
+export type MockMessage = Message & {
+  readonly responses: RecordedResponse[];
+  /** What was sent to the author by DM, recorded as 'reply' */
+  readonly directMessages: RecordedResponse[];
+};
+
+/**
+ * Builds real discord.js messages for message command tests
+ * Replies to the message are recorded as 'reply', edits and deletions of those replies as
+ * 'editReply' and 'deleteReply', and the typing indicator as 'deferReply'
+ * DMs to the author are recorded separately, on directMessages
+ */
+export class MockMessageFactory {
+  /**
+   * Create a message in a cached channel and record what is sent in reply to it
+   */
+  public static create(client: Client, data: APIMessage): MockMessage {
+    const message: Message = Reflect.construct(Message, [client, data]);
+    const responses: RecordedResponse[] = [];
+    const target: { reply(options: unknown): Promise<Message> } = message;
+
+    target.reply = async (options: unknown) => {
+      responses.push(MockInteractionFactory.createRecord('reply', options));
+      return this.createReply(client, message, options, responses);
+    };
+
+    // The channel is shared by messages in it, so it records to the newest one
+    if (message.channel.isSendable()) {
+      const channel: { sendTyping(): Promise<void> } = message.channel;
+      channel.sendTyping = async () => {
+        responses.push(MockInteractionFactory.createRecord('deferReply', {}));
+      };
+    }
+
+    // The author is shared by their messages too
+    const directMessages: RecordedResponse[] = [];
+    const author: { send(options: unknown): Promise<Message> } = message.author;
+    author.send = async (options: unknown) => {
+      directMessages.push(MockInteractionFactory.createRecord('reply', options));
+      return this.createReply(client, message, options, directMessages);
+    };
+
+    Object.defineProperty(message, 'responses', { value: responses });
+    Object.defineProperty(message, 'directMessages', { value: directMessages });
+    return message as MockMessage;
+  }
+
+  /**
+   * The message a reply would have created, recording its edits and deletion
+   */
+  private static createReply(client: Client, message: Message, options: unknown, responses: RecordedResponse[]): Message {
+    const record = MockInteractionFactory.createRecord('reply', options);
+    const reply: Message = Reflect.construct(Message, [client, MockData.message({
+      channel_id: message.channelId,
+      author: MockData.user({ id: client.user?.id, username: 'Test Bot', bot: true }),
+      content: record.content ?? '',
+      embeds: record.embeds
+    })]);
+    const target: { edit(options: unknown): Promise<Message>; delete(): Promise<Message> } = reply;
+
+    target.edit = async (edit: unknown) => {
+      responses.push(MockInteractionFactory.createRecord('editReply', edit));
+      return reply;
+    };
+    target.delete = async () => {
+      responses.push(MockInteractionFactory.createRecord('deleteReply', reply.id));
+      return reply;
+    };
+
+    return reply;
+  }
+}
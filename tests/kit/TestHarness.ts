@@ -0,0 +1,415 @@
+import {
+  APIApplicationCommandInteractionDataOption,
+  APIApplicationCommandOption,
+  APIAttachment,
+  APIInteraction,
+  APIInteractionDataResolved,
+  APIInteractionDataResolvedChannel,
+  APIMessage,
+  APIRole,
+  APIUser,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  AutocompleteInteraction,
+  ButtonInteraction,
+  Channel,
+  ChannelType,
+  ChatInputCommandInteraction,
+  Client,
+  ClientUser,
+  ComponentType,
+  Guild,
+  Interaction,
+  InteractionContextType,
+  InteractionType,
+  ModalSubmitInteraction,
+  PermissionResolvable,
+  PermissionsBitField,
+  TextInputStyle
+} from 'discord.js';
+import { Bot } from '../../src/core/Bot.js';
+import { Command } from '../../src/core/Command.js';
+import { CommandContext } from '../../src/core/CommandContext.js';
+import { Event } from '../../src/core/Event.js';
+import { Environment } from '../../src/services/Environment.js';
+import { MemoryStorage } from '../../src/services/MemoryStorage.js';
+import { Storage } from '../../src/services/Storage.js';
+import { MockData, MockGuildOptions, MockMemberOptions } from './MockData.js';
+import { MockInteraction, MockInteractionFactory } from './MockInteraction.js';
+import { MockMessage, MockMessageFactory } from './MockMessage.js';
+
+/**
+ * Value for a slash command option; objects are added to the interaction's resolved data
+ */
+export type MockOptionValue = string | number | boolean | APIUser | APIRole | APIInteractionDataResolvedChannel | APIAttachment;
+
+/**
+ * Who invokes an interaction, and where
+ */
+export interface MockInteractionOptions {
+  /** The invoking user (a fresh user by default) */
+  user?: Partial<APIUser>;
+  /** Guild the interaction comes from; a guild added with addGuild() is cached, an ID alone is not. Omit for a DM */
+  guild?: Guild | string;
+  /** Roles and permissions of the invoking member; in a cached guild, like in discord.js, only roles the guild has count */
+  member?: Omit<MockMemberOptions, 'user'>;
+  channelId?: string;
+  locale?: string;
+  guildLocale?: string;
+  /** The bot's permissions in the channel (defaults to all) */
+  appPermissions?: PermissionResolvable;
+}
+
+export interface MockChatInputOptions extends MockInteractionOptions {
+  /** Invoked subcommand path, e.g. 'user' or 'group user' */
+  subcommand?: string;
+  /** Option values by name; types are looked up in the command's registration data */
+  options?: Record<string, MockOptionValue>;
+}
+
+export interface MockAutocompleteOptions extends MockChatInputOptions {
+  /** Name of the option being typed */
+  focused: string;
+}
+
+/**
+ * Who sends a message, and where
+ */
+export interface MockMessageOptions {
+  /** The author (a fresh user by default) */
+  user?: Partial<APIUser>;
+  /** Guild added with addGuild() the message is sent in. Omit for a DM */
+  guild?: Guild;
+  /** Roles of the author in the guild */
+  member?: Omit<MockMemberOptions, 'user' | 'permissions'>;
+  /** Channel to send in (a new text channel by default) */
+  channelId?: string;
+  attachments?: APIAttachment[];
+}
+
+/**
+ * Settings for a test harness
+ */
+export interface TestHarnessOptions {
+  /** Commands the bot is created with */
+  commands?: Command[];
+  /** Event handlers the bot is created with; trigger them with client.emit() */
+  events?: Event[];
+  /** Environment variables on top of the test defaults, e.g. { DEVELOPER_IDS: '123' } */
+  env?: Record<string, string>;
+  /** Gateway ping reported by client.ws.ping */
+  ping?: number;
+}
+
+/**
+ * Offline test harness: a real Bot and Client that never connect, in-memory storage,
+ * and builders for interactions whose responses are recorded instead of sent
+ *
+ *   const harness = await TestHarness.create({ commands: [new PingCommand()] });
+ *   const interaction = harness.chatInput('ping');
+ *   await harness.run(interaction);
+ *   assert.equal(interaction.responses[0].method, 'reply');
+ *   await harness.close();
+ */
+export class TestHarness {
+  /** Application ID used for the bot in every payload */
+  public static readonly APPLICATION_ID = '1200000000000000000';
+
+  /** Test defaults: a well-formed fake token, quiet logs and in-memory storage */
+  private static readonly DEFAULT_ENV: Record<string, string> = {
+    DISCORD_TOKEN: `MTAwMDAwMDAwMDAwMDAwMDAw.mock00.${'x'.repeat(38)}`,
+    DISCORD_CLIENT_ID: TestHarness.APPLICATION_ID,
+    NODE_ENV: 'test',
+    DEVELOPER_IDS: '',
+    LOG_LEVEL: 'silent',
+    STORAGE_DRIVER: 'memory'
+  };
+
+  public readonly bot: Bot;
+  public readonly client: Client;
+
+  private constructor(options: TestHarnessOptions, private previousEnv: Record<string, string | undefined>) {
+    this.bot = new Bot(TestHarness.DEFAULT_ENV.DISCORD_TOKEN, options.commands ?? [], options.events ?? []);
+    this.client = this.bot.getClient();
+    Object.defineProperty(this.client.ws, 'ping', { value: options.ping ?? 42, configurable: true });
+  }
+
+  /**
+   * Load the test environment, open in-memory storage and create the bot
+   * @throws ConfigError if the env overrides are invalid
+   */
+  public static async create(options: TestHarnessOptions = {}): Promise<TestHarness> {
+    const env = { ...this.DEFAULT_ENV, ...options.env };
+    const previousEnv = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+
+    Object.assign(process.env, env);
+    Environment.validate();
+    await Storage.open(new MemoryStorage());
+
+    return new TestHarness(options, previousEnv);
+  }
+
+  /**
+   * Stop the bot, close storage and restore the environment
+   */
+  public async close(): Promise<void> {
+    await this.bot.stop();
+
+    for (const [key, value] of Object.entries(this.previousEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  }
+
+  /**
+   * Add a guild to the client's cache, with its roles, members and channels
+   */
+  public addGuild(options: MockGuildOptions = {}): Guild {
+    const guilds = this.client.guilds as unknown as { _add(data: unknown): Guild };
+    return guilds._add(MockData.guild(options));
+  }
+
+  /**
+   * Build a slash command interaction
+   */
+  public chatInput(commandName: string, options: MockChatInputOptions = {}): MockInteraction<ChatInputCommandInteraction> {
+    const resolved: APIInteractionDataResolved = {};
+
+    return this.create<ChatInputCommandInteraction>(options, {
+      type: InteractionType.ApplicationCommand,
+      data: {
+        id: MockData.snowflake(),
+        name: commandName,
+        type: ApplicationCommandType.ChatInput,
+        options: this.createOptions(commandName, options, resolved),
+        resolved
+      }
+    });
+  }
+
+  /**
+   * Build an autocomplete interaction for the focused option
+   */
+  public autocomplete(commandName: string, options: MockAutocompleteOptions): MockInteraction<AutocompleteInteraction> {
+    const values = { [options.focused]: '', ...options.options };
+
+    return this.create<AutocompleteInteraction>(options, {
+      type: InteractionType.ApplicationCommandAutocomplete,
+      data: {
+        id: MockData.snowflake(),
+        name: commandName,
+        type: ApplicationCommandType.ChatInput,
+        options: this.createOptions(commandName, { ...options, options: values }, {}, options.focused)
+      }
+    });
+  }
+
+  /**
+   * Build a button click, e.g. for a custom ID created with command.createCustomId()
+   */
+  public button(customId: string, options: MockInteractionOptions & { message?: Partial<APIMessage> } = {}): MockInteraction<ButtonInteraction> {
+    return this.create<ButtonInteraction>(options, {
+      type: InteractionType.MessageComponent,
+      data: { custom_id: customId, component_type: ComponentType.Button },
+      message: MockData.message({ author: MockData.user({ id: TestHarness.APPLICATION_ID, bot: true }), ...options.message })
+    });
+  }
+
+  /**
+   * Build a modal submission with text input values by custom ID
+   */
+  public modalSubmit(customId: string, fields: Record<string, string>, options: MockInteractionOptions = {}): MockInteraction<ModalSubmitInteraction> {
+    return this.create<ModalSubmitInteraction>(options, {
+      type: InteractionType.ModalSubmit,
+      data: {
+        custom_id: customId,
+        components: Object.entries(fields).map(([id, value]) => ({
+          type: ComponentType.ActionRow,
+          components: [{ type: ComponentType.TextInput, custom_id: id, value, style: TextInputStyle.Paragraph }]
+        }))
+      }
+    });
+  }
+
+  /**
+   * Build a message, e.g. for message commands; the bot user and the bot's guild member
+   * (with every permission) are added to the cache if they aren't there yet
+   */
+  public message(content: string, options: MockMessageOptions = {}): MockMessage {
+    const author = MockData.user(options.user);
+    const guild = options.guild;
+    const channelId = options.channelId ?? MockData.snowflake();
+    const channels = this.client.channels as unknown as { _add(data: unknown, guild?: Guild): Channel };
+
+    this.addClientUser();
+    if (!this.client.channels.cache.has(channelId)) {
+      channels._add(guild
+        ? { id: channelId, type: ChannelType.GuildText, name: `channel-${channelId.slice(-4)}`, guild_id: guild.id, position: 0, permission_overwrites: [] }
+        : { id: channelId, type: ChannelType.DM, recipients: [author] }, guild);
+    }
+    if (guild && !guild.members.me) {
+      this.addBotMember(guild);
+    }
+
+    return MockMessageFactory.create(this.client, {
+      ...MockData.message({ channel_id: channelId, author, content, attachments: options.attachments ?? [] }),
+      ...(guild ? { guild_id: guild.id, member: MockData.member({ ...options.member, user: author }) } : {})
+    } as APIMessage);
+  }
+
+  /**
+   * Handle a message exactly like the running bot, running the message command in it if there is one
+   */
+  public async send(message: MockMessage): Promise<void> {
+    await this.bot.handleMessage(message);
+  }
+
+  /**
+   * Handle an interaction exactly like the running bot: validation, middleware, execute and error replies
+   */
+  public async run(interaction: Interaction): Promise<void> {
+    await this.bot.handleInteraction(interaction);
+  }
+
+  /**
+   * Get the context the bot would hand to a command, for calling validate or execute directly
+   */
+  public createContext(command: Command, interaction: Interaction): CommandContext {
+    return this.bot.createCommandContext(interaction, command);
+  }
+
+  /**
+   * Set client.user, which the gateway would set from the READY event
+   */
+  private addClientUser(): void {
+    if (this.client.user) return;
+
+    const user = Reflect.construct(ClientUser, [this.client, MockData.user({ id: TestHarness.APPLICATION_ID, username: 'Test Bot', bot: true })]);
+    (this.client as { user: ClientUser | null }).user = user;
+  }
+
+  /**
+   * Add the bot to a cached guild, with a role that has every permission
+   */
+  private addBotMember(guild: Guild): void {
+    const role = MockData.role({ name: 'Test Bot', permissions: PermissionsBitField.All.toString() });
+    (guild.roles as unknown as { _add(data: unknown): void })._add(role);
+    (guild.members as unknown as { _add(data: unknown): void })._add(
+      MockData.member({ user: { id: TestHarness.APPLICATION_ID, username: 'Test Bot', bot: true }, roles: [role.id] })
+    );
+  }
+
+  /**
+   * Add the invoking user, guild, channel and locale to a payload and build the interaction
+   */
+  private create<T extends Interaction>(options: MockInteractionOptions, payload: Record<string, unknown>): MockInteraction<T> {
+    const guildId = typeof options.guild === 'string' ? options.guild : options.guild?.id;
+    const user = MockData.user(options.user);
+    const channelId = options.channelId ?? MockData.snowflake();
+
+    return MockInteractionFactory.create<T>(this.client, {
+      id: MockData.snowflake(),
+      application_id: TestHarness.APPLICATION_ID,
+      token: 'mock-interaction-token',
+      version: 1,
+      channel_id: channelId,
+      channel: { id: channelId, type: guildId ? ChannelType.GuildText : ChannelType.DM },
+      locale: options.locale ?? 'en-US',
+      app_permissions: MockData.permissions(options.appPermissions ?? PermissionsBitField.All),
+      entitlements: [],
+      authorizing_integration_owners: {},
+      context: guildId ? InteractionContextType.Guild : InteractionContextType.BotDM,
+      ...(guildId
+        ? { guild_id: guildId, guild_locale: options.guildLocale ?? 'en-US', member: MockData.member({ ...options.member, user }) }
+        : { user }),
+      ...payload
+    } as unknown as APIInteraction);
+  }
+
+  /**
+   * Build the options array, nested under the invoked subcommand and group
+   */
+  private createOptions(
+    commandName: string,
+    options: MockChatInputOptions,
+    resolved: APIInteractionDataResolved,
+    focused?: string
+  ): APIApplicationCommandInteractionDataOption[] {
+    const path = options.subcommand?.trim().split(/\s+/) ?? [];
+    const declared = this.getDeclaredOptions(commandName, path);
+
+    let result = Object.entries(options.options ?? {}).map(([name, value]) => {
+      const type = declared.find(option => option.name === name)?.type ?? TestHarness.inferOptionType(value);
+      return { ...TestHarness.createOption(name, type, value, resolved), ...(name === focused ? { focused: true } : {}) };
+    }) as APIApplicationCommandInteractionDataOption[];
+
+    for (const name of [...path].reverse()) {
+      const type = result.length > 0 && result[0].type === ApplicationCommandOptionType.Subcommand
+        ? ApplicationCommandOptionType.SubcommandGroup
+        : ApplicationCommandOptionType.Subcommand;
+      result = [{ name, type, options: result } as APIApplicationCommandInteractionDataOption];
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the options a command declares for a subcommand path, from its registration data
+   */
+  private getDeclaredOptions(commandName: string, path: string[]): APIApplicationCommandOption[] {
+    const data = this.bot.getCommandManager().getCommand(commandName)?.getRegistrationData();
+    let options = (data && 'options' in data ? data.options : undefined) ?? [];
+
+    for (const name of path) {
+      const parent = options.find(option => option.name === name);
+      options = parent && 'options' in parent ? parent.options ?? [] : [];
+    }
+
+    return options as APIApplicationCommandOption[];
+  }
+
+  private static createOption(
+    name: string,
+    type: ApplicationCommandOptionType,
+    value: MockOptionValue,
+    resolved: APIInteractionDataResolved
+  ): APIApplicationCommandInteractionDataOption {
+    if (typeof value !== 'object') {
+      return { name, type, value } as APIApplicationCommandInteractionDataOption;
+    }
+
+    if ('username' in value) {
+      (resolved.users ??= {})[value.id] = value;
+    } else if ('color' in value) {
+      (resolved.roles ??= {})[value.id] = value;
+    } else if ('url' in value) {
+      (resolved.attachments ??= {})[value.id] = value;
+    } else {
+      (resolved.channels ??= {})[value.id] = value;
+    }
+
+    return { name, type, value: value.id } as APIApplicationCommandInteractionDataOption;
+  }
+
+  /**
+   * Guess an option type from its value, for options the command does not declare
+   */
+  private static inferOptionType(value: MockOptionValue): ApplicationCommandOptionType {
+    switch (typeof value) {
+      case 'string':
+        return ApplicationCommandOptionType.String;
+      case 'number':
+        return Number.isInteger(value) ? ApplicationCommandOptionType.Integer : ApplicationCommandOptionType.Number;
+      case 'boolean':
+        return ApplicationCommandOptionType.Boolean;
+    }
+
+    if ('username' in value) return ApplicationCommandOptionType.User;
+    if ('color' in value) return ApplicationCommandOptionType.Role;
+    if ('url' in value) return ApplicationCommandOptionType.Attachment;
+    return ApplicationCommandOptionType.Channel;
+  }
+}
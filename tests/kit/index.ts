@@ -0,0 +1,12 @@
+export { MockData, MockGuildOptions, MockMemberOptions } from './MockData.js';
+export { MockInteraction, MockInteractionFactory, RecordedResponse, ResponseMethod } from './MockInteraction.js';
+export { MockMessage, MockMessageFactory } from './MockMessage.js';
+export {
+  MockAutocompleteOptions,
+  MockChatInputOptions,
+  MockInteractionOptions,
+  MockMessageOptions,
+  MockOptionValue,
+  TestHarness,
+  TestHarnessOptions
+} from './TestHarness.js';
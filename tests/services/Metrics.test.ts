@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ExampleCommand } from '../../src/commands/ExampleCommand.js';
+import { PingCommand } from '../../src/commands/PingCommand.js';
+import { MetricsRegistry } from '../../src/services/Metrics.js';
+import { METRICS } from '../../src/services/ServiceContainer.js';
+import { TestHarness } from '../kit/index.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', 'Jobs run').inc({ queue: 'a"b' }, 2);
+    registry.gauge('queue_size', 'Queued jobs', () => 3);
+    const histogram = registry.histogram('job_seconds', 'Job duration', [0.1, 1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+
+    assert.equal(registry.render(), [
+      '# HELP jobs_total Jobs run',
+      '# TYPE jobs_total counter',
+      'jobs_total{queue="a\\"b"} 2',
+      '# HELP queue_size Queued jobs',
+      '# TYPE queue_size gauge',
+      'queue_size 3',
+      '# HELP job_seconds Job duration',
+      '# TYPE job_seconds histogram',
+      'job_seconds_bucket{le="0.1"} 1',
+      'job_seconds_bucket{le="1"} 2',
+      'job_seconds_bucket{le="+Inf"} 2',
+      'job_seconds_sum 0.55',
+      'job_seconds_count 2',
+      ''
+    ].join('\n'));
+  });
+
+  it('returns the existing metric for a name and rejects other types', () => {
+    const registry = new MetricsRegistry();
+    assert.equal(registry.counter('jobs_total', 'Jobs run'), registry.counter('jobs_total', 'Jobs run'));
+    assert.throws(() => registry.gauge('jobs_total', 'Jobs run'), /already registered as a counter/);
+  });
+});
+
+describe('MetricsMiddleware', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ commands: [new PingCommand(), new ExampleCommand()] });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('counts invocations, rejections and execution time per command', async () => {
+    await harness.run(harness.chatInput('ping'));
+    await harness.run(harness.chatInput('example', { subcommand: 'server' }));
+
+    const metrics = harness.bot.getServices().get(METRICS);
+    const invocations = metrics.counter('discord_bot_command_invocations_total', '');
+    const rejections = metrics.counter('discord_bot_command_rejections_total', '');
+    assert.equal(invocations.get({ command: 'ping', handler: '' }), 1);
+    assert.equal(invocations.get({ command: 'example', handler: '' }), 1);
+    assert.equal(rejections.get({ command: 'ping', handler: '' }), 0);
+    assert.equal(rejections.get({ command: 'example', handler: '' }), 1);
+
+    const rendered = metrics.render();
+    assert.match(rendered, /discord_bot_command_duration_seconds_count\{command="ping",handler=""\} 1/);
+    assert.doesNotMatch(rendered, /discord_bot_command_duration_seconds_count\{command="example"/);
+    assert.match(rendered, /discord_bot_guilds 0/);
+  });
+
+  it('keeps a command that succeeded a success when an after() hook throws', async () => {
+    harness.bot.use({ name: 'broken', after: async () => { throw new Error('Hook failed'); } });
+    const interaction = harness.chatInput('ping');
+    await harness.run(interaction);
+
+    const metrics = harness.bot.getServices().get(METRICS);
+    assert.equal(metrics.counter('discord_bot_command_invocations_total', '').get({ command: 'ping', handler: '' }), 1);
+    assert.equal(metrics.counter('discord_bot_command_errors_total', '').get({ command: 'ping', handler: '' }), 0);
+    assert.deepEqual(interaction.responses.map(response => response.method), ['reply', 'editReply']);
+  });
+});